@@ -0,0 +1,230 @@
+// Prompt construction and response parsing for /api/analyze.
+
+const SIBILANT_IPA = { s: '/s/', sh: '/ʃ/' };
+const ALIGNMENT_STATUSES = ['correct', 'substituted', 'missing', 'extra'];
+const SWAP_LABELS = { 's-to-sh': '/s/ was pronounced as /ʃ/', 'sh-to-s': '/ʃ/ was pronounced as /s/' };
+// Lesson packs drill other contrasts too (r/l, b/v, θ/s); s/ʃ is the original one.
+const DEFAULT_CONTRAST = { a: '/s/', b: '/ʃ/' };
+// Languages the coach can write `feedback` and `tip` in, as named in the prompt.
+const FEEDBACK_LANGUAGES = { en: 'English', ja: 'Japanese' };
+// Target accents, as named in the prompt.
+const ACCENTS = { 'en-US': 'General American', 'en-GB': 'Standard Southern British (RP)' };
+
+const isKeyOf = (table, value) => typeof value === 'string' && Object.prototype.hasOwnProperty.call(table, value);
+
+const isNonEmptyString = (value, maxLength) =>
+    typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// The optional feedbackLanguage and accent fields every coaching route
+// accepts. Problems are pushed onto `errors`.
+const validateLanguageOptions = (body, errors) => {
+    let feedbackLanguage = 'en';
+    if (body.feedbackLanguage !== undefined) {
+        if (isKeyOf(FEEDBACK_LANGUAGES, body.feedbackLanguage)) {
+            feedbackLanguage = body.feedbackLanguage;
+        } else {
+            errors.push(`feedbackLanguage must be one of: ${Object.keys(FEEDBACK_LANGUAGES).join(', ')}.`);
+        }
+    }
+
+    let accent = 'en-US';
+    if (body.accent !== undefined) {
+        if (isKeyOf(ACCENTS, body.accent)) {
+            accent = body.accent;
+        } else {
+            errors.push(`accent must be one of: ${Object.keys(ACCENTS).join(', ')}.`);
+        }
+    }
+    return { feedbackLanguage, accent };
+};
+
+// An optional { a, b } pair of phoneme labels, defaulting to s/ʃ.
+const validateContrast = (contrast, errors) => {
+    if (contrast === undefined) {
+        return DEFAULT_CONTRAST;
+    }
+    if (contrast && isNonEmptyString(contrast.a, 20) && isNonEmptyString(contrast.b, 20)) {
+        return { a: contrast.a.trim(), b: contrast.b.trim() };
+    }
+    errors.push('contrast must be { a, b } with phoneme labels of at most 20 characters.');
+    return DEFAULT_CONTRAST;
+};
+
+// Returns { value } with the normalized input, or { errors } listing every
+// problem with the body.
+const validateAnalyzeRequest = (body) => {
+    const errors = [];
+    if (!isNonEmptyString(body.targetWord, 200)) {
+        errors.push('targetWord must be a non-empty string of at most 200 characters.');
+    }
+    if (typeof body.targetIpa !== 'string' || body.targetIpa.length > 200) {
+        errors.push('targetIpa must be a string of at most 200 characters.');
+    }
+    if (!isNonEmptyString(body.transcript, 500)) {
+        errors.push('transcript must be a non-empty string of at most 500 characters.');
+    }
+
+    const contrast = validateContrast(body.contrast, errors);
+
+    let alternatives = [];
+    if (body.alternatives !== undefined) {
+        const valid = Array.isArray(body.alternatives)
+            && body.alternatives.length <= 10
+            && body.alternatives.every(alternative => alternative
+                && isNonEmptyString(alternative.transcript, 500)
+                && (alternative.confidence === null || (isFiniteNumber(alternative.confidence) && alternative.confidence >= 0 && alternative.confidence <= 1)));
+        if (valid) {
+            alternatives = body.alternatives.map(({ transcript, confidence }) => ({ transcript: transcript.trim(), confidence }));
+        } else {
+            errors.push('alternatives must be an array of at most 10 { transcript, confidence } objects.');
+        }
+    }
+
+    let wordAlignment = null;
+    if (body.wordAlignment !== undefined && body.wordAlignment !== null) {
+        const isWordOrNull = (value) => value === null || isNonEmptyString(value, 100);
+        const valid = Array.isArray(body.wordAlignment)
+            && body.wordAlignment.length <= 100
+            && body.wordAlignment.every(word => word
+                && ALIGNMENT_STATUSES.includes(word.status)
+                && isWordOrNull(word.target)
+                && isWordOrNull(word.heard)
+                && (word.swap === null || isKeyOf(SWAP_LABELS, word.swap)));
+        if (valid) {
+            wordAlignment = body.wordAlignment.map(({ status, target, heard, swap }) => ({ status, target, heard, swap }));
+        } else {
+            errors.push('wordAlignment must be an array of at most 100 { status, target, heard, swap } objects.');
+        }
+    }
+
+    let acoustic = null;
+    if (body.acoustic !== undefined && body.acoustic !== null) {
+        const { expected, verdict, sScore, spectralCentroid, spectralPeak } = body.acoustic;
+        if (!isKeyOf(SIBILANT_IPA, expected)
+            || !(isKeyOf(SIBILANT_IPA, verdict) || verdict === 'unclear')
+            || !isFiniteNumber(sScore) || sScore < 0 || sScore > 1
+            || !isFiniteNumber(spectralCentroid) || !isFiniteNumber(spectralPeak)) {
+            errors.push('acoustic must contain expected, verdict, sScore (0-1), spectralCentroid and spectralPeak.');
+        } else {
+            acoustic = { expected, verdict, sScore, spectralCentroid, spectralPeak };
+        }
+    }
+
+    const { feedbackLanguage, accent } = validateLanguageOptions(body, errors);
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+    return {
+        value: {
+            targetWord: body.targetWord.trim(),
+            targetIpa: body.targetIpa.trim(),
+            contrast,
+            transcript: body.transcript.trim(),
+            alternatives,
+            acoustic,
+            wordAlignment,
+            feedbackLanguage,
+            accent,
+        },
+    };
+};
+
+const describeAcoustic = ({ expected, verdict, sScore, spectralCentroid, spectralPeak }) => {
+    const heard = verdict === 'unclear' ? 'in between /s/ and /ʃ/' : `like ${SIBILANT_IPA[verdict]}`;
+    return `On-device acoustic analysis of the fricative (target ${SIBILANT_IPA[expected]}): it sounded ${heard}. `
+        + `s-likeness score ${sScore.toFixed(2)} (1 = clear /s/, 0 = clear /ʃ/), `
+        + `spectral centroid ${Math.round(spectralCentroid)} Hz, spectral peak ${Math.round(spectralPeak)} Hz.\n`
+        + 'Speech recognition snaps to real words, so weigh the acoustic score when the transcript looks right but the fricative was unclear.\n';
+};
+
+const formatConfidence = (confidence) => (confidence === null ? 'confidence unknown' : `confidence ${confidence.toFixed(2)}`);
+
+// Lists the runner-up transcripts so the model can tell a clear "sea" from a
+// "sea" that was nearly heard as "she".
+const describeAlternatives = (alternatives) => {
+    if (alternatives.length < 2) {
+        return '';
+    }
+    const lines = alternatives.map((alternative, i) => `  ${i + 1}. "${alternative.transcript}" (${formatConfidence(alternative.confidence)})`);
+    return `The recognizer's ranked candidates were:\n${lines.join('\n')}\n`
+        + 'If the intended and the contrasting word are both candidates with similar confidence, the sound was ambiguous.\n';
+};
+
+const describeWord = ({ status, target, heard, swap }) => {
+    switch (status) {
+        case 'correct':
+            return `  - "${target}": correct`;
+        case 'missing':
+            return `  - "${target}": missing (not heard at all)`;
+        case 'extra':
+            return `  - extra word heard: "${heard}"`;
+        default:
+            return `  - "${target}": heard as "${heard}"${swap ? ` (${SWAP_LABELS[swap]})` : ''}`;
+    }
+};
+
+// Word-by-word result for sentences, so the tip targets the actual mistakes.
+const describeAlignment = (wordAlignment) => {
+    if (!wordAlignment) {
+        return '';
+    }
+    return `Word-by-word comparison of the target sentence with the transcript:\n${wordAlignment.map(describeWord).join('\n')}\n`
+        + 'The sentence is correct only if every word is correct. Name the words that went wrong and aim the tip at them.\n';
+};
+
+// Words, IPA and the JSON keys stay as they are; only the learner-facing
+// prose is translated.
+const describeLanguage = (feedbackLanguage) => (feedbackLanguage === 'en'
+    ? ''
+    : `\n\nWrite the "feedback" and "tip" values in natural ${FEEDBACK_LANGUAGES[feedbackLanguage]}. `
+        + 'Keep English words, IPA symbols and the JSON keys exactly as they are.');
+
+const buildAnalysisPrompt = ({
+    targetWord, targetIpa, contrast, transcript, alternatives, acoustic, wordAlignment, feedbackLanguage = 'en', accent = 'en-US',
+}) =>
+    `You are an expert English pronunciation coach for native Japanese speakers.\n`
+    + `The learner is aiming for a ${ACCENTS[accent]} accent (${accent}). Judge the attempt against that variety `
+    + 'and keep every tip consistent with it, e.g. about /r/ after vowels or vowel qualities; never recommend features of another accent.\n'
+    + `A user was asked to say: "${targetWord}" (IPA: ${targetIpa}).\n`
+    + `Speech recognition transcribed their attempt as: "${transcript}".\n`
+    + describeAlternatives(alternatives)
+    + describeAlignment(wordAlignment)
+    + (acoustic ? describeAcoustic(acoustic) : '')
+    + `\nAnalyze this. Respond ONLY with a JSON object in this format:\n{\n`
+    + `  "isCorrect": boolean,\n`
+    + `  "feedback": "A short, encouraging message about the pronunciation. Example: 'Good try! It sounded like 'ship' instead of 'sip'.'",\n`
+    + `  "tip": "A concrete tip focusing on tongue/lip placement for ${contrast.a} vs ${contrast.b}. Contrast with Japanese sounds if helpful. If correct, give a general encouragement tip."\n`
+    + `}`
+    + describeLanguage(feedbackLanguage);
+
+// Checks the model's verdict has exactly the shape the app renders.
+const validateFeedback = (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return ['feedback must be a JSON object'];
+    }
+    const errors = [];
+    if (typeof value.isCorrect !== 'boolean') {
+        errors.push('isCorrect must be a boolean');
+    }
+    for (const key of ['feedback', 'tip']) {
+        if (!isNonEmptyString(value[key], 1000)) {
+            errors.push(`${key} must be a non-empty string of at most 1000 characters`);
+        }
+    }
+    return errors;
+};
+
+export {
+    ACCENTS,
+    FEEDBACK_LANGUAGES,
+    isKeyOf,
+    isNonEmptyString,
+    validateAnalyzeRequest,
+    validateContrast,
+    validateLanguageOptions,
+    buildAnalysisPrompt,
+    validateFeedback,
+};
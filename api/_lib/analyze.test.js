@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalyzeHandler } from '../analyze.js';
+import { createMockRequest, createMockResponse } from './mockHttp.js';
+import { createMockModelClient } from './models.js';
+import { createRateLimiter } from './rateLimit.js';
+
+const attempt = {
+    targetWord: 'sea',
+    targetIpa: '/siː/',
+    transcript: 'she',
+    alternatives: [{ transcript: 'she', confidence: 0.9 }],
+};
+
+const run = async (body, options = {}) => {
+    const handler = createAnalyzeHandler({
+        modelClients: [createMockModelClient()],
+        rateLimiter: createRateLimiter({ limit: 100 }),
+        ...options,
+    });
+    const res = createMockResponse();
+    await handler(createMockRequest({ body }), res);
+    return res;
+};
+
+describe('the analyze handler', () => {
+    it('returns the mock model verdict', async () => {
+        const res = await run(attempt);
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({ isCorrect: false, model: 'mock' });
+        expect(res.body.feedback).toContain('"she"');
+        expect(typeof res.body.tip).toBe('string');
+    });
+
+    it('judges a matching transcript as correct', async () => {
+        const res = await run({ ...attempt, transcript: 'sea' });
+        expect(res.body.isCorrect).toBe(true);
+    });
+
+    it('rejects acoustic labels that are only inherited keys', async () => {
+        const acoustic = { expected: 'constructor', verdict: 'toString', sScore: 0.5, spectralCentroid: 5000, spectralPeak: 6000 };
+        const res = await run({ ...attempt, acoustic });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.code).toBe('invalid_request');
+    });
+
+    it('rejects an alignment swap that is only an inherited key', async () => {
+        const wordAlignment = [{ status: 'substituted', target: 'sea', heard: 'she', swap: 'constructor' }];
+        const res = await run({ ...attempt, wordAlignment });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.details).toHaveLength(1);
+    });
+
+    it('accepts a well-formed acoustic measurement', async () => {
+        const acoustic = { expected: 's', verdict: 'unclear', sScore: 0.5, spectralCentroid: 5000, spectralPeak: 6000 };
+        const res = await run({ ...attempt, acoustic });
+        expect(res.statusCode).toBe(200);
+    });
+
+    it('reports a missing model configuration', async () => {
+        const res = await run(attempt, { modelClients: [] });
+        expect(res.statusCode).toBe(503);
+        expect(res.body.error.code).toBe('model_not_configured');
+    });
+
+    it('reports a model that never returns valid feedback', async () => {
+        const broken = { name: 'broken', generate: async () => 'not json' };
+        const res = await run(attempt, { modelClients: [broken], generateOptions: { attemptsPerModel: 1 } });
+        expect(res.statusCode).toBe(502);
+        expect(res.body.error.code).toBe('model_unavailable');
+    });
+
+    it('only accepts POST', async () => {
+        const handler = createAnalyzeHandler({ modelClients: [createMockModelClient()], rateLimiter: null });
+        const res = createMockResponse();
+        await handler(createMockRequest({ method: 'GET' }), res);
+        expect(res.statusCode).toBe(405);
+        expect(res.headers.Allow).toBe('POST');
+    });
+});
@@ -0,0 +1,94 @@
+// Maps the recording's MIME type to a Speech-to-Text RecognitionConfig.
+// Anything the v1 API cannot decode is rejected; the browser converts those
+// recordings (e.g. Safari's mp4/AAC) to WAV before uploading.
+
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+const FORMATS = [
+    { mimeTypes: ['audio/webm'], codecs: ['opus', undefined], encoding: 'WEBM_OPUS', sampleRates: OPUS_SAMPLE_RATES, defaultSampleRate: 48000 },
+    { mimeTypes: ['audio/ogg'], codecs: ['opus', undefined], encoding: 'OGG_OPUS', sampleRates: OPUS_SAMPLE_RATES, defaultSampleRate: 48000 },
+    // WAV and FLAC carry their own header, so the API reads the rate from it.
+    { mimeTypes: ['audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave'], codecs: [undefined, '1'], encoding: 'LINEAR16', headerSampleRate: true },
+    { mimeTypes: ['audio/flac', 'audio/x-flac'], codecs: [undefined, 'flac'], encoding: 'FLAC', headerSampleRate: true },
+];
+
+const SUPPORTED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/wav', 'audio/flac'];
+
+// "audio/webm;codecs=opus" -> { type: 'audio/webm', codec: 'opus' }
+const parseMimeType = (mimeType) => {
+    const [type, ...params] = mimeType.toLowerCase().split(';').map(part => part.trim());
+    const codecs = params.find(param => param.startsWith('codecs='));
+    return { type, codec: codecs ? codecs.slice('codecs='.length).replace(/"/g, '').split(',')[0].trim() : undefined };
+};
+
+// Returns { config } with encoding (and sampleRateHertz when the container
+// has no header), or { error } describing why the format is unusable.
+const resolveAudioConfig = (mimeType, sampleRateHertz) => {
+    const { type, codec } = parseMimeType(mimeType);
+    const format = FORMATS.find(candidate => candidate.mimeTypes.includes(type) && candidate.codecs.includes(codec));
+    if (!format) {
+        return { error: `Audio format "${mimeType}" is not supported. Supported formats: ${SUPPORTED_MIME_TYPES.join(', ')}.` };
+    }
+    if (format.headerSampleRate) {
+        return { config: { encoding: format.encoding } };
+    }
+
+    const rate = sampleRateHertz === undefined ? format.defaultSampleRate : sampleRateHertz;
+    if (!format.sampleRates.includes(rate)) {
+        return { error: `Sample rate ${rate} Hz is not valid for ${format.encoding}. Use one of ${format.sampleRates.join(', ')} Hz.` };
+    }
+    return { config: { encoding: format.encoding, sampleRateHertz: rate } };
+};
+
+// Duration of a PCM WAV file, or null when the header cannot be read.
+const wavDurationMs = (bytes) => {
+    if (bytes.length < 12 || bytes.toString('ascii', 0, 4) !== 'RIFF' || bytes.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+    let byteRate = null;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const tag = bytes.toString('ascii', offset, offset + 4);
+        const size = bytes.readUInt32LE(offset + 4);
+        if (tag === 'fmt ' && offset + 20 <= bytes.length) {
+            byteRate = bytes.readUInt32LE(offset + 16);
+        } else if (tag === 'data') {
+            return byteRate ? (Math.min(size, bytes.length - offset - 8) / byteRate) * 1000 : null;
+        }
+        offset += 8 + size + (size % 2);
+    }
+    return null;
+};
+
+// Duration of a FLAC file from its STREAMINFO block, or null when the
+// header cannot be read or leaves the sample count unknown.
+const flacDurationMs = (bytes) => {
+    // "fLaC", then the first metadata block, which is always STREAMINFO (type 0).
+    if (bytes.length < 26 || bytes.toString('ascii', 0, 4) !== 'fLaC' || (bytes[4] & 0x7f) !== 0) {
+        return null;
+    }
+    // 20 bits of sample rate, 3 of channels, 5 of bit depth, 36 of total samples.
+    const sampleRate = (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4);
+    const totalSamples = (bytes[21] & 0x0f) * 2 ** 32 + bytes.readUInt32BE(22);
+    return sampleRate > 0 && totalSamples > 0 ? (totalSamples / sampleRate) * 1000 : null;
+};
+
+// Opus tops out at 510 kbit/s, so a payload cannot be shorter than this.
+const MAX_OPUS_BITS_PER_SECOND = 510000;
+
+// What the payload itself says about its length: { exactMs } read from a WAV
+// or FLAC header (null when unreadable), and { minimumMs }, the shortest
+// duration the byte count allows. Opus containers carry no duration up
+// front, so for them only the minimum is known.
+const payloadDuration = (bytes, encoding) => {
+    switch (encoding) {
+        case 'LINEAR16':
+            return { exactMs: wavDurationMs(bytes), minimumMs: 0 };
+        case 'FLAC':
+            return { exactMs: flacDurationMs(bytes), minimumMs: 0 };
+        default:
+            return { exactMs: null, minimumMs: (bytes.length * 8 / MAX_OPUS_BITS_PER_SECOND) * 1000 };
+    }
+};
+
+export { resolveAudioConfig, wavDurationMs, flacDurationMs, payloadDuration, SUPPORTED_MIME_TYPES };
@@ -0,0 +1,123 @@
+// Prompt construction and response checks for /api/coach, the follow-up
+// conversation about one analyzed attempt.
+
+import { ACCENTS, FEEDBACK_LANGUAGES, isNonEmptyString, validateContrast, validateLanguageOptions } from './analysis.js';
+
+const ROLES = ['learner', 'coach'];
+// The browser trims older turns; anything longer is not from the app.
+const MAX_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_SUGGESTED_WORDS = 5;
+const WORD_PATTERN = /^[A-Za-z][A-Za-z'-]{0,39}$/;
+
+const validateAttempt = (attempt, errors) => {
+    if (!attempt || typeof attempt !== 'object') {
+        errors.push('attempt must be an object describing the analyzed attempt.');
+        return null;
+    }
+    const before = errors.length;
+    if (!isNonEmptyString(attempt.targetWord, 200)) {
+        errors.push('attempt.targetWord must be a non-empty string of at most 200 characters.');
+    }
+    if (typeof attempt.targetIpa !== 'string' || attempt.targetIpa.length > 200) {
+        errors.push('attempt.targetIpa must be a string of at most 200 characters.');
+    }
+    if (!isNonEmptyString(attempt.transcript, 500)) {
+        errors.push('attempt.transcript must be a non-empty string of at most 500 characters.');
+    }
+    if (typeof attempt.isCorrect !== 'boolean') {
+        errors.push('attempt.isCorrect must be a boolean.');
+    }
+    for (const key of ['feedback', 'tip']) {
+        if (!isNonEmptyString(attempt[key], 1000)) {
+            errors.push(`attempt.${key} must be a non-empty string of at most 1000 characters.`);
+        }
+    }
+    const contrast = validateContrast(attempt.contrast, errors);
+    if (errors.length > before) {
+        return null;
+    }
+    return {
+        targetWord: attempt.targetWord.trim(),
+        targetIpa: attempt.targetIpa.trim(),
+        transcript: attempt.transcript.trim(),
+        isCorrect: attempt.isCorrect,
+        feedback: attempt.feedback.trim(),
+        tip: attempt.tip.trim(),
+        contrast,
+    };
+};
+
+// Returns { value } with the normalized input, or { errors } listing every
+// problem with the body.
+const validateCoachRequest = (body) => {
+    const errors = [];
+    const attempt = validateAttempt(body.attempt, errors);
+
+    const messagesValid = Array.isArray(body.messages)
+        && body.messages.length > 0
+        && body.messages.length <= MAX_MESSAGES
+        && body.messages.every(message => message
+            && ROLES.includes(message.role)
+            && isNonEmptyString(message.text, MAX_MESSAGE_LENGTH));
+    if (!messagesValid) {
+        errors.push(`messages must be an array of 1-${MAX_MESSAGES} { role, text } objects with texts of at most ${MAX_MESSAGE_LENGTH} characters.`);
+    } else if (body.messages[body.messages.length - 1].role !== 'learner') {
+        errors.push('The last message must come from the learner.');
+    }
+
+    const { feedbackLanguage, accent } = validateLanguageOptions(body, errors);
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+    return {
+        value: {
+            attempt,
+            messages: body.messages.map(({ role, text }) => ({ role, text: text.trim() })),
+            feedbackLanguage,
+            accent,
+        },
+    };
+};
+
+const describeMessage = ({ role, text }) => `${role === 'learner' ? 'Learner' : 'Coach'}: ${text}`;
+
+const buildCoachPrompt = ({ attempt, messages, feedbackLanguage = 'en', accent = 'en-US' }) =>
+    `You are an expert English pronunciation coach for native Japanese speakers, continuing a conversation about one practice attempt.\n`
+    + `The learner is aiming for a ${ACCENTS[accent]} accent (${accent}); keep every explanation consistent with it.\n`
+    + `They were asked to say: "${attempt.targetWord}" (IPA: ${attempt.targetIpa}). The drill contrasts ${attempt.contrast.a} with ${attempt.contrast.b}.\n`
+    + `Speech recognition transcribed their attempt as: "${attempt.transcript}".\n`
+    + `Your verdict was that the attempt was ${attempt.isCorrect ? 'correct' : 'not correct'}. You told them: "${attempt.feedback}" Tip: "${attempt.tip}"\n`
+    + `\nThe conversation so far:\n${messages.map(describeMessage).join('\n')}\n`
+    + `\nAnswer the learner's last message in at most 120 words. Be concrete about the tongue, lips, jaw and airflow, and compare with Japanese sounds where it helps. `
+    + `When they ask for more practice, or extra words would clearly help, suggest up to ${MAX_SUGGESTED_WORDS} common single English words that drill the same contrast; otherwise suggest none.\n`
+    + `Respond ONLY with a JSON object in this format:\n{\n`
+    + `  "reply": "Your answer to the learner.",\n`
+    + `  "suggestedWords": ["word", "word"]\n`
+    + `}`
+    + (feedbackLanguage === 'en'
+        ? ''
+        : `\n\nWrite the "reply" value in natural ${FEEDBACK_LANGUAGES[feedbackLanguage]}. `
+            + 'Keep English words, IPA symbols, the suggested words and the JSON keys exactly as they are.');
+
+// Checks the model's answer has the shape the chat renders. `suggestedWords`
+// may be left out.
+const validateCoachReply = (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return ['reply must be a JSON object'];
+    }
+    const errors = [];
+    if (!isNonEmptyString(value.reply, 2000)) {
+        errors.push('reply must be a non-empty string of at most 2000 characters');
+    }
+    if (value.suggestedWords !== undefined
+        && !(Array.isArray(value.suggestedWords)
+            && value.suggestedWords.length <= MAX_SUGGESTED_WORDS
+            && value.suggestedWords.every(word => typeof word === 'string' && WORD_PATTERN.test(word.trim())))) {
+        errors.push(`suggestedWords must be an array of at most ${MAX_SUGGESTED_WORDS} single English words`);
+    }
+    return errors;
+};
+
+export { validateCoachRequest, buildCoachPrompt, validateCoachReply };
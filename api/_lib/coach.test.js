@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createCoachHandler } from '../coach.js';
+import { createMockRequest, createMockResponse } from './mockHttp.js';
+import { createMockModelClient } from './models.js';
+import { createRateLimiter } from './rateLimit.js';
+
+const attempt = {
+    targetWord: 'sea',
+    targetIpa: '/siː/',
+    transcript: 'she',
+    isCorrect: false,
+    feedback: 'It sounded like "she".',
+    tip: 'Keep the tongue tip forward.',
+    contrast: { a: '/s/', b: '/ʃ/' },
+};
+
+const ask = (text, history = []) => ({ attempt, messages: [...history, { role: 'learner', text }] });
+
+const run = async (body, options = {}) => {
+    const handler = createCoachHandler({
+        modelClients: [createMockModelClient()],
+        rateLimiter: createRateLimiter({ limit: 100 }),
+        ...options,
+    });
+    const res = createMockResponse();
+    await handler(createMockRequest({ body }), res);
+    return res;
+};
+
+describe('the coach handler', () => {
+    it('answers a question with the mock model', async () => {
+        const res = await run(ask('How should my tongue move?'));
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({
+            reply: 'Mock coach: about "sea" and "How should my tongue move?": say it slowly and exaggerate the key sound.',
+            suggestedWords: [],
+            model: 'mock',
+        });
+    });
+
+    it('passes on suggested words and the feedback language', async () => {
+        const res = await run({ ...ask('Can I have more words?'), feedbackLanguage: 'ja' });
+        expect(res.statusCode).toBe(200);
+        expect(res.body.reply).toMatch(/^モックコーチ/);
+        expect(res.body.suggestedWords).toEqual(['sea', 'she', 'sip']);
+    });
+
+    it('rejects a conversation that does not end with a question', async () => {
+        const res = await run({ attempt, messages: [{ role: 'learner', text: 'Why?' }, { role: 'coach', text: 'Because.' }] });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.details).toEqual(['The last message must come from the learner.']);
+    });
+
+    it('rejects a missing attempt and an inherited language key', async () => {
+        const res = await run({ messages: [{ role: 'learner', text: 'Why?' }], feedbackLanguage: 'constructor' });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.details).toHaveLength(2);
+    });
+
+    it('reports a missing model configuration', async () => {
+        const res = await run(ask('Why?'), { modelClients: [] });
+        expect(res.statusCode).toBe(503);
+        expect(res.body.error.code).toBe('model_not_configured');
+    });
+
+    it('reports a model whose replies never fit the schema', async () => {
+        const wrongShape = { name: 'wrong-shape', generate: async () => JSON.stringify({ answer: 'Round your lips.' }) };
+        const res = await run(ask('Why?'), { modelClients: [wrongShape], generateOptions: { attemptsPerModel: 1 } });
+        expect(res.statusCode).toBe(502);
+        expect(res.body.error.failures).toHaveLength(1);
+    });
+});
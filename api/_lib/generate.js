@@ -0,0 +1,58 @@
+import { parseModelJson } from './json.js';
+
+// Runs a prompt through a chain of model clients. Each client gets a few
+// attempts with exponential backoff; output that fails `validate` counts as
+// a failed attempt. Resolves with { value, model } from the first success.
+
+class ModelUnavailableError extends Error {
+    constructor(failures) {
+        super(`All models failed: ${failures.map(failure => `${failure.model} (${failure.reason})`).join('; ')}`);
+        this.name = 'ModelUnavailableError';
+        this.failures = failures;
+    }
+}
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateWithFallback = async (clients, request, {
+    validate,
+    attemptsPerModel = 2,
+    backoffMs = 300,
+    sleep = wait,
+} = {}) => {
+    const failures = [];
+    for (const client of clients) {
+        for (let attempt = 0; attempt < attemptsPerModel; attempt++) {
+            if (attempt > 0) {
+                // 300 ms, 600 ms, … plus jitter so parallel retries spread out.
+                await sleep(backoffMs * 2 ** (attempt - 1) + Math.random() * backoffMs);
+            }
+            let text;
+            try {
+                text = await client.generate(request);
+            } catch (error) {
+                console.error(`ERROR: ${client.name} failed:`, error);
+                failures.push({ model: client.name, reason: 'request failed' });
+                continue;
+            }
+            let value;
+            try {
+                value = parseModelJson(text);
+            } catch (error) {
+                console.error(`ERROR: ${client.name} returned unparseable output`, text);
+                failures.push({ model: client.name, reason: 'unparseable output' });
+                continue;
+            }
+            const errors = validate ? validate(value) : [];
+            if (errors.length > 0) {
+                console.error(`ERROR: ${client.name} returned invalid output:`, errors);
+                failures.push({ model: client.name, reason: 'invalid output' });
+                continue;
+            }
+            return { value, model: client.name };
+        }
+    }
+    throw new ModelUnavailableError(failures);
+};
+
+export { generateWithFallback, ModelUnavailableError };
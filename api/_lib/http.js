@@ -0,0 +1,41 @@
+// Shared helpers for the serverless routes in /api. Files under _lib are not
+// deployed as routes by Vercel.
+
+// Every error response has the same shape so the browser can show a useful
+// message: { error: { code, message, ...details } }.
+const sendError = (res, status, code, message, details = {}) => {
+    res.status(status).json({ error: { code, message, ...details } });
+};
+
+const getClientIp = (req) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (typeof forwarded === 'string' && forwarded.length > 0) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.headers['x-real-ip'] || (req.socket && req.socket.remoteAddress) || 'unknown';
+};
+
+// Rejects anything but POST, and applies the rate limiter when one is given.
+// Returns false when a response has already been sent.
+const guardPost = (req, res, rateLimiter) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        sendError(res, 405, 'method_not_allowed', 'Only POST requests are accepted.');
+        return false;
+    }
+    if (rateLimiter) {
+        const { allowed, retryAfterMs } = rateLimiter.check(getClientIp(req));
+        if (!allowed) {
+            res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+            sendError(res, 429, 'rate_limited', 'Too many requests. Please wait a moment and try again.', { retryAfterMs });
+            return false;
+        }
+    }
+    if (!req.body || typeof req.body !== 'object') {
+        sendError(res, 400, 'invalid_body', 'Request body must be a JSON object.');
+        return false;
+    }
+    return true;
+};
+
+export { sendError, getClientIp, guardPost };
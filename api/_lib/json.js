@@ -0,0 +1,12 @@
+// The model might wrap the JSON in a markdown code block.
+const parseModelJson = (text) => {
+    let jsonStr = text.trim();
+    const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
+    const match = jsonStr.match(fenceRegex);
+    if (match && match[1]) {
+        jsonStr = match[1].trim();
+    }
+    return JSON.parse(jsonStr);
+};
+
+export { parseModelJson };
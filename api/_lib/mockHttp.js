@@ -0,0 +1,30 @@
+// Minimal stand-ins for the Vercel request and response objects, for tests.
+
+const createMockRequest = ({ method = 'POST', body = {}, ip = '203.0.113.1' } = {}) => ({
+    method,
+    body,
+    headers: { 'x-forwarded-for': ip },
+});
+
+// Records what the handler sent; `statusCode` and `body` are set by json().
+const createMockResponse = () => {
+    const res = {
+        statusCode: 200,
+        headers: {},
+        body: undefined,
+        status: (code) => {
+            res.statusCode = code;
+            return res;
+        },
+        json: (body) => {
+            res.body = body;
+            return res;
+        },
+        setHeader: (name, value) => {
+            res.headers[name] = value;
+        },
+    };
+    return res;
+};
+
+export { createMockRequest, createMockResponse };
@@ -0,0 +1,129 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// A model client turns a prompt into raw text. Routes only depend on this
+// interface, so they can run against the mock below when no key is present:
+//
+//   { name: string, generate({ task, prompt, input }): Promise<string> }
+//
+// `task` names the route ('analyze', 'coach' or 'practice-set') and `input` is its validated
+// request body; real models ignore both, the mock uses them to build a
+// plausible answer.
+
+// Tried in order; override with a comma-separated GEMINI_MODELS.
+const DEFAULT_GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
+const MODEL_TIMEOUT_MS = 8000;
+
+const createGeminiModelClient = ({ apiKey, model, timeoutMs = MODEL_TIMEOUT_MS }) => {
+    const ai = new GoogleGenerativeAI(apiKey);
+    const generativeModel = ai.getGenerativeModel(
+        { model, generationConfig: { responseMimeType: 'application/json' } },
+        { timeout: timeoutMs },
+    );
+    return {
+        name: model,
+        generate: async ({ prompt }) => {
+            const result = await generativeModel.generateContent(prompt);
+            return result.response.text();
+        },
+    };
+};
+
+// Canned practice words per contrast for the mock coach.
+const MOCK_PRACTICE_WORDS = {
+    '/s/ /ʃ/': ['sea', 'she', 'sip', 'ship', 'sell'],
+    '/r/ /l/': ['right', 'light', 'road', 'load', 'rock'],
+};
+
+// The mock coach echoes the question and suggests words when asked for more.
+const mockCoachReply = ({ attempt, messages, feedbackLanguage }) => {
+    const question = messages[messages.length - 1].text;
+    const wantsWords = /word|example|more|単語|例/i.test(question);
+    const reply = feedbackLanguage === 'ja'
+        ? `モックコーチ：「${attempt.targetWord}」について「${question}」への答えです。ゆっくり、音を大げさに発音してみましょう。`
+        : `Mock coach: about "${attempt.targetWord}" and "${question}": say it slowly and exaggerate the key sound.`;
+    const words = MOCK_PRACTICE_WORDS[`${attempt.contrast.a} ${attempt.contrast.b}`] ?? MOCK_PRACTICE_WORDS['/s/ /ʃ/'];
+    return { reply, suggestedWords: wantsWords ? words.slice(0, 3) : [] };
+};
+
+// Canned /s/–/ʃ/ drills per word position for the mock generator. Each list
+// ends with entries the browser must reject, so filtering can be tried out.
+const MOCK_PRACTICE_SETS = {
+    initial: {
+        pairs: [['sip', 'ship', 'すする / 船'], ['sort', 'short', '種類 / 短い'], ['sock', 'shock', '靴下 / 衝撃'], ['seat', 'sheet', '席 / シーツ'], ['sip', 'hip', 'すする / 腰']],
+        sentences: [['Sue saw a shiny ship in the sea.', 'スーは海で輝く船を見た。'], ['The cat sat on the mat.', '猫がマットの上に座った。']],
+    },
+    medial: {
+        pairs: [['masses', 'mashes', '大衆 / つぶす'], ['messed', 'meshed', '散らかした / かみ合った'], ['mass', 'mash', '塊 / つぶす']],
+        sentences: [['Her sister is washing the dishes.', '彼女の妹は皿を洗っている。']],
+    },
+    final: {
+        pairs: [['lease', 'leash', '賃貸契約 / リード'], ['mess', 'mesh', '散らかり / 網'], ['plus', 'plush', 'プラス / ぬいぐるみ'], ['sip', 'ship', 'すする / 船']],
+        sentences: [['Wash the glass and push the dish.', 'グラスを洗って皿を押して。']],
+    },
+    cluster: {
+        pairs: [['classed', 'clashed', '分類された / 衝突した'], ['massed', 'mashed', '集められた / つぶされた'], ['class', 'clash', 'クラス / 衝突']],
+        sentences: [['She stopped on the street to show her sister.', '彼女は妹に見せるために通りで立ち止まった。']],
+    },
+};
+
+const mockPracticeSet = ({ position, pairCount, sentenceCount, exclude }) => {
+    const set = MOCK_PRACTICE_SETS[position];
+    return {
+        pairs: [
+            ...set.pairs
+                .filter(([a, b]) => !exclude.includes(a) && !exclude.includes(b))
+                .slice(0, pairCount)
+                .map(([a, b, translation]) => ({ a, b, translation })),
+            ...(pairCount > 0 ? [{ a: 'sip' }] : []),
+        ],
+        sentences: set.sentences.slice(0, sentenceCount).map(([text, translation]) => ({ text, translation })),
+    };
+};
+
+// Deterministic stand-in for local development and tests: the attempt counts
+// as correct when the transcript contains the target text.
+const createMockModelClient = () => ({
+    name: 'mock',
+    generate: async ({ task = 'analyze', input }) => {
+        if (task === 'coach') {
+            return JSON.stringify(mockCoachReply(input));
+        }
+        if (task === 'practice-set') {
+            return JSON.stringify(mockPracticeSet(input));
+        }
+        const normalize = (text) => text.toLowerCase().replace(/[^a-z' ]/g, '').trim();
+        const isCorrect = normalize(input.transcript).includes(normalize(input.targetWord));
+        const reply = input.feedbackLanguage === 'ja'
+            ? {
+                feedback: isCorrect
+                    ? `いいですね！「${input.targetWord}」と聞こえました。`
+                    : `「${input.targetWord}」ではなく「${input.transcript}」と聞こえました。`,
+                tip: 'モックモデル：/s/ は舌先を上の歯の裏に、/ʃ/ は舌を少し引いて唇を丸めます。',
+            }
+            : {
+                feedback: isCorrect
+                    ? `Nice! That sounded like "${input.targetWord}".`
+                    : `It sounded like "${input.transcript}" instead of "${input.targetWord}".`,
+                tip: 'Mock model: keep the tongue tip behind the upper teeth for /s/, and pull it back with rounded lips for /ʃ/.',
+            };
+        return '```json\n' + JSON.stringify({ isCorrect, ...reply }) + '\n```';
+    },
+});
+
+// Builds the fallback chain from the environment: MODEL_CLIENT=mock forces the
+// mock, otherwise GEMINI_API_KEY enables one Gemini client per entry in
+// GEMINI_MODELS. Returns an empty chain when nothing is configured.
+const resolveModelClients = (env = process.env) => {
+    if (env.MODEL_CLIENT === 'mock') {
+        return [createMockModelClient()];
+    }
+    if (!env.GEMINI_API_KEY) {
+        return [];
+    }
+    const models = env.GEMINI_MODELS
+        ? env.GEMINI_MODELS.split(',').map(model => model.trim()).filter(Boolean)
+        : DEFAULT_GEMINI_MODELS;
+    return models.map(model => createGeminiModelClient({ apiKey: env.GEMINI_API_KEY, model }));
+};
+
+export { createGeminiModelClient, createMockModelClient, resolveModelClients };
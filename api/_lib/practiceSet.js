@@ -0,0 +1,117 @@
+// Prompt construction and response checks for /api/practice-set. The route
+// only checks the overall shape; the browser checks every item against its
+// pronunciation dictionary and drops the ones that don't drill the contrast.
+
+import { isKeyOf, isNonEmptyString, validateContrast } from './analysis.js';
+
+const DIFFICULTIES = {
+    beginner: 'common one-syllable words and short sentences of everyday vocabulary',
+    intermediate: 'everyday words of one or two syllables and sentences of up to 10 words',
+    advanced: 'longer words and tongue-twister-like sentences of up to 14 words with several target sounds',
+};
+const POSITIONS = {
+    initial: 'at the start of the word (e.g. "sip" / "ship")',
+    medial: 'in the middle of the word, between vowels',
+    final: 'at the end of the word (e.g. "mass" / "mash")',
+    cluster: 'next to another consonant, as in clusters like "str", "sk" or "cl_s"',
+};
+const MAX_PAIRS = 10;
+const MAX_SENTENCES = 5;
+const MAX_VOCABULARY = 400;
+const MAX_EXCLUDED = 200;
+const WORD_PATTERN = /^[a-z][a-z'-]{0,39}$/i;
+
+const isCount = (value, max) => Number.isInteger(value) && value >= 0 && value <= max;
+
+const isWordList = (value, max) => Array.isArray(value) && value.length <= max && value.every(word => typeof word === 'string' && WORD_PATTERN.test(word));
+
+// Returns { value } with the normalized input, or { errors } listing every
+// problem with the body.
+const validatePracticeSetRequest = (body) => {
+    const errors = [];
+    const contrast = validateContrast(body.contrast, errors);
+    if (!isKeyOf(DIFFICULTIES, body.difficulty)) {
+        errors.push(`difficulty must be one of: ${Object.keys(DIFFICULTIES).join(', ')}.`);
+    }
+    if (!isKeyOf(POSITIONS, body.position)) {
+        errors.push(`position must be one of: ${Object.keys(POSITIONS).join(', ')}.`);
+    }
+    if (!isCount(body.pairCount, MAX_PAIRS)) {
+        errors.push(`pairCount must be an integer from 0 to ${MAX_PAIRS}.`);
+    }
+    if (!isCount(body.sentenceCount, MAX_SENTENCES)) {
+        errors.push(`sentenceCount must be an integer from 0 to ${MAX_SENTENCES}.`);
+    }
+    if (body.pairCount === 0 && body.sentenceCount === 0) {
+        errors.push('Ask for at least one pair or sentence.');
+    }
+    if (!isWordList(body.vocabulary, MAX_VOCABULARY)) {
+        errors.push(`vocabulary must be an array of at most ${MAX_VOCABULARY} single words.`);
+    }
+    if (body.exclude !== undefined && !isWordList(body.exclude, MAX_EXCLUDED)) {
+        errors.push(`exclude must be an array of at most ${MAX_EXCLUDED} single words.`);
+    }
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+    return {
+        value: {
+            contrast,
+            difficulty: body.difficulty,
+            position: body.position,
+            pairCount: body.pairCount,
+            sentenceCount: body.sentenceCount,
+            vocabulary: body.vocabulary.map(word => word.toLowerCase()),
+            exclude: (body.exclude ?? []).map(word => word.toLowerCase()),
+        },
+    };
+};
+
+const buildPracticeSetPrompt = ({ contrast, difficulty, position, pairCount, sentenceCount, vocabulary, exclude }) =>
+    `You write English pronunciation drills for native Japanese speakers practising ${contrast.a} vs ${contrast.b}.\n`
+    + `Level: ${difficulty}, i.e. ${DIFFICULTIES[difficulty]}.\n`
+    + `The contrasting sound must be ${POSITIONS[position]}.\n`
+    + `\nWrite ${pairCount} minimal pairs: two real words that differ only in that one sound, "a" with ${contrast.a} and "b" with ${contrast.b}. `
+    + 'Spelling may differ, the pronunciation must not (General American).\n'
+    + `Write ${sentenceCount} natural sentences that use several words with ${contrast.a} and ${contrast.b}.\n`
+    + 'Every pair word, and every sentence word carrying the target sounds, must come from this word list, or be a plain -s/-ed/-ing form of one:\n'
+    + `${vocabulary.join(', ')}\n`
+    + (exclude.length > 0 ? `Do not reuse these words in pairs: ${exclude.join(', ')}.\n` : '')
+    + 'Give each pair a Japanese translation written "A / B" and each sentence a natural Japanese translation.\n'
+    + `\nRespond ONLY with a JSON object in this format:\n{\n`
+    + `  "pairs": [{ "a": "word", "b": "word", "translation": "訳 / 訳" }],\n`
+    + `  "sentences": [{ "text": "Sentence.", "translation": "訳。" }]\n`
+    + `}`;
+
+// Only the outer shape; item checks happen in the browser. Too many items
+// means the model ignored the instructions, so the answer is retried.
+const validatePracticeSetReply = (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return ['the practice set must be a JSON object'];
+    }
+    const errors = [];
+    if (!Array.isArray(value.pairs) || value.pairs.length > MAX_PAIRS * 2) {
+        errors.push(`pairs must be an array of at most ${MAX_PAIRS * 2} entries`);
+    }
+    if (!Array.isArray(value.sentences) || value.sentences.length > MAX_SENTENCES * 2) {
+        errors.push(`sentences must be an array of at most ${MAX_SENTENCES * 2} entries`);
+    }
+    if (errors.length === 0 && value.pairs.length + value.sentences.length === 0) {
+        errors.push('the practice set is empty');
+    }
+    return errors;
+};
+
+// Keeps string fields of plausible length and drops everything else, so
+// huge or oddly typed model output never reaches the browser.
+const trimEntry = (entry, keys) => (entry && typeof entry === 'object' && !Array.isArray(entry)
+    ? Object.fromEntries(keys.filter(key => isNonEmptyString(entry[key], 300)).map(key => [key, entry[key].trim()]))
+    : null);
+
+const trimPracticeSet = ({ pairs, sentences }) => ({
+    pairs: pairs.map(entry => trimEntry(entry, ['a', 'b', 'translation'])),
+    sentences: sentences.map(entry => trimEntry(entry, ['text', 'translation'])),
+});
+
+export { validatePracticeSetRequest, buildPracticeSetPrompt, validatePracticeSetReply, trimPracticeSet };
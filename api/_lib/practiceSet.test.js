@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BUNDLED_PACKS, checkGeneratedSet, generatePracticeItems } from '../../src/lessons';
+import { createPracticeSetHandler } from '../practice-set.js';
+import { createMockRequest, createMockResponse } from './mockHttp.js';
+import { createMockModelClient } from './models.js';
+import { createRateLimiter } from './rateLimit.js';
+
+const sShPack = BUNDLED_PACKS.find(pack => pack.id === 's-sh');
+
+const body = {
+    contrast: { a: '/s/', b: '/ʃ/' },
+    difficulty: 'beginner',
+    position: 'initial',
+    pairCount: 6,
+    sentenceCount: 3,
+    vocabulary: ['sip', 'ship'],
+};
+
+const run = async (body, options = {}) => {
+    const handler = createPracticeSetHandler({
+        modelClients: [createMockModelClient()],
+        rateLimiter: createRateLimiter({ limit: 100 }),
+        ...options,
+    });
+    const res = createMockResponse();
+    await handler(createMockRequest({ body }), res);
+    return res;
+};
+
+// Stands in for requestPracticeSet, so the browser-side checks see exactly
+// what the route answers.
+const requestThroughHandler = async (body) => {
+    const res = await run(body);
+    expect(res.statusCode).toBe(200);
+    return res.body;
+};
+
+const describeItem = item => (item.type === 'pair' ? `${item.a.word}/${item.b.word}` : item.text);
+
+describe('the practice set handler', () => {
+    it('answers with the mock set, malformed entries included', async () => {
+        const res = await run(body);
+        expect(res.statusCode).toBe(200);
+        expect(res.body.model).toBe('mock');
+        expect(res.body.pairs).toHaveLength(6);
+        expect(res.body.pairs.at(-1)).toEqual({ a: 'sip' });
+        expect(res.body.sentences).toHaveLength(2);
+    });
+
+    it('leaves out excluded words', async () => {
+        const res = await run({ ...body, exclude: ['sip'] });
+        expect(res.body.pairs.map(pair => pair.a)).toEqual(['sort', 'sock', 'seat', 'sip']);
+    });
+
+    it('rejects an unknown position', async () => {
+        const res = await run({ ...body, position: 'anywhere' });
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.code).toBe('invalid_request');
+    });
+
+    it('reports a missing model configuration', async () => {
+        const res = await run(body, { modelClients: [] });
+        expect(res.statusCode).toBe(503);
+    });
+
+    it('reports a model whose replies never fit the schema', async () => {
+        const wrongShape = { name: 'wrong-shape', generate: async () => JSON.stringify({ words: ['sip'] }) };
+        const res = await run(body, { modelClients: [wrongShape], generateOptions: { attemptsPerModel: 1 } });
+        expect(res.statusCode).toBe(502);
+    });
+});
+
+describe('generating practice items from the mock model', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const generate = (position, existing = []) => generatePracticeItems({
+        contrast: sShPack.contrast,
+        difficulty: 'beginner',
+        position,
+        existing,
+        request: requestThroughHandler,
+    });
+
+    it('keeps the dictionary-confirmed items and says why the rest were dropped', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const check = await generate('initial');
+        expect(check.items.map(describeItem)).toEqual([
+            'sip/ship',
+            'sort/short',
+            'sock/shock',
+            'seat/sheet',
+            'Sue saw a shiny ship in the sea.',
+        ]);
+        expect(check.rejected).toEqual([
+            { input: expect.stringContaining('"hip"'), reason: { type: 'unknownWord', word: 'hip' } },
+            { input: '{"a":"sip"}', reason: { type: 'malformed' } },
+            { input: expect.stringContaining('The cat sat on the mat.'), reason: { type: 'missingSound', symbol: 'ʃ' } },
+        ]);
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives accepted pairs stable ids and the translation from the model', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const [first] = (await generate('initial')).items;
+        expect(first).toMatchObject({ type: 'pair', id: 'gen-sip-ship', a: { ipa: '/sɪp/' }, b: { ipa: '/ʃɪp/' } });
+    });
+
+    it('drops pairs whose contrast is in another position', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const check = await generate('medial');
+        expect(check.items.map(describeItem)).toContain('masses/mashes');
+        expect(check.rejected[0].reason).toEqual({ type: 'wrongPosition', position: 'medial' });
+    });
+
+    it('drops items that are already in the lessons', async () => {
+        const res = await run(body);
+        const options = { contrast: sShPack.contrast, difficulty: 'beginner', position: 'initial', existing: sShPack.items };
+        const check = checkGeneratedSet(res.body, options);
+        expect(check.items.map(describeItem)).not.toContain('sip/ship');
+        expect(check.rejected.filter(({ reason }) => reason.type === 'duplicate').map(({ input }) => JSON.parse(input).a))
+            .toEqual(['sip', 'sort', 'seat']);
+    });
+
+    it('drops a repeat within the same answer', () => {
+        const pair = { a: 'sort', b: 'short', translation: '分類する / 短い' };
+        const check = checkGeneratedSet(
+            { pairs: [pair, pair], sentences: [] },
+            { contrast: sShPack.contrast, difficulty: 'beginner', position: 'initial', existing: [] },
+        );
+        expect(check.items).toHaveLength(1);
+        expect(check.rejected).toEqual([{ input: JSON.stringify(pair), reason: { type: 'duplicate' } }]);
+    });
+});
@@ -0,0 +1,32 @@
+// Fixed-window, per-key request limiter. State lives in memory, so each
+// serverless instance enforces its own budget; that is enough to stop a
+// single client from burning through the model quota.
+const createRateLimiter = ({ limit = 20, windowMs = 60 * 1000, now = Date.now } = {}) => {
+    const windows = new Map();
+
+    const check = (key) => {
+        const current = now();
+        let entry = windows.get(key);
+        if (!entry || current - entry.start >= windowMs) {
+            entry = { start: current, count: 0 };
+            windows.set(key, entry);
+        }
+        // Drop stale keys now and then so the map cannot grow without bound.
+        if (windows.size > 10000) {
+            for (const [otherKey, other] of windows) {
+                if (current - other.start >= windowMs) {
+                    windows.delete(otherKey);
+                }
+            }
+        }
+        if (entry.count >= limit) {
+            return { allowed: false, retryAfterMs: entry.start + windowMs - current };
+        }
+        entry.count++;
+        return { allowed: true, retryAfterMs: 0 };
+    };
+
+    return { check };
+};
+
+export { createRateLimiter };
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { createSpeechToTextHandler } from '../speech-to-text.js';
+import { createMockRequest, createMockResponse } from './mockHttp.js';
+
+// A fake Speech client: records each request and answers with `results`,
+// or rejects with `error`.
+const createFakeSpeechClient = ({ results = [], error = null } = {}) => {
+    const requests = [];
+    return {
+        requests,
+        recognize: async (request) => {
+            requests.push(request);
+            if (error) {
+                throw error;
+            }
+            return [{ results }];
+        },
+    };
+};
+
+// A mono 16-bit PCM WAV header claiming `seconds` of audio at 16 kHz.
+const wavHeader = (seconds) => {
+    const byteRate = 16000 * 2;
+    const bytes = Buffer.alloc(44);
+    bytes.write('RIFF', 0, 'ascii');
+    bytes.write('WAVE', 8, 'ascii');
+    bytes.write('fmt ', 12, 'ascii');
+    bytes.writeUInt32LE(16, 16);
+    bytes.writeUInt16LE(1, 20);
+    bytes.writeUInt16LE(1, 22);
+    bytes.writeUInt32LE(16000, 24);
+    bytes.writeUInt32LE(byteRate, 28);
+    bytes.writeUInt16LE(2, 32);
+    bytes.writeUInt16LE(16, 34);
+    bytes.write('data', 36, 'ascii');
+    bytes.writeUInt32LE(byteRate * seconds, 40);
+    return Buffer.concat([bytes, Buffer.alloc(byteRate * seconds)]);
+};
+
+// A FLAC stream marker and STREAMINFO block for `seconds` at 16 kHz.
+const flacHeader = (seconds) => {
+    const bytes = Buffer.alloc(42);
+    bytes.write('fLaC', 0, 'ascii');
+    bytes[4] = 0x80;
+    bytes.writeUIntBE(34, 5, 3);
+    const sampleRate = 16000;
+    bytes[18] = sampleRate >> 12;
+    bytes[19] = (sampleRate >> 4) & 0xff;
+    bytes[20] = (sampleRate & 0x0f) << 4;
+    bytes.writeUInt32BE(sampleRate * seconds, 22);
+    return bytes;
+};
+
+const opus = (byteCount) => Buffer.alloc(byteCount, 1).toString('base64');
+
+const run = async (body, speechClient = createFakeSpeechClient()) => {
+    const handler = createSpeechToTextHandler({ speechClient, rateLimiter: null });
+    const res = createMockResponse();
+    await handler(createMockRequest({ body }), res);
+    return res;
+};
+
+describe('the speech-to-text handler', () => {
+    it('sends Opus audio with its encoding and merges the results', async () => {
+        const speechClient = createFakeSpeechClient({
+            results: [
+                { alternatives: [{ transcript: 'she sells ', confidence: 0.8 }, { transcript: 'sea sells', confidence: 0 }] },
+                { alternatives: [{ transcript: 'seashells', confidence: 0.6 }] },
+            ],
+        });
+        const res = await run({ audio: opus(2000), mimeType: 'audio/webm;codecs=opus', durationMs: 1500 }, speechClient);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.transcription).toBe('she sells \nseashells');
+        expect(res.body.alternatives.map(alternative => alternative.transcript)).toEqual(['she sells seashells', 'sea sells seashells']);
+        expect(res.body.alternatives[0].confidence).toBeCloseTo(0.7);
+        expect(res.body.alternatives[1].confidence).toBeCloseTo(0.6);
+        expect(speechClient.requests[0].config).toMatchObject({ encoding: 'WEBM_OPUS', sampleRateHertz: 48000, languageCode: 'en-US' });
+    });
+
+    it('skips results without alternatives', async () => {
+        const speechClient = createFakeSpeechClient({
+            results: [
+                { alternatives: [] },
+                { alternatives: [{ transcript: 'she sells', confidence: 0.8 }] },
+                {},
+            ],
+        });
+        const res = await run({ audio: opus(2000), mimeType: 'audio/webm;codecs=opus', durationMs: 1500 }, speechClient);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.transcription).toBe('she sells');
+        expect(res.body.alternatives.map(alternative => alternative.transcript)).toEqual(['she sells']);
+    });
+
+    it('answers with nothing heard when every result is empty', async () => {
+        const res = await run(
+            { audio: opus(2000), mimeType: 'audio/webm;codecs=opus', durationMs: 1500 },
+            createFakeSpeechClient({ results: [{ alternatives: [] }] }),
+        );
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ transcription: '', alternatives: [] });
+    });
+
+    it('requires a duration for Opus audio', async () => {
+        const speechClient = createFakeSpeechClient();
+        const res = await run({ audio: opus(2000), mimeType: 'audio/ogg;codecs=opus' }, speechClient);
+        expect(res.statusCode).toBe(400);
+        expect(res.body.error.code).toBe('missing_duration');
+        expect(speechClient.requests).toHaveLength(0);
+    });
+
+    it('does not believe a duration shorter than the Opus payload allows', async () => {
+        // 2.5 MB is over 40 s even at Opus's highest bitrate.
+        const res = await run({ audio: opus(2.5 * 1024 * 1024), mimeType: 'audio/webm;codecs=opus', durationMs: 1000 });
+        expect(res.statusCode).toBe(413);
+        expect(res.body.error.code).toBe('audio_too_long');
+    });
+
+    it('reads the duration from a WAV header instead of the client', async () => {
+        const audio = wavHeader(31).toString('base64');
+        expect((await run({ audio, mimeType: 'audio/wav', durationMs: 1000 })).statusCode).toBe(413);
+        expect((await run({ audio: wavHeader(2).toString('base64'), mimeType: 'audio/wav' })).statusCode).toBe(200);
+    });
+
+    it('reads the duration from a FLAC header instead of the client', async () => {
+        expect((await run({ audio: flacHeader(45).toString('base64'), mimeType: 'audio/flac', durationMs: 1000 })).statusCode).toBe(413);
+        expect((await run({ audio: flacHeader(3).toString('base64'), mimeType: 'audio/flac' })).statusCode).toBe(200);
+    });
+
+    it('rejects formats the API cannot decode', async () => {
+        const res = await run({ audio: opus(100), mimeType: 'audio/mp4', durationMs: 500 });
+        expect(res.statusCode).toBe(415);
+        expect(res.body.error.code).toBe('unsupported_audio_format');
+    });
+
+    it('maps speech service failures', async () => {
+        const body = { audio: opus(2000), mimeType: 'audio/webm;codecs=opus', durationMs: 1500 };
+        const rejected = await run(body, createFakeSpeechClient({ error: Object.assign(new Error('bad audio'), { code: 3 }) }));
+        expect(rejected.statusCode).toBe(422);
+        expect(rejected.body.error.code).toBe('audio_rejected');
+        const unavailable = await run(body, createFakeSpeechClient({ error: new Error('unavailable') }));
+        expect(unavailable.statusCode).toBe(502);
+        expect(unavailable.body.error.code).toBe('speech_service_error');
+    });
+});
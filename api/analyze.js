@@ -0,0 +1,51 @@
+import { buildAnalysisPrompt, validateAnalyzeRequest, validateFeedback } from './_lib/analysis.js';
+import { generateWithFallback, ModelUnavailableError } from './_lib/generate.js';
+import { guardPost, sendError } from './_lib/http.js';
+import { resolveModelClients } from './_lib/models.js';
+import { createRateLimiter } from './_lib/rateLimit.js';
+
+// Runs the pronunciation analysis on the server so the Gemini key never
+// reaches the browser. Set GEMINI_API_KEY (and optionally GEMINI_MODELS) in
+// the Vercel project settings, or MODEL_CLIENT=mock to use the local mock model.
+const createAnalyzeHandler = ({
+    modelClients = resolveModelClients(),
+    rateLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 1000 }),
+    generateOptions = {},
+} = {}) => async (req, res) => {
+    // 1. Method, rate limit and body checks.
+    if (!guardPost(req, res, rateLimiter)) {
+        return;
+    }
+
+    // 2. Validate the attempt the browser sent us.
+    const { value: input, errors } = validateAnalyzeRequest(req.body);
+    if (errors) {
+        sendError(res, 400, 'invalid_request', 'The analysis request is invalid.', { details: errors });
+        return;
+    }
+
+    if (modelClients.length === 0) {
+        sendError(res, 503, 'model_not_configured', 'AI analysis is not configured on the server.');
+        return;
+    }
+
+    // 3. Ask the models in order until one returns a well-formed verdict.
+    try {
+        const { value, model } = await generateWithFallback(
+            modelClients,
+            { task: 'analyze', prompt: buildAnalysisPrompt(input), input },
+            { validate: validateFeedback, ...generateOptions },
+        );
+        res.status(200).json({ isCorrect: value.isCorrect, feedback: value.feedback, tip: value.tip, model });
+    } catch (error) {
+        if (error instanceof ModelUnavailableError) {
+            sendError(res, 502, 'model_unavailable', 'The AI model could not produce feedback.', { failures: error.failures });
+            return;
+        }
+        console.error('ERROR:', error);
+        sendError(res, 500, 'internal_error', 'Something went wrong while analyzing the attempt.');
+    }
+};
+
+export default createAnalyzeHandler();
+export { createAnalyzeHandler };
@@ -0,0 +1,55 @@
+import { buildCoachPrompt, validateCoachReply, validateCoachRequest } from './_lib/coach.js';
+import { generateWithFallback, ModelUnavailableError } from './_lib/generate.js';
+import { guardPost, sendError } from './_lib/http.js';
+import { resolveModelClients } from './_lib/models.js';
+import { createRateLimiter } from './_lib/rateLimit.js';
+
+// Follow-up questions about an analyzed attempt ("how should my tongue
+// move?"). Configured like api/analyze.js; the browser sends the attempt and
+// the recent turns with every request, so the route keeps no state.
+const createCoachHandler = ({
+    modelClients = resolveModelClients(),
+    rateLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 }),
+    generateOptions = {},
+} = {}) => async (req, res) => {
+    // 1. Method, rate limit and body checks.
+    if (!guardPost(req, res, rateLimiter)) {
+        return;
+    }
+
+    // 2. Validate the attempt and the conversation so far.
+    const { value: input, errors } = validateCoachRequest(req.body);
+    if (errors) {
+        sendError(res, 400, 'invalid_request', 'The coach request is invalid.', { details: errors });
+        return;
+    }
+
+    if (modelClients.length === 0) {
+        sendError(res, 503, 'model_not_configured', 'The AI coach is not configured on the server.');
+        return;
+    }
+
+    // 3. Ask the models in order until one answers in the expected shape.
+    try {
+        const { value, model } = await generateWithFallback(
+            modelClients,
+            { task: 'coach', prompt: buildCoachPrompt(input), input },
+            { validate: validateCoachReply, ...generateOptions },
+        );
+        res.status(200).json({
+            reply: value.reply.trim(),
+            suggestedWords: (value.suggestedWords ?? []).map(word => word.trim()),
+            model,
+        });
+    } catch (error) {
+        if (error instanceof ModelUnavailableError) {
+            sendError(res, 502, 'model_unavailable', 'The AI model could not answer.', { failures: error.failures });
+            return;
+        }
+        console.error('ERROR:', error);
+        sendError(res, 500, 'internal_error', 'Something went wrong while asking the coach.');
+    }
+};
+
+export default createCoachHandler();
+export { createCoachHandler };
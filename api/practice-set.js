@@ -0,0 +1,50 @@
+import { generateWithFallback, ModelUnavailableError } from './_lib/generate.js';
+import { guardPost, sendError } from './_lib/http.js';
+import { resolveModelClients } from './_lib/models.js';
+import { buildPracticeSetPrompt, trimPracticeSet, validatePracticeSetReply, validatePracticeSetRequest } from './_lib/practiceSet.js';
+import { createRateLimiter } from './_lib/rateLimit.js';
+
+// "Generate more": new minimal pairs and sentences for a contrast, at a
+// chosen difficulty and word position. Configured like api/analyze.js.
+const createPracticeSetHandler = ({
+    modelClients = resolveModelClients(),
+    rateLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 1000 }),
+    generateOptions = {},
+} = {}) => async (req, res) => {
+    // 1. Method, rate limit and body checks.
+    if (!guardPost(req, res, rateLimiter)) {
+        return;
+    }
+
+    // 2. Validate what to generate.
+    const { value: input, errors } = validatePracticeSetRequest(req.body);
+    if (errors) {
+        sendError(res, 400, 'invalid_request', 'The practice set request is invalid.', { details: errors });
+        return;
+    }
+
+    if (modelClients.length === 0) {
+        sendError(res, 503, 'model_not_configured', 'AI generation is not configured on the server.');
+        return;
+    }
+
+    // 3. Ask the models in order until one returns the expected shape.
+    try {
+        const { value, model } = await generateWithFallback(
+            modelClients,
+            { task: 'practice-set', prompt: buildPracticeSetPrompt(input), input },
+            { validate: validatePracticeSetReply, ...generateOptions },
+        );
+        res.status(200).json({ ...trimPracticeSet(value), model });
+    } catch (error) {
+        if (error instanceof ModelUnavailableError) {
+            sendError(res, 502, 'model_unavailable', 'The AI model could not generate a practice set.', { failures: error.failures });
+            return;
+        }
+        console.error('ERROR:', error);
+        sendError(res, 500, 'internal_error', 'Something went wrong while generating practice items.');
+    }
+};
+
+export default createPracticeSetHandler();
+export { createPracticeSetHandler };
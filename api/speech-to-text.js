@@ -1,51 +1,163 @@
-
-const { SpeechClient } = require('@google-cloud/speech');
+import { payloadDuration, resolveAudioConfig } from './_lib/audioFormats.js';
+import { guardPost, sendError } from './_lib/http.js';
+import { createRateLimiter } from './_lib/rateLimit.js';
 
 // IMPORTANT: This function will run on Vercel's backend, not in the browser.
 // Your Google Cloud credentials need to be set as environment variables in Vercel.
-const speechClient = new SpeechClient();
 
-module.exports = async (req, res) => {
-    // 1. We only accept POST requests.
-    if (req.method !== 'POST') {
-        res.status(405).send('Method Not Allowed');
-        return;
+// Vercel caps request bodies at 4.5 MB; base64 inflates audio by a third.
+const MAX_AUDIO_BYTES = 3 * 1024 * 1024;
+// Synchronous recognition accepts up to a minute; practice attempts are far shorter.
+const MAX_DURATION_MS = 30 * 1000;
+// Target accents the app offers; recognition is tuned to the chosen one.
+const LANGUAGE_CODES = ['en-US', 'en-GB'];
+
+// google.protobuf.Duration -> milliseconds
+const durationToMs = (duration) => {
+    if (!duration) {
+        return null;
     }
+    return Number(duration.seconds || 0) * 1000 + Math.round(Number(duration.nanos || 0) / 1e6);
+};
+
+const toAlternative = (alternative) => ({
+    transcript: alternative.transcript.trim(),
+    confidence: alternative.confidence > 0 ? alternative.confidence : null,
+    words: (alternative.words || []).map(word => ({
+        word: word.word,
+        startMs: durationToMs(word.startTime),
+        endMs: durationToMs(word.endTime),
+        confidence: word.confidence > 0 ? word.confidence : null,
+    })),
+});
+
+// A short attempt comes back as a single result whose alternatives are the
+// n-best list. Longer audio is split into several results; their i-th
+// candidates are joined into the i-th alternative.
+const mergeResults = (results) => {
+    const alternativeCount = Math.max(0, ...results.map(result => result.alternatives.length));
+    return Array.from({ length: alternativeCount }, (_, i) => {
+        const picked = results.map(result => toAlternative(result.alternatives[Math.min(i, result.alternatives.length - 1)]));
+        const confidences = picked.map(alternative => alternative.confidence).filter(confidence => confidence !== null);
+        return {
+            transcript: picked.map(alternative => alternative.transcript).join(' '),
+            confidence: confidences.length > 0
+                ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+                : null,
+            words: picked.flatMap(alternative => alternative.words),
+        };
+    });
+};
+
+// The Speech client is injectable so the handler can run against a fake;
+// by default it is created on first use.
+const createSpeechToTextHandler = ({
+    speechClient = null,
+    rateLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 }),
+} = {}) => {
+    const getSpeechClient = async () => {
+        if (!speechClient) {
+            const { SpeechClient } = await import('@google-cloud/speech');
+            speechClient = new SpeechClient();
+        }
+        return speechClient;
+    };
+
+    return async (req, res) => {
+        // 1. We only accept POST requests with a JSON body.
+        if (!guardPost(req, res, rateLimiter)) {
+            return;
+        }
 
-    try {
         // 2. Get the audio data from the request body.
-        // The audio data is sent as a base64 encoded string.
-        const audioBytes = req.body.audio;
-        if (!audioBytes) {
-            res.status(400).send('Bad Request: Missing audio data.');
+        // The audio data is sent as a base64 encoded string, along with the
+        // MIME type the browser recorded and, for Opus, the sample rate.
+        const { audio: audioBytes, mimeType, sampleRateHertz, durationMs, languageCode = 'en-US' } = req.body;
+        if (typeof audioBytes !== 'string' || audioBytes.length === 0) {
+            sendError(res, 400, 'missing_audio', 'Missing audio data.');
+            return;
+        }
+        if (typeof mimeType !== 'string' || mimeType.length === 0) {
+            sendError(res, 400, 'missing_mime_type', 'Missing mimeType for the audio data.');
+            return;
+        }
+        if (sampleRateHertz !== undefined && !Number.isInteger(sampleRateHertz)) {
+            sendError(res, 400, 'invalid_sample_rate', 'sampleRateHertz must be an integer.');
+            return;
+        }
+        if (durationMs !== undefined && (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0)) {
+            sendError(res, 400, 'invalid_duration', 'durationMs must be a non-negative number.');
+            return;
+        }
+        if (!LANGUAGE_CODES.includes(languageCode)) {
+            sendError(res, 400, 'unsupported_language', `languageCode must be one of: ${LANGUAGE_CODES.join(', ')}.`);
+            return;
+        }
+
+        const { config: formatConfig, error: formatError } = resolveAudioConfig(mimeType, sampleRateHertz);
+        if (formatError) {
+            sendError(res, 415, 'unsupported_audio_format', formatError);
+            return;
+        }
+
+        const bytes = Buffer.from(audioBytes, 'base64');
+        if (bytes.length > MAX_AUDIO_BYTES) {
+            sendError(res, 413, 'audio_too_large', `Audio must be at most ${MAX_AUDIO_BYTES / (1024 * 1024)} MB.`, { maxBytes: MAX_AUDIO_BYTES });
+            return;
+        }
+        // Trust the WAV or FLAC header when there is one. Opus has none, so the
+        // client must say how long the recording is, and the claim cannot be
+        // shorter than the payload allows.
+        const { exactMs, minimumMs } = payloadDuration(bytes, formatConfig.encoding);
+        if (exactMs === null && durationMs === undefined) {
+            sendError(res, 400, 'missing_duration', 'durationMs is required for audio without a readable header.');
+            return;
+        }
+        const effectiveDurationMs = exactMs ?? Math.max(durationMs, minimumMs);
+        if (effectiveDurationMs > MAX_DURATION_MS) {
+            sendError(res, 413, 'audio_too_long', `Audio must be at most ${MAX_DURATION_MS / 1000} seconds long.`, { maxDurationMs: MAX_DURATION_MS });
             return;
         }
 
-        const audio = {
-            content: audioBytes,
-        };
-        const config = {
-            encoding: 'WEBM_OPUS', // This needs to match the format from the browser
-            sampleRateHertz: 48000, // This needs to match the format from the browser
-            languageCode: 'en-US',
-            model: 'default', // or 'telephony', 'medical_dictation', etc. depending on your use case
-        };
         const request = {
-            audio: audio,
-            config: config,
+            audio: {
+                content: audioBytes,
+            },
+            config: {
+                ...formatConfig,
+                languageCode,
+                model: 'default', // or 'telephony', 'medical_dictation', etc. depending on your use case
+                maxAlternatives: 5, // n-best list, so the app can see near misses like "she" vs "sea"
+                enableWordTimeOffsets: true,
+                enableWordConfidence: true,
+            },
         };
 
         // 3. Send the request to Google Cloud Speech-to-Text API
-        const [response] = await speechClient.recognize(request);
-        const transcription = response.results
+        let response;
+        try {
+            [response] = await (await getSpeechClient()).recognize(request);
+        } catch (error) {
+            console.error('ERROR:', error);
+            // gRPC INVALID_ARGUMENT usually means the audio did not match the declared format.
+            if (error && error.code === 3) {
+                sendError(res, 422, 'audio_rejected', 'The speech service could not decode this audio.');
+            } else {
+                sendError(res, 502, 'speech_service_error', 'The speech service is unavailable. Please try again.');
+            }
+            return;
+        }
+
+        // A result can come back with no alternatives at all; it has nothing to add.
+        const results = (response.results || []).filter(result => result.alternatives && result.alternatives.length > 0);
+        const transcription = results
             .map(result => result.alternatives[0].transcript)
             .join('\n');
 
         // 4. Send the transcription result back to the browser.
-        res.status(200).json({ transcription });
-
-    } catch (error) {
-        console.error('ERROR:', error);
-        res.status(500).send('Internal Server Error');
-    }
+        res.status(200).json({ transcription, alternatives: mergeResults(results) });
+    };
 };
+
+export default createSpeechToTextHandler();
+export { createSpeechToTextHandler };
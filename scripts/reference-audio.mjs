@@ -0,0 +1,53 @@
+// Synthesizes reference recordings for a bundled lesson pack, so the compare
+// panel can show the reference's waveform and spectrogram next to the
+// learner's. speechSynthesis output can't be captured in the browser, so the
+// audio is rendered here with meSpeak (eSpeak compiled to JavaScript), written
+// to public/reference/<pack>/ and linked from the pack's `audio` fields.
+//
+//   npm run reference-audio -- s-sh
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const meSpeak = require('mespeak');
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+// A little slower than eSpeak's default, so the fricative is long enough to see.
+const WORDS_PER_MINUTE = 140;
+
+const slug = (text) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const packId = process.argv[2];
+if (!packId) {
+    console.error('Usage: npm run reference-audio -- <pack id>');
+    process.exit(1);
+}
+
+meSpeak.loadConfig(require('mespeak/src/mespeak_config.json'));
+meSpeak.loadVoice(require('mespeak/voices/en/en-us.json'));
+
+const packPath = join(root, 'src', 'lessons', 'packs', `${packId}.json`);
+const pack = JSON.parse(readFileSync(packPath, 'utf8'));
+const outputDir = join(root, 'public', 'reference', packId);
+mkdirSync(outputDir, { recursive: true });
+
+// Renders `text` to a WAV file and returns its URL.
+const render = (text) => {
+    const file = `${slug(text)}.wav`;
+    writeFileSync(join(outputDir, file), Buffer.from(meSpeak.speak(text, { rawdata: 'array', speed: WORDS_PER_MINUTE })));
+    return `/reference/${packId}/${file}`;
+};
+
+for (const item of pack.items) {
+    if (item.type === 'pair') {
+        item.a.audio = render(item.a.word);
+        item.b.audio = render(item.b.word);
+    } else {
+        item.audio = render(item.text);
+    }
+}
+writeFileSync(packPath, `${JSON.stringify(pack, null, 2)}\n`);
+console.log(`Wrote ${pack.items.length} items' reference audio to ${outputDir}.`);
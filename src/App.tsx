@@ -1,27 +1,100 @@
 /// <reference types="vite/client" />
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import React from "react";
-
-declare global {
-    interface Window {
-        SpeechRecognition: any;
-        webkitSpeechRecognition: any;
-    }
-}
-
-// Note: This key needs to be exposed by your build tool (e.g., Webpack, Vite).
-// For Vite, you would name it VITE_API_KEY in a .env file.
-const API_KEY = import.meta.env.VITE_API_KEY;
-
-const PRACTICE_ITEMS = [
-    { type: 'pair', wordS: 'sea', ipaS: '/siː/', wordSh: 'she', ipaSh: '/ʃiː/', translation: '海 / 彼女' },
-    { type: 'pair', wordS: 'seat', ipaS: '/siːt/', wordSh: 'sheet', ipaSh: '/ʃiːt/', translation: '席 / シーツ' },
-    { type: 'pair', wordS: 'sell', ipaS: '/sel/', wordSh: 'shell', ipaSh: '/ʃel/', translation: '売る / 貝殻' },
-    { type: 'pair', wordS: 'self', ipaS: '/self/', wordSh: 'shelf', ipaSh: '/ʃelf/', translation: '自己 / 棚' },
-    { type: 'sentence', text: 'She sells seashells by the seashore.', ipa: '/ʃiː selz ˈsiːʃelz baɪ ðə ˈsiːʃɔːr/', translation: '彼女は海岸で貝殻を売る' },
-];
-
+import { isSameWord } from "./analysis/alignment";
+import type { Sibilant } from "./audio/fricative";
+import type { MicAssessment } from "./audio/levels";
+import { playCue } from "./audio/playback";
+import { speak } from "./audio/speech";
+import { classifyAttempt } from "./analytics/confusion";
+import {
+    ASSIGNMENT_HASH_PARAM,
+    assignmentPack,
+    readAssignmentHash,
+    validateAssignment,
+    type Assignment,
+} from "./classroom/assignment";
+import type { ResultAttempt } from "./classroom/results";
+import type { CoachAttempt, SuggestedWord } from "./coach/conversation";
+import { AlignedSentence } from "./components/AlignedSentence";
+import { AnalyticsDashboard } from "./components/AnalyticsDashboard";
+import { ArticulationPanel } from "./components/ArticulationPanel";
+import { AssignmentBanner } from "./components/AssignmentBanner";
+import { ClassroomView } from "./components/ClassroomView";
+import { CoachChat } from "./components/CoachChat";
+import { ComparePanel } from "./components/ComparePanel";
+import { CustomTextForm } from "./components/CustomTextForm";
+import { DrillPanel } from "./components/DrillPanel";
+import { GenerateForm } from "./components/GenerateForm";
+import { HighlightedIpa } from "./components/HighlightedIpa";
+import { ListeningDrill } from "./components/ListeningDrill";
+import { MicCheck } from "./components/MicCheck";
+import { PackPicker } from "./components/PackPicker";
+import { TwisterDrill } from "./components/TwisterDrill";
+import { ProgressSummary } from "./components/ProgressSummary";
+import { ReplayPanel } from "./components/ReplayPanel";
+import { listenForCommand, type VoiceCommand } from "./drill/commands";
+import {
+    advanceDrill,
+    checkDrillTime,
+    DEFAULT_DRILL_SETTINGS,
+    isDrillOver,
+    recordDrillResult,
+    sanitizeDrillSettings,
+    startDrill,
+    stopDrill,
+    type DrillSession,
+    type DrillSettings,
+} from "./drill/session";
+import { usePersistentState } from "./hooks/usePersistentState";
+import { LOCALES, useI18n, type Locale, type MessageKey } from "./i18n";
+import {
+    addToGeneratedPack,
+    buildCustomPack,
+    buildSessionItem,
+    BUNDLED_PACKS,
+    CUSTOM_PACK_ID,
+    DEFAULT_PACK_ID,
+    GENERATED_PACK_ID,
+    ipaFor,
+    sibilantFor,
+    validateLessonPack,
+    type Contrast,
+    type ContrastSide,
+    type CustomEntry,
+    type LessonPack,
+    type PairItem,
+    type PracticeItem,
+    type SentenceItem,
+} from "./lessons";
+import { perceptionKey, pickListeningItem } from "./progress/perception";
+import { ACCENTS, DEFAULT_ACCENT, isAccent, type Accent } from "./pronunciation";
+import { pickNextItem } from "./progress/scheduler";
+import { useProgress } from "./progress/useProgress";
+import {
+    pickRecognizer,
+    RECOGNIZERS,
+    webSpeechStreamingRecognizer,
+    type RecognitionAlternative,
+    type RecognizerId,
+    type RecognizerPreference,
+} from "./recognition";
+import {
+    attemptTarget,
+    createCoachAnalyzer,
+    createMicrophoneRecognizer,
+    createRulesAnalyzer,
+    isBusy,
+    type AcousticResult,
+    type AnalyzerConfig,
+    type AttemptResult,
+    type AttemptTarget,
+    type RecordOptions,
+    type ReplayRecognizer,
+    type SessionErrorCode,
+} from "./session";
+import { usePracticeSession } from "./session/usePracticeSession";
+import type { RunResult } from "./twister/session";
 
 const MicIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24">
@@ -41,252 +114,868 @@ const CrossIcon = () => (
     </svg>
 );
 
-// Speech Recognition wrapper
-const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+// Speaking drills production; listening drills telling the pair apart by ear.
+type Mode = 'speak' | 'listen';
 
-const recognizeSpeech = (): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        if (!SpeechRecognition) {
-            reject("Speech recognition not supported in this browser.");
-            return;
-        }
+const referenceAudioFor = (item: PracticeItem, word: string) => {
+    if (item.type === 'sentence') {
+        return item.audio;
+    }
+    return item.a.word === word ? item.a.audio : item.b.word === word ? item.b.audio : undefined;
+};
 
-        const recognition = new SpeechRecognition();
-        recognition.lang = 'en-US';
-        recognition.interimResults = false;
-        recognition.maxAlternatives = 1;
+// After a wrong pair attempt: the card the learner aimed for and the one
+// whose sound came out instead, going by the transcript or the acoustic check.
+const swappedSides = (
+    item: PracticeItem,
+    contrast: Contrast,
+    word: string,
+    transcript: string | undefined,
+    acoustic: AcousticResult | null,
+): { target: ContrastSide; produced: ContrastSide } | null => {
+    if (item.type !== 'pair') {
+        return null;
+    }
+    const target: ContrastSide = item.a.word === word ? 'a' : 'b';
+    const produced: ContrastSide = target === 'a' ? 'b' : 'a';
+    const heardOther = transcript !== undefined && isSameWord(transcript, item[produced].word) && !isSameWord(transcript, word);
+    const soundedOther = acoustic !== null && acoustic.verdict === sibilantFor(contrast, produced);
+    return heardOther || soundedOther ? { target, produced } : null;
+};
 
-        recognition.onresult = (event: { results: { transcript: any; }[][]; }) => {
-            const transcript = event.results[0][0].transcript;
-            resolve(transcript);
-        };
+// The bundled recording when there is one, speechSynthesis otherwise.
+const playReference = (text: string, audioUrl: string | undefined, accent: Accent) => {
+    const playing = audioUrl ? new Audio(audioUrl).play() : speak(text, { lang: accent });
+    playing.catch(e => console.warn("Couldn't play the reference:", e));
+};
 
-        recognition.onerror = (event: { error: any; }) => {
-            reject(`Speech recognition error: ${event.error}`);
-        };
+// Pause before listening again when the command recognizer stops on silence.
+const COMMAND_RESTART_MS = 300;
 
-        recognition.onend = () => {
-            // Automatically ends after a period of silence.
-        };
+// Keys typed into form fields are never push-to-talk.
+const isTypingTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
-        recognition.start();
-    });
+const SIBILANT_IPA: Record<Sibilant, string> = { s: '/s/', sh: '/ʃ/' };
+
+const ACCENT_LABELS: Record<Accent, MessageKey> = {
+    'en-US': 'accent.us',
+    'en-GB': 'accent.gb',
 };
 
-type Feedback = {
-    isCorrect: boolean;
-    feedback: string;
-    tip: string;
+const SESSION_ERROR_MESSAGES: Record<SessionErrorCode, MessageKey> = {
+    noMicrophoneSupport: 'error.noMicrophoneSupport',
+    noRecognizer: 'error.noRecognizer',
+    noSpeech: 'error.noSpeech',
+    permissionDenied: 'error.permissionDenied',
+    noMicrophone: 'error.noMicrophone',
+    microphoneBusy: 'error.microphoneBusy',
+    apiKey: 'error.apiKey',
+    analysisFailed: 'error.analysisFailed',
+    generic: 'error.generic',
+    unknown: 'error.unknown',
+};
+
+const RECOGNIZER_LABELS: Record<RecognizerId, MessageKey> = {
+    'web-speech': 'recognizer.webSpeech',
+    'cloud': 'recognizer.cloud',
+};
+
+const AcousticMeter = ({ result }: { result: AcousticResult }) => {
+    const { t } = useI18n();
+    const matches = result.verdict === result.expected;
+    return (
+        <div className={`acoustic-meter ${matches ? 'match' : 'mismatch'}`}>
+            <div className="acoustic-scale">
+                <span>/ʃ/</span>
+                <div className="acoustic-track">
+                    <div className="acoustic-marker" style={{ left: `${result.sScore * 100}%` }} />
+                </div>
+                <span>/s/</span>
+            </div>
+            <p className="acoustic-caption">
+                {t('acoustic.caption', {
+                    verdict: result.verdict === 'unclear'
+                        ? t('acoustic.unclear')
+                        : t('acoustic.soundsLike', { sound: SIBILANT_IPA[result.verdict] }),
+                    hz: Math.round(result.features.spectralCentroid),
+                })}
+            </p>
+        </div>
+    );
+};
+
+const HeardList = ({ alternatives }: { alternatives: RecognitionAlternative[] }) => {
+    const { t } = useI18n();
+    return (
+        <p className="heard-list">
+            {t('feedback.heard')} {alternatives.map((alternative, i) => (
+                <span key={i} className={i === 0 ? 'heard-best' : ''}>
+                    {i > 0 && ' · '}"{alternative.transcript}"
+                    {alternative.confidence !== null && ` ${Math.round(alternative.confidence * 100)}%`}
+                </span>
+            ))}
+        </p>
+    );
 };
 
 export default function App() {
+    const { locale, setLocale, t } = useI18n();
+    const [importedPacks, setImportedPacks] = usePersistentState<LessonPack[]>('importedPacks', []);
+    const [customPack, setCustomPack] = usePersistentState<LessonPack | null>('customPack', null);
+    const [generatedPack, setGeneratedPack] = usePersistentState<LessonPack | null>('generatedPack', null);
+    const [currentPackId, setCurrentPackId] = usePersistentState('currentPack', DEFAULT_PACK_ID);
     const [currentItemIndex, setCurrentItemIndex] = React.useState(0);
-    const [status, setStatus] = React.useState<'idle' | 'recording' | 'analyzing' | 'result'>('idle');
-    const [activeWord, setActiveWord] = React.useState<string | null>(null);
-    const [feedback, setFeedback] = React.useState<Feedback | null>(null);
+    const [mode, setMode] = usePersistentState<Mode>('mode', 'speak');
+    const [listeningIndex, setListeningIndex] = React.useState(-1);
+    // Bumped on every listening question so a repeated pair still gets a new prompt.
+    const [listeningRound, setListeningRound] = React.useState(0);
+    const [listeningStreak, setListeningStreak] = React.useState(0);
+    const [bestListeningStreak, setBestListeningStreak] = usePersistentState('bestListeningStreak', 0);
+    // Problems outside an attempt, e.g. a reserved pack id.
     const [error, setError] = React.useState('');
+    // Items added during this visit (e.g. words the coach suggested), per pack. Not persisted.
+    const [sessionItems, setSessionItems] = React.useState<Record<string, SentenceItem[]>>({});
+    const [recognizerPreference, setRecognizerPreference] = usePersistentState<RecognizerPreference>('recognizer', 'auto');
+    const recognizer = pickRecognizer(recognizerPreference);
+    const [dailyGoal, setDailyGoal] = usePersistentState('dailyGoal', 20);
+    const [storedAccent, setAccent] = usePersistentState<Accent>('accent', DEFAULT_ACCENT);
+    const accent = isAccent(storedAccent) ? storedAccent : DEFAULT_ACCENT;
+    const [micDeviceId, setMicDeviceId] = usePersistentState<string | null>('micDeviceId', null);
+    // From the last microphone check; sets the voice threshold for this session.
+    const [micAssessment, setMicAssessment] = React.useState<MicAssessment | null>(null);
+    const [showDashboard, setShowDashboard] = React.useState(false);
+    const [showClassroom, setShowClassroom] = React.useState(false);
+    // Class mode: assignments created here (teacher) and the one being worked on (student).
+    const [teacherAssignments, setTeacherAssignments] = usePersistentState<Assignment[]>('teacherAssignments', []);
+    const [storedAssignment, setActiveAssignment] = usePersistentState<Assignment | null>('activeAssignment', null);
+    const activeAssignment = storedAssignment && validateAssignment(storedAssignment).length === 0 ? storedAssignment : null;
+    const [assignmentAttempts, setAssignmentAttempts] = usePersistentState<ResultAttempt[]>('assignmentAttempts', []);
+    const [storedDrillSettings, setDrillSettings] = usePersistentState<DrillSettings>('drillSettings', DEFAULT_DRILL_SETTINGS);
+    const drillSettings = sanitizeDrillSettings(storedDrillSettings);
+    // The hands-free drill; null until one is started.
+    const [drill, setDrill] = React.useState<DrillSession | null>(null);
+    const drillActive = drill !== null && !isDrillOver(drill);
+    const [now, setNow] = React.useState(() => Date.now());
+    // Read by screen readers on every status change.
+    const [announcement, setAnnouncement] = React.useState('');
+    // A loaded replay script stands in for the microphone, for QA and demos.
+    const [replay, setReplay] = React.useState<ReplayRecognizer | null>(null);
+    const progress = useProgress();
+
+    // Every judged attempt counts toward progress, the open assignment and the drill.
+    const handleAttemptResult = ({ target, attempt, alignment, outcome: { feedback }, at }: AttemptResult) => {
+        const transcript = attempt.alternatives[0].transcript;
+        if (activeAssignment && target.packId === assignmentPack(activeAssignment).id) {
+            setAssignmentAttempts(previous => [...previous, {
+                itemId: target.item.id,
+                targetWord: target.word,
+                transcript,
+                isCorrect: feedback.isCorrect,
+                at: new Date(at).toISOString(),
+            }]);
+        }
+        progress.recordAttempt({
+            packId: target.packId,
+            itemId: target.item.id,
+            targetWord: target.word,
+            transcript,
+            isCorrect: feedback.isCorrect,
+            timestamp: at,
+            sounds: classifyAttempt({
+                contrast: target.contrast,
+                item: target.item,
+                targetWord: target.word,
+                transcript,
+                alignment,
+                accent,
+            }),
+        });
+        if (drillActive) {
+            if (drillSettings.audioCues) {
+                playCue(feedback.isCorrect ? 'correct' : 'incorrect');
+            }
+            setDrill(previous => previous && recordDrillResult(previous, feedback.isCorrect, drillSettings, at));
+        }
+    };
 
-    const ai = React.useMemo(() => API_KEY ? new GoogleGenerativeAI(API_KEY) : null, []);
+    const analyzerConfig = (): AnalyzerConfig => ({ feedbackLanguage: locale, accent });
+    const { session: practice, state: attemptState } = usePracticeSession({
+        recognizer: replay ?? createMicrophoneRecognizer(() => ({
+            recognizer,
+            lang: accent,
+            deviceId: micDeviceId,
+            threshold: micAssessment?.threshold ?? null,
+        })),
+        // Replays are judged by the rules alone, so they come out the same every time.
+        analyzer: replay ? createRulesAnalyzer(analyzerConfig) : createCoachAnalyzer(analyzerConfig),
+        onResult: handleAttemptResult,
+    });
+    const { status } = attemptState;
+    const activeWord = attemptState.target?.word ?? null;
+    // Whether voice activity detection has heard the learner start speaking.
+    const voiceDetected = attemptState.status === 'recording' && attemptState.voiceDetected;
+    const recognized = attemptState.status === 'recording' ? null : attemptState.attempt;
+    const heard = recognized?.alternatives ?? [];
+    const acoustic = recognized?.acoustic ?? null;
+    const attemptAudio = recognized?.audio ?? null;
+    const alignment = attemptState.status === 'recording' ? null : attemptState.alignment;
+    const outcome = attemptState.status === 'result' ? attemptState.outcome : null;
+    const feedback = outcome?.feedback ?? null;
+    const attemptError = attemptState.status === 'idle' ? attemptState.error : null;
+    const errorMessage = error || (attemptError ? t(SESSION_ERROR_MESSAGES[attemptError.code], { message: attemptError.message }) : '');
+    // What the coach chat is about: the attempt just judged.
+    const coachAttempt = React.useMemo((): CoachAttempt | null => attemptState.status === 'result'
+        ? {
+            targetWord: attemptState.target.word,
+            targetIpa: attemptState.target.ipa,
+            transcript: attemptState.attempt.alternatives[0].transcript,
+            isCorrect: attemptState.outcome.feedback.isCorrect,
+            feedback: attemptState.outcome.feedback.feedback,
+            tip: attemptState.outcome.feedback.tip,
+            contrast: { a: attemptState.target.contrast.a.label, b: attemptState.target.contrast.b.label },
+        }
+        : null, [attemptState]);
 
-    const analyzePronunciation = async (targetWord: string, targetIpa: string, transcript: string) => {
-        if (!ai) {
-            setError("API key is not configured.");
-            setStatus('idle');
+    const handleRecord = (target: AttemptTarget, options?: RecordOptions) => {
+        setError('');
+        void practice.record(target, options);
+    };
+
+    const resetAttempt = () => {
+        practice.reset();
+        setError('');
+    };
+
+    const handleNextItem = () => {
+        setCurrentItemIndex(pickNextItem(currentPack.id, currentPack.items, progress.cards, currentItemIndex, Date.now()));
+        setDrill(previous => previous && { ...previous, side: 'a' });
+        resetAttempt();
+    };
+
+    const handleSelectPack = (packId: string) => {
+        const pack = packs.find(candidate => candidate.id === packId);
+        setCurrentPackId(packId);
+        setCurrentItemIndex(pack ? pickNextItem(pack.id, pack.items, progress.cards, -1, Date.now()) : 0);
+        setListeningIndex(pack ? pickListeningItem(pack.id, pack.items, progress.perception, -1) : -1);
+        resetAttempt();
+    };
+
+    const handleNextListening = () => {
+        setListeningIndex(pickListeningItem(currentPack.id, currentPack.items, progress.perception, listeningIndex));
+        setListeningRound(round => round + 1);
+    };
+
+    const handleListeningAnswer = (item: PairItem, isCorrect: boolean) => {
+        progress.recordPerception(currentPack.id, item.id, isCorrect);
+        const streak = isCorrect ? listeningStreak + 1 : 0;
+        setListeningStreak(streak);
+        setBestListeningStreak(best => Math.max(best, streak));
+    };
+
+    // Live runs count toward the daily goal like any other attempt.
+    const handleTwisterRun = (text: string, result: RunResult) => {
+        progress.recordAttempt({
+            packId: currentPack.id,
+            itemId: currentItem.id,
+            targetWord: text,
+            transcript: result.transcript,
+            isCorrect: result.accuracy === 1,
+            timestamp: Date.now(),
+            sounds: classifyAttempt({
+                contrast: currentPack.contrast,
+                item: currentItem,
+                targetWord: text,
+                transcript: result.transcript,
+                alignment: result.alignment,
+                accent,
+            }),
+        });
+    };
+
+    const handleModeChange = (next: Mode) => {
+        resetAttempt();
+        setMode(next);
+        handleStopDrill();
+    };
+
+    const handleStartDrill = () => {
+        const at = Date.now();
+        setDrill(startDrill(at));
+        setNow(at);
+        setMode('speak');
+        setShowDashboard(false);
+        resetAttempt();
+    };
+
+    const handleStopDrill = () => setDrill(previous => previous && stopDrill(previous, Date.now()));
+
+    const handleResetProgress = () => {
+        if (window.confirm(t('settings.confirmReset'))) {
+            void progress.resetProgress();
+        }
+    };
+
+    // Custom text always drills the s/ʃ contrast, since that is what the IPA highlights.
+    const handleCustomPractice = (entries: CustomEntry[]) => {
+        setCustomPack(buildCustomPack(entries, BUNDLED_PACKS[0].contrast, {
+            title: t('custom.packTitle'),
+            defaultTranslation: t('custom.defaultTranslation'),
+        }));
+        setCurrentPackId(CUSTOM_PACK_ID);
+        setCurrentItemIndex(0);
+        setListeningIndex(-1);
+        setMode('speak');
+        resetAttempt();
+    };
+
+    // Generated items also drill s/ʃ; the pack opens on the first new one.
+    const handleGenerated = (items: PracticeItem[]) => {
+        const pack = addToGeneratedPack(generatedPack, items, BUNDLED_PACKS[0].contrast, t('generate.packTitle'));
+        setGeneratedPack(pack);
+        setCurrentPackId(GENERATED_PACK_ID);
+        setCurrentItemIndex(pack.items.length - items.length);
+        setListeningIndex(-1);
+        setMode('speak');
+        resetAttempt();
+    };
+
+    // Appends a coach suggestion to the current pack for the rest of the visit.
+    const handleAddSessionWord = ({ word }: SuggestedWord) => {
+        const item = buildSessionItem(word, 'coach', t('coach.sessionTranslation'));
+        if (!item) {
             return;
         }
-        setStatus('analyzing');
-        setError('');
-        setFeedback(null);
+        setSessionItems(previous => {
+            const items = previous[currentPack.id] ?? [];
+            return items.some(existing => existing.id === item.id)
+                ? previous
+                : { ...previous, [currentPack.id]: [...items, item] };
+        });
+    };
+
+    // An imported pack replaces an earlier import with the same id; bundled, custom, generated and assignment ids are reserved.
+    const handleImportPack = (pack: LessonPack) => {
+        if (pack.id === CUSTOM_PACK_ID || pack.id === GENERATED_PACK_ID || pack.id.startsWith('assignment-') || BUNDLED_PACKS.some(bundled => bundled.id === pack.id)) {
+            setError(t('error.reservedPackId', { id: pack.id }));
+            return;
+        }
+        setImportedPacks(previous => [...previous.filter(existing => existing.id !== pack.id), pack]);
+        handleSelectPack(pack.id);
+    };
 
-        const prompt = `You are an expert English pronunciation coach for native Japanese speakers.\nA user was asked to say: "${targetWord}" (IPA: ${targetIpa}).\nSpeech recognition transcribed their attempt as: "${transcript}".\n\nAnalyze this. Respond ONLY with a JSON object in this format:\n{\n  "isCorrect": boolean,\n  "feedback": "A short, encouraging message about the pronunciation. Example: 'Good try! It sounded like 'ship' instead of 'sip'."",\n  "tip": "A concrete tip focusing on tongue/lip placement for /s/ vs /ʃ/. Contrast with Japanese sounds if helpful. If correct, give a general encouragement tip."
-}`;
+    // Opening another assignment starts its attempts afresh; reopening the same one keeps them.
+    const handleOpenAssignment = (assignment: Assignment) => {
+        if (assignment.id !== activeAssignment?.id) {
+            setAssignmentAttempts([]);
+        }
+        setActiveAssignment(assignment);
+        setCurrentPackId(assignmentPack(assignment).id);
+        setCurrentItemIndex(0);
+        setListeningIndex(-1);
+        setMode('speak');
+        setShowClassroom(false);
+        resetAttempt();
+    };
 
-        try {
-            const model = ai.getGenerativeModel({ model: "gemini-pro", generationConfig: { responseMimeType: "application/json" } });
-            const result = await model.generateContent(prompt);
-            const response = result.response;
-            let jsonStr = response.text();
-
-            // The model might wrap the JSON in a markdown code block.
-            const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-            const match = jsonStr.match(fenceRegex);
-            if (match && match[1]) {
-              jsonStr = match[1].trim();
-            }
+    const handleLeaveAssignment = () => {
+        if (activeAssignment && currentPackId === assignmentPack(activeAssignment).id) {
+            handleSelectPack(DEFAULT_PACK_ID);
+        }
+        setActiveAssignment(null);
+        setAssignmentAttempts([]);
+    };
 
-            const feedbackResult: Feedback = JSON.parse(jsonStr);
-            setFeedback(feedbackResult);
-            setStatus('result');
-        } catch (e) {
-            console.error(e);
-            setError("Couldn't get feedback from AI. Please try again.");
-            setStatus('idle');
+    const handleRemovePack = (packId: string) => {
+        setImportedPacks(previous => previous.filter(pack => pack.id !== packId));
+        handleSelectPack(DEFAULT_PACK_ID);
+    };
+
+    // Stored packs are re-checked in case localStorage was edited or the schema moved on.
+    const packs = [
+        ...BUNDLED_PACKS,
+        ...(customPack ? [customPack] : []),
+        ...(generatedPack ? [generatedPack] : []),
+        ...(activeAssignment ? [assignmentPack(activeAssignment)] : []),
+        ...importedPacks,
+    ]
+        .filter(pack => BUNDLED_PACKS.includes(pack) || validateLessonPack(pack).length === 0);
+    const selectedPack = packs.find(pack => pack.id === currentPackId) ?? BUNDLED_PACKS[0];
+    const addedItems = sessionItems[selectedPack.id] ?? [];
+    const currentPack = addedItems.length > 0 ? { ...selectedPack, items: [...selectedPack.items, ...addedItems] } : selectedPack;
+    const currentItem = currentPack.items[currentItemIndex % currentPack.items.length];
+    const isAnalyzingOrRecording = isBusy(attemptState);
+    const highlightSibilants = sibilantFor(currentPack.contrast, 'a') !== null;
+    const swap = status === 'result' && feedback && !feedback.isCorrect && activeWord
+        ? swappedSides(currentItem, currentPack.contrast, activeWord, heard[0]?.transcript, acoustic)
+        : null;
+    // Listening only uses pair items; fall back to the first pair until one has been picked.
+    const listeningCandidate = currentPack.items[listeningIndex];
+    const listeningItem = listeningCandidate?.type === 'pair'
+        ? listeningCandidate
+        : currentPack.items.find((item): item is PairItem => item.type === 'pair');
+
+    // What the drill asks for: one word of the pair at a time, or the sentence.
+    const drillSide = drill?.side ?? 'a';
+    const drillTarget = attemptTarget(currentPack, currentItem, drillSide, accent);
+    const commandsSupported = webSpeechStreamingRecognizer.isSupported();
+    const listeningForCommand = drillActive && drillSettings.voiceCommands && commandsSupported
+        && (status === 'idle' || status === 'result');
+
+    const recordDrillTarget = (pushToTalk: boolean) => {
+        if (!isAnalyzingOrRecording) {
+            handleRecord(drillTarget, { pushToTalk });
         }
     };
 
-    const handleRecord = async (word: string, ipa: string) => {
-        // 1. Check for browser support first
-        if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-            setError("Your browser does not support microphone access. Please try on a modern browser like Chrome or Firefox.");
-            setStatus('idle');
+    // The other word of the pair, or a new item.
+    const handleDrillAdvance = () => {
+        if (!drill) {
             return;
         }
-        if (!SpeechRecognition) {
-            setError("Speech recognition is not supported in this browser. Please try on a modern browser like Chrome or Firefox.");
-            setStatus('idle');
+        const { session, nextItem } = advanceDrill(drill, currentItem);
+        if (nextItem) {
+            handleNextItem();
+        } else {
+            setDrill(session);
+            resetAttempt();
+        }
+    };
+
+    const handleVoiceCommand = (command: VoiceCommand) => {
+        switch (command) {
+            case 'again':
+                recordDrillTarget(false);
+                break;
+            case 'next':
+                handleDrillAdvance();
+                break;
+            case 'play':
+                playReference(drillTarget.word, referenceAudioFor(currentItem, drillTarget.word), accent);
+                break;
+        }
+    };
+
+    // Listeners outlive renders; they call the latest handlers through this.
+    const drillHandlers = React.useRef({ record: recordDrillTarget, advance: handleDrillAdvance, command: handleVoiceCommand });
+    drillHandlers.current = { record: recordDrillTarget, advance: handleDrillAdvance, command: handleVoiceCommand };
+
+    // Moves on by itself after a pause on the result.
+    React.useEffect(() => {
+        if (!drillActive || status !== 'result' || drillSettings.autoAdvanceMs === null) {
             return;
         }
+        const timer = setTimeout(() => drillHandlers.current.advance(), drillSettings.autoAdvanceMs);
+        return () => clearTimeout(timer);
+    }, [drillActive, status, drillSettings.autoAdvanceMs]);
 
-        setActiveWord(word);
-        setStatus('recording');
-        setError('');
-        setFeedback(null);
+    // The clock; time only runs out between attempts.
+    React.useEffect(() => {
+        if (!drillActive) {
+            return;
+        }
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [drillActive]);
 
-        try {
-            // 2. KEY CHANGE: Explicitly request mic permission on user tap.
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            stream.getTracks().forEach(track => track.stop());
-
-            // 3. Proceed with existing logic
-            const transcript = await recognizeSpeech();
-
-            // 4. ADDED CHECK: Ensure transcript is not empty
-            if (!transcript || transcript.trim() === '') {
-                setError("Couldn't hear any speech. Please try speaking a bit louder or closer to the mic.");
-                setStatus('idle');
-                return; // Stop execution if no speech was detected
+    React.useEffect(() => {
+        if (drillActive && !isAnalyzingOrRecording) {
+            setDrill(previous => previous && checkDrillTime(previous, drillSettings, now));
+        }
+    }, [now, status]);
+
+    // Push-to-talk: hold Space to record the drill target, release to finish.
+    React.useEffect(() => {
+        if (!drillActive) {
+            return;
+        }
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTypingTarget(event.target)) {
+                return;
             }
+            event.preventDefault();
+            if (!event.repeat) {
+                drillHandlers.current.record(true);
+            }
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTypingTarget(event.target)) {
+                return;
+            }
+            event.preventDefault();
+            practice.endSpeech();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [drillActive]);
 
-            await analyzePronunciation(word, ipa, transcript);
-
-        } catch (err) {
-            console.error("Error during recording or analysis:", err); // Better logging
-            let errorMessage = "An unknown error occurred during recording.";
-            
-            if (err instanceof Error) {
-                switch(err.name) {
-                    case 'NotAllowedError':
-                    case 'PermissionDeniedError':
-                        errorMessage = "Microphone permission denied. Please allow access in your browser settings and try again.";
-                        break;
-                    case 'NotFoundError':
-                        errorMessage = "No microphone found. Please connect a microphone and try again.";
-                        break;
-                    case 'NotReadableError':
-                        errorMessage = "Microphone is already in use by another app. Please close it and try again.";
-                        break;
-                    default:
-                        // Check for API-related errors which might not have a specific name
-                        if (err.message.toLowerCase().includes('api key')) {
-                            errorMessage = "AI analysis failed. Please check API key configuration and permissions.";
-                        } else {
-                            errorMessage = `An error occurred: ${err.message}`;
-                        }
+    // Spoken commands, listened for between attempts only.
+    React.useEffect(() => {
+        if (!listeningForCommand) {
+            return;
+        }
+        const controller = new AbortController();
+        const listen = async () => {
+            while (!controller.signal.aborted) {
+                const command = await listenForCommand(webSpeechStreamingRecognizer, { lang: accent, signal: controller.signal });
+                if (command) {
+                    drillHandlers.current.command(command);
+                } else {
+                    await new Promise(resolve => setTimeout(resolve, COMMAND_RESTART_MS));
                 }
-            } else if (typeof err === 'string') {
-                errorMessage = err;
             }
-            
-            setError(errorMessage);
-            setStatus('idle');
-        }
-    };
+        };
+        listen().catch(e => console.warn('Voice commands stopped:', e));
+        return () => controller.abort();
+    }, [listeningForCommand, accent]);
 
-    const handleNextItem = () => {
-        setCurrentItemIndex((prevIndex) => (prevIndex + 1) % PRACTICE_ITEMS.length);
-        setStatus('idle');
-        setFeedback(null);
-        setError('');
-        setActiveWord(null);
-    };
-    
-    const currentItem = PRACTICE_ITEMS[currentItemIndex];
-    const isAnalyzingOrRecording = status === 'analyzing' || status === 'recording';
+    // An assignment link opens the assignment, then is cleared from the address bar.
+    React.useEffect(() => {
+        try {
+            const assignment = readAssignmentHash(window.location.hash);
+            if (assignment) {
+                handleOpenAssignment(assignment);
+            }
+        } catch (e) {
+            console.warn('Invalid assignment link:', e);
+            setError(t('error.assignmentLink'));
+        }
+        if (window.location.hash.includes(`${ASSIGNMENT_HASH_PARAM}=`)) {
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        }
+    }, []);
+
+    // Screen readers hear every status change, with what to say or what was heard.
+    React.useEffect(() => {
+        switch (status) {
+            case 'idle':
+                setAnnouncement(errorMessage || (drillActive ? t('announce.drillReady', { word: drillTarget.word }) : ''));
+                break;
+            case 'recording':
+                setAnnouncement(t('announce.recording', { word: activeWord ?? '' }));
+                break;
+            case 'analyzing':
+                setAnnouncement(t('announce.analyzing'));
+                break;
+            case 'result':
+                setAnnouncement(feedback
+                    ? `${feedback.isCorrect ? t('feedback.correct') : t('feedback.incorrect')} ${feedback.feedback}`
+                    : '');
+                break;
+        }
+    }, [status, errorMessage, drillActive, drillTarget.word]);
 
     return (
         <div className="main-container">
             <header className="header">
-                <h1 className="app-title">S/SH Pronunciation Coach</h1>
-                <p className="app-subtitle">Practice your /s/ and /ʃ/ sounds</p>
+                <h1 className="app-title">{t('app.title')}</h1>
+                <p className="app-subtitle">{t('app.subtitle', { a: currentPack.contrast.a.label, b: currentPack.contrast.b.label })}</p>
             </header>
 
             <main className="coach-card">
-                {currentItem.type === 'pair' ? (
-                    <>
-                        <div className="pair-container">
-                            <div className="word-card">
-                                <h2 className="word">{currentItem.wordS ?? ""}</h2>
-                                <p className="ipa">{currentItem.ipaS}</p>
-                                <button
-                                    className={`record-btn ${status === 'recording' && activeWord === currentItem.wordS ? 'recording' : ''}`}
-                                    onClick={() => handleRecord(currentItem.wordS!, currentItem.ipaS!)}
-                                    disabled={isAnalyzingOrRecording}
-                                    aria-label={`Record pronunciation for ${currentItem.wordS}`}
-                                >
-                                   <MicIcon />
-                                </button>
-                            </div>
-                            <div className="word-card">
-                                <h2 className="word">{currentItem.wordSh}</h2>
-                                <p className="ipa">{currentItem.ipaSh}</p>
-                                <button
-                                    className={`record-btn ${status === 'recording' && activeWord === currentItem.wordSh ? 'recording' : ''}`}
-                                    onClick={() => handleRecord(currentItem.wordSh!, currentItem.ipaSh!)}
-                                    disabled={isAnalyzingOrRecording}
-                                    aria-label={`Record pronunciation for ${currentItem.wordSh}`}
-                                >
-                                    <MicIcon />
-                                </button>
-                            </div>
-                        </div>
-                        <p className="translation">{currentItem.translation}</p>
-                    </>
+                <p className="visually-hidden" role="status" aria-live="polite">{announcement}</p>
+                {activeAssignment && (
+                    <AssignmentBanner
+                        assignment={activeAssignment}
+                        attempts={assignmentAttempts}
+                        onPractice={() => handleSelectPack(assignmentPack(activeAssignment).id)}
+                        onLeave={handleLeaveAssignment}
+                    />
+                )}
+                <PackPicker
+                    packs={packs}
+                    currentPackId={currentPack.id}
+                    importedPackIds={importedPacks.map(pack => pack.id)}
+                    disabled={isAnalyzingOrRecording}
+                    onSelect={handleSelectPack}
+                    onImport={handleImportPack}
+                    onRemove={handleRemovePack}
+                    onOpenAssignment={handleOpenAssignment}
+                />
+                <CustomTextForm accent={accent} disabled={isAnalyzingOrRecording} onPractice={handleCustomPractice} />
+                <GenerateForm
+                    contrast={BUNDLED_PACKS[0].contrast}
+                    existing={[...BUNDLED_PACKS[0].items, ...(generatedPack?.items ?? [])]}
+                    disabled={isAnalyzingOrRecording}
+                    onGenerated={handleGenerated}
+                />
+                <MicCheck
+                    deviceId={micDeviceId}
+                    onDeviceChange={(deviceId) => {
+                        setMicDeviceId(deviceId);
+                        setMicAssessment(null);
+                    }}
+                    assessment={micAssessment}
+                    onAssessed={setMicAssessment}
+                    ignoresDevice={recognizer?.id === 'web-speech'}
+                    disabled={isAnalyzingOrRecording}
+                />
+                <ProgressSummary
+                    todayCount={progress.todayCount}
+                    dailyGoal={dailyGoal}
+                    dueToday={progress.dueToday}
+                    onShowDetails={showDashboard ? undefined : () => {
+                        setShowDashboard(true);
+                        setShowClassroom(false);
+                    }}
+                />
+
+                {showClassroom ? (
+                    <ClassroomView
+                        pack={selectedPack}
+                        assignments={teacherAssignments}
+                        onCreated={(assignment) => setTeacherAssignments(previous => [assignment, ...previous])}
+                        onDelete={(assignmentId) => setTeacherAssignments(previous => previous.filter(assignment => assignment.id !== assignmentId))}
+                        onClose={() => setShowClassroom(false)}
+                    />
+                ) : showDashboard ? (
+                    <AnalyticsDashboard
+                        packs={packs}
+                        currentPackId={currentPack.id}
+                        loadHistory={progress.loadHistory}
+                        onClose={() => setShowDashboard(false)}
+                    />
                 ) : (
                     <>
-                        <div className="sentence-container">
-                            <div className="sentence-card">
-                                <p className="sentence-text">{currentItem.text}</p>
-                                <p className="ipa">{currentItem.ipa}</p>
+                    {mode === 'listen' ? (
+                        listeningItem ? (
+                            <ListeningDrill
+                                key={`${listeningItem.id}-${listeningRound}`}
+                                item={listeningItem}
+                                contrast={currentPack.contrast}
+                                accent={accent}
+                                score={progress.perception.get(perceptionKey(currentPack.id, listeningItem.id))}
+                                streak={listeningStreak}
+                                bestStreak={bestListeningStreak}
+                                onAnswer={(isCorrect) => handleListeningAnswer(listeningItem, isCorrect)}
+                                onNext={handleNextListening}
+                            />
+                        ) : (
+                            <p className="listening-drill">{t('practice.noPairs')}</p>
+                        )
+                    ) : (
+                        <>
+                        <DrillPanel
+                            settings={drillSettings}
+                            onSettingsChange={setDrillSettings}
+                            session={drill}
+                            now={now}
+                            commandsSupported={commandsSupported}
+                            listeningForCommand={listeningForCommand}
+                            disabled={isAnalyzingOrRecording}
+                            onStart={handleStartDrill}
+                            onStop={handleStopDrill}
+                        />
+                        {currentItem.type === 'pair' ? (
+                            <>
+                                <div className="pair-container">
+                                    {(['a', 'b'] as const).map(side => {
+                                        const { word } = currentItem[side];
+                                        const ipa = ipaFor(currentItem[side], accent);
+                                        const sibilant = sibilantFor(currentPack.contrast, side);
+                                        return (
+                                            <div className={`word-card ${drillActive && drillSide === side ? 'drill-target' : ''}`} key={side}>
+                                                <h2 className="word">{word}</h2>
+                                                {highlightSibilants ? <HighlightedIpa ipa={ipa} /> : <p className="ipa">{ipa}</p>}
+                                                <button
+                                                    className={`record-btn ${status === 'recording' && activeWord === word ? 'recording' : ''}`}
+                                                    onClick={() => handleRecord(attemptTarget(currentPack, currentItem, side, accent))}
+                                                    disabled={isAnalyzingOrRecording}
+                                                    aria-label={t('practice.recordWord', { word })}
+                                                >
+                                                    <MicIcon />
+                                                </button>
+                                                {sibilant && (
+                                                    <ArticulationPanel
+                                                        sound={sibilant}
+                                                        highlight={swap?.target === side ? 'target' : swap?.produced === side ? 'produced' : null}
+                                                    />
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                                <p className="translation">{currentItem.translation}</p>
+                            </>
+                        ) : (
+                            <>
+                                <div className="sentence-container">
+                                    <div className="sentence-card">
+                                        {alignment && activeWord === currentItem.text
+                                            ? <AlignedSentence alignment={alignment} />
+                                            : <p className="sentence-text">{currentItem.text}</p>}
+                                        {highlightSibilants ? <HighlightedIpa ipa={ipaFor(currentItem, accent)} /> : <p className="ipa">{ipaFor(currentItem, accent)}</p>}
+                                        <button
+                                            className={`record-btn ${status === 'recording' && activeWord === currentItem.text ? 'recording' : ''}`}
+                                            onClick={() => handleRecord(attemptTarget(currentPack, currentItem, 'a', accent))}
+                                            disabled={isAnalyzingOrRecording}
+                                            aria-label={t('practice.recordSentence')}
+                                        >
+                                            <MicIcon />
+                                        </button>
+                                    </div>
+                                </div>
+                                <p className="translation">{currentItem.translation}</p>
+                                {currentItem.tags.includes('tongue-twister') && webSpeechStreamingRecognizer.isSupported() && (
+                                    <TwisterDrill
+                                        text={currentItem.text}
+                                        recognizer={webSpeechStreamingRecognizer}
+                                        lang={accent}
+                                        disabled={isAnalyzingOrRecording}
+                                        onRunComplete={(result) => handleTwisterRun(currentItem.text, result)}
+                                    />
+                                )}
+                            </>
+                        )}
+
+                        <div className={`feedback-container ${status === 'result' ? `result ${feedback?.isCorrect ? 'correct' : 'incorrect'}` : ''}`}>
+                            {status === 'idle' && <p>{t('practice.idle')}</p>}
+                            {status === 'recording' && <p>{voiceDetected ? t('practice.listening') : t('practice.waitingForSpeech')}</p>}
+                            {status === 'analyzing' && <div className="loader" aria-label={t('practice.analyzing')}></div>}
+                            {status === 'result' && feedback && (
+                                <>
+                                    <div className={`feedback-header ${feedback.isCorrect ? 'correct' : 'incorrect'}`}>
+                                        {feedback.isCorrect ? <CheckIcon/> : <CrossIcon/>}
+                                        <span>{feedback.isCorrect ? t('feedback.correct') : t('feedback.incorrect')}</span>
+                                        {outcome?.source === 'rules' && (
+                                            <span className="source-badge" title={t('feedback.offlineHint')}>{t('feedback.offline')}</span>
+                                        )}
+                                    </div>
+                                    <p className="feedback-text">{feedback.feedback}</p>
+                                    <p className="feedback-text feedback-tip">{feedback.tip}</p>
+                                    {heard.length > 0 && <HeardList alternatives={heard} />}
+                                    {acoustic && <AcousticMeter result={acoustic} />}
+                                </>
+                            )}
+                        </div>
+
+                        {status === 'result' && coachAttempt && (
+                            <CoachChat
+                                attempt={coachAttempt}
+                                accent={accent}
+                                addedWords={new Set(addedItems.map(item => item.text.toLowerCase()))}
+                                onAddWord={handleAddSessionWord}
+                            />
+                        )}
+
+                        {attemptAudio && activeWord && status !== 'recording' && (
+                            <ComparePanel
+                                attempt={attemptAudio}
+                                referenceText={activeWord}
+                                referenceAudioUrl={referenceAudioFor(currentItem, activeWord)}
+                                accent={accent}
+                            />
+                        )}
+                        </>
+                    )}
+
+                    <div className="item-actions">
+                        <div className="mode-switch" role="group" aria-label={t('mode.label')}>
+                            {(['speak', 'listen'] as const).map(option => (
                                 <button
-                                    className={`record-btn ${status === 'recording' && activeWord === currentItem.text ? 'recording' : ''}`}
-                                    onClick={() => handleRecord(currentItem.text!, currentItem.ipa!)}
+                                    type="button"
+                                    key={option}
+                                    className={mode === option ? 'active' : ''}
+                                    aria-pressed={mode === option}
+                                    onClick={() => handleModeChange(option)}
                                     disabled={isAnalyzingOrRecording}
-                                    aria-label={`Record pronunciation for the sentence`}
                                 >
-                                    <MicIcon />
+                                    {option === 'speak' ? t('mode.speak') : t('mode.listen')}
                                 </button>
-                            </div>
+                            ))}
                         </div>
-                        <p className="translation">{currentItem.translation}</p>
+                        <button className="next-pair-btn" onClick={mode === 'listen' ? handleNextListening : handleNextItem}>
+                            {t('practice.next')}
+                        </button>
+                    </div>
+                    {errorMessage && <p className="error-message">{errorMessage}</p>}
                     </>
                 )}
 
-
-                <div className={`feedback-container ${status === 'result' ? `result ${feedback?.isCorrect ? 'correct' : 'incorrect'}` : ''}`} aria-live="polite">
-                    {status === 'idle' && <p>Tap a mic icon to test your pronunciation.</p>}
-                    {status === 'recording' && <p>Listening...</p>}
-                    {status === 'analyzing' && <div className="loader" aria-label="Analyzing pronunciation"></div>}
-                    {status === 'result' && feedback && (
-                        <>
-                            <div className={`feedback-header ${feedback.isCorrect ? 'correct' : 'incorrect'}`}>
-                                {feedback.isCorrect ? <CheckIcon/> : <CrossIcon/>}
-                                <span>{feedback.isCorrect ? "Excellent!" : "Needs Practice"}</span>
-                            </div>
-                            <p className="feedback-text">{feedback.feedback}</p>
-                            <p className="feedback-text feedback-tip">{feedback.tip}</p>
-                        </>
-                    )}
-                </div>
-
-                <button className="next-pair-btn" onClick={handleNextItem}>
-                    Next Item &rarr;
-                </button>
-                {error && <p className="error-message">{error}</p>}
-                {!API_KEY && 
-                    <p className="error-message">
-                        Warning: API key not found. AI analysis is disabled. Please ensure the API_KEY is set in your environment and exposed to the browser (e.g., as VITE_API_KEY in a .env file).
-                    </p>
-                }
+                <details className="settings-panel">
+                    <summary>{t('settings.title')}</summary>
+                    <label className="settings-row">
+                        <span>{t('settings.language')}</span>
+                        <select value={locale} onChange={(event) => setLocale(event.target.value as Locale)}>
+                            {LOCALES.map(option => (
+                                <option key={option.id} value={option.id} lang={option.id}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="settings-row">
+                        <span>{t('settings.accent')}</span>
+                        <select
+                            value={accent}
+                            onChange={(event) => setAccent(event.target.value as Accent)}
+                            disabled={isAnalyzingOrRecording}
+                        >
+                            {ACCENTS.map(option => <option key={option} value={option}>{t(ACCENT_LABELS[option])}</option>)}
+                        </select>
+                    </label>
+                    <label className="settings-row">
+                        <span>{t('settings.recognizer')}</span>
+                        <select
+                            value={recognizerPreference}
+                            onChange={(event) => setRecognizerPreference(event.target.value as RecognizerPreference)}
+                            disabled={isAnalyzingOrRecording}
+                        >
+                            <option value="auto">
+                                {recognizer
+                                    ? t('settings.recognizerAutoWith', { label: t(RECOGNIZER_LABELS[recognizer.id]) })
+                                    : t('settings.recognizerAuto')}
+                            </option>
+                            {RECOGNIZERS.map(option => (
+                                <option key={option.id} value={option.id} disabled={!option.isSupported()}>
+                                    {option.isSupported()
+                                        ? t(RECOGNIZER_LABELS[option.id])
+                                        : t('settings.notSupported', { label: t(RECOGNIZER_LABELS[option.id]) })}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="settings-row">
+                        <span>{t('settings.dailyGoal')}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={dailyGoal}
+                            onChange={(event) => setDailyGoal(Math.max(1, Math.min(500, Number(event.target.value) || 1)))}
+                        />
+                    </label>
+                    <div className="settings-row">
+                        <span>{t('settings.classroom')}</span>
+                        <button
+                            type="button"
+                            className="link-btn"
+                            onClick={() => {
+                                setShowClassroom(true);
+                                setShowDashboard(false);
+                                handleStopDrill();
+                            }}
+                        >
+                            {t('settings.openClassroom')}
+                        </button>
+                    </div>
+                    <ReplayPanel
+                        replay={replay}
+                        onChange={(next) => {
+                            resetAttempt();
+                            setReplay(next);
+                        }}
+                    />
+                    <div className="settings-row">
+                        <span>{progress.isPersistent ? t('settings.history') : t('settings.historyNotSaved')}</span>
+                        <span className="settings-actions">
+                            <button type="button" className="link-btn" onClick={() => void progress.exportProgress()}>{t('settings.export')}</button>
+                            <button type="button" className="link-btn danger" onClick={handleResetProgress}>{t('settings.reset')}</button>
+                        </span>
+                    </div>
+                </details>
             </main>
         </div>
     );
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { alignWords, detectSibilantSwap, isAlignmentCorrect, isSameWord, soundsAlike } from './alignment';
+
+describe('alignWords', () => {
+    it('marks a word-for-word match as correct, ignoring case and punctuation', () => {
+        const alignment = alignWords('She sells seashells.', 'she sells seashells');
+        expect(alignment.map(word => word.status)).toEqual(['correct', 'correct', 'correct']);
+        expect(alignment[2]).toEqual({ status: 'correct', target: 'seashells.', heard: 'seashells', swap: null });
+        expect(isAlignmentCorrect(alignment)).toBe(true);
+    });
+
+    it('merges a compound the recognizer split in two', () => {
+        const alignment = alignWords('She sells seashells', 'she sells sea shells');
+        expect(alignment).toHaveLength(3);
+        expect(alignment[2]).toEqual({ status: 'correct', target: 'seashells', heard: 'sea shells', swap: null });
+    });
+
+    it('pairs an s/sh swap with its target word and says which way it went', () => {
+        const alignment = alignWords('She sells seashells', 'she shells seashells');
+        expect(alignment[1]).toEqual({ status: 'substituted', target: 'sells', heard: 'shells', swap: 's-to-sh' });
+        expect(isAlignmentCorrect(alignment)).toBe(false);
+
+        expect(alignWords('She sells', 'see sells')[0]).toMatchObject({ status: 'substituted', swap: 'sh-to-s' });
+    });
+
+    it('reports missing and extra words', () => {
+        expect(alignWords('She sells seashells', 'she seashells')).toEqual([
+            { status: 'correct', target: 'She', heard: 'she', swap: null },
+            { status: 'missing', target: 'sells', heard: null, swap: null },
+            { status: 'correct', target: 'seashells', heard: 'seashells', swap: null },
+        ]);
+        expect(alignWords('She sells', 'she really sells')).toEqual([
+            { status: 'correct', target: 'She', heard: 'she', swap: null },
+            { status: 'extra', target: null, heard: 'really', swap: null },
+            { status: 'correct', target: 'sells', heard: 'sells', swap: null },
+        ]);
+    });
+
+    it('marks every word missing when nothing was heard', () => {
+        expect(alignWords('She sells', '').map(word => word.status)).toEqual(['missing', 'missing']);
+        expect(alignWords('She sells', '  ?! ').map(word => word.status)).toEqual(['missing', 'missing']);
+        expect(alignWords('', '')).toEqual([]);
+    });
+
+    it('counts homophones as correct', () => {
+        expect(alignWords('She sells by the sea', 'she cells buy the see').every(word => word.status === 'correct')).toBe(true);
+    });
+});
+
+describe('the sound key', () => {
+    it('tells sibilants apart', () => {
+        expect(soundsAlike('sea', 'she')).toBe(false);
+        expect(soundsAlike('save', 'shave')).toBe(false);
+        expect(detectSibilantSwap('save', 'shave')).toBe('s-to-sh');
+        expect(detectSibilantSwap('ship', 'sip')).toBe('sh-to-s');
+    });
+
+    it('hears soft c as s and ignores doubled letters and a silent e', () => {
+        expect(soundsAlike('cells', 'sells')).toBe(true);
+        expect(soundsAlike('sell', 'sel')).toBe(true);
+        expect(soundsAlike('shave', 'shav')).toBe(true);
+    });
+
+    // Deliberate: the drills grade the fricative, and spelling cannot tell
+    // vowel homophones from vowel mistakes, so all vowels share one sound.
+    it('does not tell vowels apart', () => {
+        expect(soundsAlike('sit', 'sat')).toBe(true);
+        expect(isSameWord('sat', 'sit')).toBe(true);
+        expect(alignWords('sit', 'sat')[0].status).toBe('correct');
+    });
+
+    it('is not a swap when anything besides the sibilant differs', () => {
+        expect(detectSibilantSwap('sells', 'shelves')).toBeNull();
+        expect(detectSibilantSwap('sea', 'sea')).toBeNull();
+        expect(detectSibilantSwap('sash', 'shas')).toBeNull();
+    });
+});
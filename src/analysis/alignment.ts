@@ -0,0 +1,179 @@
+// Word-level alignment between a target sentence and what the recognizer
+// heard: a weighted edit distance over normalized tokens, with a
+// deterministic traceback so the same input always gives the same colors.
+
+export type AlignmentStatus = 'correct' | 'substituted' | 'missing' | 'extra';
+
+// Which way a sibilant went wrong: 's-to-sh' means the target had /s/ and
+// the learner produced /ʃ/ ("sells" heard as "shells").
+export type SibilantSwap = 's-to-sh' | 'sh-to-s';
+
+export type AlignedWord = {
+    status: AlignmentStatus;
+    // The target word as written (with punctuation); null for extra words.
+    target: string | null;
+    // What the recognizer heard; null for missing words.
+    heard: string | null;
+    swap: SibilantSwap | null;
+};
+
+type Token = {
+    display: string;
+    normalized: string;
+};
+
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9']/g, '');
+
+export const tokenize = (text: string): Token[] =>
+    text.split(/\s+/)
+        .map(display => ({ display, normalized: normalizeWord(display) }))
+        .filter(token => token.normalized !== '');
+
+// Rough spelling-to-sound key: "sh" and soft "c" become sibilants, doubled
+// letters and vowel groups collapse, silent final "e" is dropped. Enough to
+// see that "sea"/"she" or "save"/"shave" differ only in the fricative, and
+// that "cells"/"sells" or "by"/"buy" sound the same. Vowels are not told
+// apart at all, so "sit" and "sat" share a key: the drills grade the
+// fricative, and spelling cannot separate vowel homophones ("sea"/"see")
+// from vowel mistakes.
+const soundKey = (word: string) =>
+    word
+        .replace(/([aeiouy][^aeiouy]+)e$/, '$1')
+        .replace(/sh/g, 'ʃ')
+        .replace(/c(?=[eiy])/g, 's')
+        .replace(/(.)\1+/g, '$1')
+        .replace(/[aeiouy]+/g, 'V');
+
+export const soundsAlike = (a: string, b: string) => soundKey(normalizeWord(a)) === soundKey(normalizeWord(b));
+
+// Whether a transcript is the target word, allowing for homophones ("see" for "sea").
+export const isSameWord = (transcript: string, word: string) =>
+    normalizeWord(transcript) === normalizeWord(word) || soundsAlike(transcript, word);
+
+export const detectSibilantSwap = (target: string, heard: string): SibilantSwap | null => {
+    const targetKey = soundKey(normalizeWord(target));
+    const heardKey = soundKey(normalizeWord(heard));
+    if (targetKey === heardKey || targetKey.length !== heardKey.length) {
+        return null;
+    }
+    let swap: SibilantSwap | null = null;
+    for (let i = 0; i < targetKey.length; i++) {
+        if (targetKey[i] === heardKey[i]) {
+            continue;
+        }
+        const direction = targetKey[i] === 's' && heardKey[i] === 'ʃ' ? 's-to-sh'
+            : targetKey[i] === 'ʃ' && heardKey[i] === 's' ? 'sh-to-s'
+            : null;
+        // Any other difference means this is not a pure sibilant swap.
+        if (!direction || (swap && swap !== direction)) {
+            return null;
+        }
+        swap = direction;
+    }
+    return swap;
+};
+
+const levenshtein = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+};
+
+const GAP_COST = 1;
+
+// Similar-looking words are cheap to substitute, so "sells"/"shells" pair up
+// instead of becoming a missing word plus an extra one.
+const substitutionCost = (target: string, heard: string) => {
+    if (target === heard) {
+        return 0;
+    }
+    if (soundsAlike(target, heard)) {
+        return 0.25;
+    }
+    if (detectSibilantSwap(target, heard)) {
+        return 0.5;
+    }
+    return 0.75 + levenshtein(target, heard) / Math.max(target.length, heard.length);
+};
+
+type Step = 'diagonal' | 'merge' | 'missing' | 'extra';
+
+export const alignWords = (targetText: string, transcript: string): AlignedWord[] => {
+    const target = tokenize(targetText);
+    const heard = tokenize(transcript);
+    const rows = target.length + 1;
+    const columns = heard.length + 1;
+    const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(columns).fill(Infinity));
+    const step: (Step | null)[][] = Array.from({ length: rows }, () => new Array<Step | null>(columns).fill(null));
+    cost[0][0] = 0;
+
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < columns; j++) {
+            // Candidates in tie-break order.
+            const options: [Step, number][] = [];
+            if (i > 0 && j > 0) {
+                options.push(['diagonal', cost[i - 1][j - 1] + substitutionCost(target[i - 1].normalized, heard[j - 1].normalized)]);
+            }
+            // Recognizers often split compounds: "seashells" -> "sea shells".
+            if (i > 0 && j > 1 && heard[j - 2].normalized + heard[j - 1].normalized === target[i - 1].normalized) {
+                options.push(['merge', cost[i - 1][j - 2]]);
+            }
+            if (i > 0) {
+                options.push(['missing', cost[i - 1][j] + GAP_COST]);
+            }
+            if (j > 0) {
+                options.push(['extra', cost[i][j - 1] + GAP_COST]);
+            }
+            for (const [kind, value] of options) {
+                if (value < cost[i][j]) {
+                    cost[i][j] = value;
+                    step[i][j] = kind;
+                }
+            }
+        }
+    }
+
+    const aligned: AlignedWord[] = [];
+    let i = target.length;
+    let j = heard.length;
+    while (i > 0 || j > 0) {
+        switch (step[i][j]) {
+            case 'diagonal': {
+                // Homophones count as correct: the recognizer, not the learner, picked the spelling.
+                const isMatch = soundsAlike(target[i - 1].normalized, heard[j - 1].normalized);
+                aligned.push({
+                    status: isMatch ? 'correct' : 'substituted',
+                    target: target[i - 1].display,
+                    heard: heard[j - 1].display,
+                    swap: isMatch ? null : detectSibilantSwap(target[i - 1].normalized, heard[j - 1].normalized),
+                });
+                i--;
+                j--;
+                break;
+            }
+            case 'merge':
+                aligned.push({ status: 'correct', target: target[i - 1].display, heard: `${heard[j - 2].display} ${heard[j - 1].display}`, swap: null });
+                i--;
+                j -= 2;
+                break;
+            case 'missing':
+                aligned.push({ status: 'missing', target: target[i - 1].display, heard: null, swap: null });
+                i--;
+                break;
+            default:
+                aligned.push({ status: 'extra', target: null, heard: heard[j - 1].display, swap: null });
+                j--;
+        }
+    }
+    return aligned.reverse();
+};
+
+export const isAlignmentCorrect = (alignment: AlignedWord[]) => alignment.every(word => word.status === 'correct');
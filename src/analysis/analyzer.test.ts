@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '../api/http';
+import type { AnalyzeRequest } from '../api/analyze';
+import { analyzeAttempt } from './analyzer';
+
+const body: AnalyzeRequest = {
+    targetWord: 'sea',
+    targetIpa: '/siː/',
+    contrast: { a: '/s/', b: '/ʃ/' },
+    transcript: 'she',
+    alternatives: [{ transcript: 'she', confidence: 0.9 }],
+};
+
+const context = { targetSymbol: 's', pair: { word: 'she', symbol: 'ʃ' } };
+
+const verdict = { isCorrect: false, feedback: 'It sounded like "she".', tip: 'Keep the tongue forward.', model: 'mock' };
+
+// Answers with each reply in turn; an Error is thrown instead of returned.
+const scriptedRequest = (...replies: unknown[]) =>
+    vi.fn(async (_body: AnalyzeRequest, _init?: RequestInit) => {
+        const reply = replies.shift();
+        if (reply instanceof Error) {
+            throw reply;
+        }
+        return reply;
+    });
+
+describe('analyzeAttempt', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('returns the AI verdict with the model that gave it', async () => {
+        const request = scriptedRequest(verdict);
+        const outcome = await analyzeAttempt(body, context, { request });
+        expect(outcome).toMatchObject({ source: 'ai', model: 'mock', feedback: { isCorrect: false } });
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the rules without retrying when the server gave up', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const request = scriptedRequest(new ApiError('All models failed.', 502, 'model_unavailable'), verdict);
+        const outcome = await analyzeAttempt(body, context, { request, backoffMs: 0 });
+        expect(outcome.source).toBe('rules');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a request that never reached the server', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const request = scriptedRequest(new TypeError('Failed to fetch'), verdict);
+        const outcome = await analyzeAttempt(body, context, { request, backoffMs: 0 });
+        expect(outcome.source).toBe('ai');
+        expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry after timing out', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const request = vi.fn((_body: AnalyzeRequest, init?: RequestInit) => new Promise((_, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+        const pending = analyzeAttempt(body, context, { request });
+        await vi.advanceTimersByTimeAsync(39999);
+        expect(request.mock.calls[0][1]?.signal?.aborted).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await pending).source).toBe('rules');
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects when the caller cancels', async () => {
+        const controller = new AbortController();
+        const request = vi.fn((_body: AnalyzeRequest, init?: RequestInit) => new Promise((_, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+        const pending = analyzeAttempt(body, context, { request, signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,118 @@
+import { ApiError } from '../api/http';
+import { requestAnalysis, type AnalyzeRequest } from '../api/analyze';
+import { parseFeedback, type Feedback, type FeedbackSource } from './feedback';
+import { evaluateWithRules, type RuleContext } from './ruleEngine';
+
+// Gets feedback for one attempt: the AI coach with a per-request timeout,
+// falling back to the local rule engine when the AI can't answer. Retrying
+// the models is the server's job (see api/_lib/generate.js); this side only
+// repeats a request that never reached the server. Only cancellation by the
+// caller rejects.
+
+export type AnalysisOutcome = {
+    feedback: Feedback;
+    source: FeedbackSource;
+    // The server model that answered, when the source is 'ai'.
+    model: string | null;
+};
+
+export type AnalyzeOptions = {
+    // Aborting rejects with an AbortError, e.g. when the learner moves on.
+    signal?: AbortSignal;
+    // Requests in total; only one that never reached the server is repeated.
+    attempts?: number;
+    timeoutMs?: number;
+    backoffMs?: number;
+    request?: typeof requestAnalysis;
+};
+
+const abortError = () => new DOMException('The analysis was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Any answer from the server, a 502 included, comes after its own retries
+// and model fallback, and a timeout means the server is still busy with
+// them; asking again would only multiply the model calls.
+const isRetryable = (error: unknown) => !(error instanceof ApiError) && !isAbortError(error);
+
+// Longer than the server's worst case: two attempts on each of two models,
+// 8 s apiece, plus backoff, about 33 s.
+const DEFAULT_TIMEOUT_MS = 40000;
+
+// Calls one request with its own timeout, linked to the caller's signal.
+const requestWithTimeout = async (
+    request: typeof requestAnalysis,
+    body: AnalyzeRequest,
+    timeoutMs: number,
+    signal?: AbortSignal,
+) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        return await request(body, { signal: controller.signal });
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+export const analyzeAttempt = async (
+    body: AnalyzeRequest,
+    context: RuleContext,
+    {
+        signal,
+        attempts = 2,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        backoffMs = 500,
+        request = requestAnalysis,
+    }: AnalyzeOptions = {},
+): Promise<AnalysisOutcome> => {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        if (attempt > 0) {
+            // Exponential backoff with jitter: ~0.5s, ~1s, ...
+            await sleep(backoffMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+        }
+        try {
+            const response = await requestWithTimeout(request, body, timeoutMs, signal);
+            const feedback = parseFeedback(response);
+            if (feedback) {
+                const model = (response as { model?: unknown }).model;
+                return { feedback, source: 'ai', model: typeof model === 'string' ? model : null };
+            }
+            // The server validates the model's answer, so this won't improve on a retry.
+            console.warn('Discarding malformed feedback:', response);
+            break;
+        } catch (error) {
+            if (signal?.aborted) {
+                throw abortError();
+            }
+            if (!isRetryable(error)) {
+                console.warn('AI feedback unavailable:', error);
+                break;
+            }
+            console.warn(`AI feedback attempt ${attempt + 1} failed:`, error);
+        }
+    }
+    if (signal?.aborted) {
+        throw abortError();
+    }
+    return { feedback: evaluateWithRules(body, context), source: 'rules', model: null };
+};
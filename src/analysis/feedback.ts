@@ -0,0 +1,24 @@
+export type Feedback = {
+    isCorrect: boolean;
+    feedback: string;
+    tip: string;
+};
+
+// 'ai' when the model answered, 'rules' when the local rule engine stood in.
+export type FeedbackSource = 'ai' | 'rules';
+
+const isText = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim() !== '' && value.length <= 1000;
+
+// Runtime check of anything claiming to be Feedback; returns null if the
+// shape is wrong so callers never render half a verdict.
+export const parseFeedback = (value: unknown): Feedback | null => {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+    const { isCorrect, feedback, tip } = value as Record<string, unknown>;
+    if (typeof isCorrect !== 'boolean' || !isText(feedback) || !isText(tip)) {
+        return null;
+    }
+    return { isCorrect, feedback: feedback.trim(), tip: tip.trim() };
+};
@@ -0,0 +1,121 @@
+import type { AnalyzeRequest } from '../api/analyze';
+import { isSameWord, type AlignedWord } from './alignment';
+import { createTranslator } from '../i18n/translate';
+import type { MessageKey, Translate } from '../i18n/types';
+import type { Feedback } from './feedback';
+
+// Deterministic stand-in for the AI coach: compares what the recognizer heard
+// with the target word and, for pair items, its contrasting partner. Used
+// when the model is unavailable so the learner still gets a verdict.
+
+export type RuleContext = {
+    // IPA symbol of the sound the learner is aiming for, e.g. 's' or 'ʃ'.
+    targetSymbol: string | null;
+    // The other word of a minimal pair and its sound; null for sentences.
+    pair: { word: string; symbol: string } | null;
+};
+
+// How an alternative must compare to the best one to count as "almost heard".
+const CLOSE_SECOND_RATIO = 0.7;
+
+const ARTICULATION_TIPS: Record<string, MessageKey> = {
+    's': 'rules.tip.s',
+    'ʃ': 'rules.tip.sh',
+    'r': 'rules.tip.r',
+    'l': 'rules.tip.l',
+    'b': 'rules.tip.b',
+    'v': 'rules.tip.v',
+    'θ': 'rules.tip.th',
+};
+
+export const articulationTip = (t: Translate, symbol: string | null) =>
+    t((symbol && ARTICULATION_TIPS[symbol]) || 'rules.tip.generic');
+
+const tipForSwap = (t: Translate, word: AlignedWord) =>
+    articulationTip(t, word.swap === 's-to-sh' ? 's' : word.swap === 'sh-to-s' ? 'ʃ' : null);
+
+const evaluateSentence = (alignment: AlignedWord[], t: Translate): Feedback => {
+    const problems = alignment.filter(word => word.status !== 'correct');
+    if (problems.length === 0) {
+        return {
+            isCorrect: true,
+            feedback: t('rules.sentence.correct'),
+            tip: t('rules.sentence.correctTip'),
+        };
+    }
+    const described = problems.slice(0, 3).map(word =>
+        word.status === 'missing' ? t('rules.sentence.missing', { word: word.target ?? '' })
+        : word.status === 'extra' ? t('rules.sentence.extra', { word: word.heard ?? '' })
+        : t('rules.sentence.substituted', { target: word.target ?? '', heard: word.heard ?? '' }));
+    const swap = problems.find(word => word.swap);
+    return {
+        isCorrect: false,
+        feedback: t('rules.sentence.problems', { problems: described.join(t('rules.sentence.separator')) }),
+        tip: swap ? tipForSwap(t, swap) : t('rules.sentence.tip'),
+    };
+};
+
+const evaluatePair = (request: AnalyzeRequest, context: RuleContext, t: Translate): Feedback => {
+    const { targetWord, alternatives, acoustic } = request;
+    const tip = articulationTip(t, context.targetSymbol);
+    const best = alternatives[0];
+    const heard = best?.transcript.trim() ?? '';
+    if (heard === '') {
+        return {
+            isCorrect: false,
+            feedback: t('rules.pair.nothingHeard', { word: targetWord }),
+            tip,
+        };
+    }
+
+    const other = context.pair;
+
+    if (isSameWord(heard, targetWord)) {
+        if (acoustic && acoustic.verdict !== 'unclear' && acoustic.verdict !== acoustic.expected) {
+            const label = acoustic.verdict === 's' ? '/s/' : '/ʃ/';
+            return {
+                isCorrect: false,
+                feedback: t('rules.pair.acousticMismatch', { heard, sound: label }),
+                tip,
+            };
+        }
+        const runnerUp = other && alternatives.slice(1).find(alternative => isSameWord(alternative.transcript, other.word));
+        const isClose = runnerUp && (runnerUp.confidence === null || best.confidence === null
+            || runnerUp.confidence >= best.confidence * CLOSE_SECOND_RATIO);
+        if (other && isClose) {
+            return {
+                isCorrect: true,
+                feedback: t('rules.pair.closeSecond', { word: targetWord, other: other.word }),
+                tip,
+            };
+        }
+        return {
+            isCorrect: true,
+            feedback: t('rules.pair.clear', { word: targetWord }),
+            tip: t('rules.pair.clearTip'),
+        };
+    }
+
+    if (other && isSameWord(heard, other.word)) {
+        return {
+            isCorrect: false,
+            feedback: t('rules.pair.soundedLikeOther', { word: targetWord, other: other.word, symbol: other.symbol }),
+            tip,
+        };
+    }
+
+    const isRunnerUp = alternatives.slice(1).some(alternative => isSameWord(alternative.transcript, targetWord));
+    return {
+        isCorrect: false,
+        feedback: isRunnerUp
+            ? t('rules.pair.runnerUp', { heard, word: targetWord })
+            : t('rules.pair.heardInstead', { heard, word: targetWord }),
+        tip,
+    };
+};
+
+// Answers in the request's feedback language, like the AI coach would.
+export const evaluateWithRules = (request: AnalyzeRequest, context: RuleContext): Feedback => {
+    const t = createTranslator(request.feedbackLanguage ?? 'en');
+    return request.wordAlignment ? evaluateSentence(request.wordAlignment, t) : evaluatePair(request, context, t);
+};
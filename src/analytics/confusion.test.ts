@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { PracticeItem } from '../lessons';
+import type { Attempt, SoundEvent } from '../progress/types';
+import { buildConfusionMatrix, classifyAttempt, contextBreakdown, dailyAccuracy, segmentIpa, soundEventRows } from './confusion';
+
+const contrast = { a: { symbol: 's', label: '/s/' }, b: { symbol: 'ʃ', label: '/ʃ/' } };
+
+const seaShe: PracticeItem = {
+    type: 'pair',
+    id: 'sea-she',
+    tags: [],
+    translation: '',
+    a: { word: 'sea', ipa: '/siː/' },
+    b: { word: 'she', ipa: '/ʃiː/' },
+};
+
+const classify = (targetWord: string, transcript: string) => classifyAttempt({ contrast, item: seaShe, targetWord, transcript });
+
+describe('segmentIpa', () => {
+    it('keeps affricates, diphthongs and long vowels whole', () => {
+        expect(segmentIpa('/ˈtʃiːz/')).toEqual(['tʃ', 'iː', 'z']);
+        expect(segmentIpa('/ʃeɪv/')).toEqual(['ʃ', 'eɪ', 'v']);
+    });
+});
+
+describe('classifyAttempt', () => {
+    it('records the intended sound as produced when the word was right', () => {
+        expect(classify('sea', 'see')).toEqual([{ intended: 's', produced: 's', following: 'iː', position: 'initial' }]);
+    });
+
+    it('records the other sound when the learner said the other word', () => {
+        expect(classify('sea', 'she')).toEqual([{ intended: 's', produced: 'ʃ', following: 'iː', position: 'initial' }]);
+        expect(classify('she', 'sea')[0]).toMatchObject({ intended: 'ʃ', produced: 's' });
+    });
+
+    it('leaves the sound unclear when neither word was heard', () => {
+        expect(classify('sea', 'tea')[0].produced).toBeNull();
+    });
+
+    it('uses the word alignment for sentences', () => {
+        const item: PracticeItem = { type: 'sentence', id: 'shells', tags: [], translation: '', text: 'She sells', ipa: '/ʃiː selz/' };
+        const events = classifyAttempt({ contrast, item, targetWord: 'She sells', transcript: 'she shells' });
+        expect(events.map(event => [event.intended, event.produced])).toEqual([['ʃ', 'ʃ'], ['s', 'ʃ']]);
+    });
+});
+
+describe('aggregation', () => {
+    const events: SoundEvent[] = [
+        { intended: 's', produced: 's', following: 'iː', position: 'initial' },
+        { intended: 's', produced: 'ʃ', following: 'iː', position: 'initial' },
+        { intended: 's', produced: null, following: 'vowel', position: 'final' },
+        { intended: 'ʃ', produced: 'ʃ', following: 'consonant', position: 'medial' },
+        { intended: 'r', produced: 'l', following: 'vowel', position: 'initial' },
+    ];
+
+    it('counts intended against produced, with unheard sounds as unclear', () => {
+        expect(buildConfusionMatrix(events, contrast)).toEqual({
+            symbols: ['s', 'ʃ'],
+            counts: {
+                s: { s: 1, ʃ: 1, unclear: 1 },
+                ʃ: { s: 0, ʃ: 1, unclear: 0 },
+            },
+        });
+    });
+
+    it('breaks accuracy down by context', () => {
+        const rows = Object.fromEntries(contextBreakdown(events, 's').map(row => [row.context, [row.correct, row.total]]));
+        expect(rows).toEqual({
+            beforeIy: [1, 2],
+            beforeVowel: [0, 1],
+            beforeConsonant: [0, 0],
+            initial: [1, 2],
+            medial: [0, 0],
+            final: [0, 1],
+        });
+    });
+
+    it('buckets attempts by calendar day, oldest first', () => {
+        const now = new Date(2026, 3, 10, 15).getTime();
+        const attempt = (day: number, isCorrect: boolean): Attempt => ({
+            packId: 's-sh', itemId: 'sea-she', targetWord: 'sea', transcript: 'sea', isCorrect, timestamp: new Date(2026, 3, day, 9).getTime(),
+        });
+        const days = dailyAccuracy([attempt(10, true), attempt(10, false), attempt(8, true), attempt(1, true)], 3, now);
+        expect(days.map(({ correct, total }) => [correct, total])).toEqual([[1, 1], [0, 0], [1, 2]]);
+        expect(days[0].day).toBe(new Date(2026, 3, 8).getTime());
+    });
+
+    it('writes one export row per sound event', () => {
+        const attempt: Attempt = {
+            packId: 's-sh', itemId: 'sea-she', targetWord: 'sea', transcript: 'she', isCorrect: false, timestamp: Date.UTC(2026, 3, 1),
+            sounds: [{ intended: 's', produced: null, following: 'iː', position: 'initial' }],
+        };
+        expect(soundEventRows([attempt, { ...attempt, sounds: undefined }])).toEqual([
+            ['2026-04-01T00:00:00.000Z', 's-sh', 'sea-she', 'sea', 'she', false, 's', '', 'iː', 'initial'],
+        ]);
+    });
+});
@@ -0,0 +1,171 @@
+import { alignWords, isSameWord, type AlignedWord } from '../analysis/alignment';
+import { ipaFor, type Contrast, type PracticeItem } from '../lessons';
+import type { Attempt, SoundEvent } from '../progress/types';
+import { ipaForAccent, transcribeWord, type Accent } from '../pronunciation';
+
+// Turns attempts into per-sound events (intended vs produced, with context)
+// and aggregates them for the dashboard. Pure functions throughout.
+
+// Affricates and diphthongs (American and British) are single segments, so
+// the ʃ of /tʃ/ never counts as a /ʃ/.
+const SEGMENT = /tʃ|dʒ|aɪ|aʊ|eɪ|oʊ|əʊ|ɔɪ|ɪə|eə|ʊə|.ː?/gu;
+const VOWEL_START = /^[aeiouæɑɒəɛɜɪɔʊʌɐ]/;
+
+export const segmentIpa = (ipa: string) => ipa.replace(/[/ˈˌ.\s]/g, '').match(SEGMENT) ?? [];
+
+const followingContext = (segment: string | undefined): SoundEvent['following'] =>
+    segment === undefined ? 'none'
+    : segment.startsWith('i') ? 'iː'
+    : VOWEL_START.test(segment) ? 'vowel'
+    : 'consonant';
+
+// Every occurrence of the contrast's two sounds in one word's IPA.
+const soundsIn = (ipa: string, symbols: string[]) => {
+    const segments = segmentIpa(ipa);
+    return segments.flatMap((segment, index) => (symbols.includes(segment)
+        ? [{
+            symbol: segment,
+            following: followingContext(segments[index + 1]),
+            position: index === 0 ? 'initial' as const : index === segments.length - 1 ? 'final' as const : 'medial' as const,
+        }]
+        : []));
+};
+
+const SWAP_FROM: Record<string, string> = { 's-to-sh': 's', 'sh-to-s': 'ʃ' };
+
+// For sentences the word alignment says what happened to each word. A swap
+// only moves the sound it names; the word's other sounds came out fine.
+const sentenceEvents = (alignment: AlignedWord[], contrast: Contrast, accent: Accent): SoundEvent[] => {
+    const symbols = [contrast.a.symbol, contrast.b.symbol];
+    return alignment.flatMap(word => {
+        if (word.target === null) {
+            return [];
+        }
+        return soundsIn(ipaForAccent(transcribeWord(word.target), accent), symbols).map(({ symbol, following, position }) => {
+            const other = symbol === contrast.a.symbol ? contrast.b.symbol : contrast.a.symbol;
+            const produced = word.status === 'correct' ? symbol
+                : word.swap ? (SWAP_FROM[word.swap] === symbol ? other : symbol)
+                : null;
+            return { intended: symbol, produced, following, position };
+        });
+    });
+};
+
+export type ClassifyInput = {
+    contrast: Contrast;
+    item: PracticeItem;
+    targetWord: string;
+    transcript: string;
+    // Reused when the caller already aligned a sentence.
+    alignment?: AlignedWord[] | null;
+    // Which transcription counts as the target; American when omitted.
+    accent?: Accent;
+};
+
+export const classifyAttempt = ({ contrast, item, targetWord, transcript, alignment, accent = 'en-US' }: ClassifyInput): SoundEvent[] => {
+    if (item.type === 'sentence') {
+        return sentenceEvents(alignment ?? alignWords(item.text, transcript), contrast, accent);
+    }
+    const side = item.a.word === targetWord ? 'a' : 'b';
+    const otherSide = side === 'a' ? 'b' : 'a';
+    const intended = contrast[side].symbol;
+    const produced = isSameWord(transcript, item[side].word) ? intended
+        : isSameWord(transcript, item[otherSide].word) ? contrast[otherSide].symbol
+        : null;
+    return soundsIn(ipaFor(item[side], accent), [intended]).map(({ following, position }) => ({ intended, produced, following, position }));
+};
+
+export type ConfusionMatrix = {
+    symbols: [string, string];
+    // counts[intended][produced]; 'unclear' collects produced === null.
+    counts: Record<string, Record<string, number>>;
+};
+
+export const buildConfusionMatrix = (events: SoundEvent[], contrast: Contrast): ConfusionMatrix => {
+    const symbols: [string, string] = [contrast.a.symbol, contrast.b.symbol];
+    const counts: ConfusionMatrix['counts'] = {};
+    for (const intended of symbols) {
+        counts[intended] = { [symbols[0]]: 0, [symbols[1]]: 0, unclear: 0 };
+    }
+    for (const event of events) {
+        const row = counts[event.intended];
+        if (!row) {
+            continue;
+        }
+        const column = event.produced !== null && event.produced in row ? event.produced : 'unclear';
+        row[column]++;
+    }
+    return { symbols, counts };
+};
+
+export type ContextId = 'beforeIy' | 'beforeVowel' | 'beforeConsonant' | 'initial' | 'medial' | 'final';
+
+export type ContextRow = {
+    context: ContextId;
+    correct: number;
+    total: number;
+};
+
+const CONTEXTS: { context: ContextId; test: (event: SoundEvent) => boolean }[] = [
+    { context: 'beforeIy', test: event => event.following === 'iː' },
+    { context: 'beforeVowel', test: event => event.following === 'vowel' },
+    { context: 'beforeConsonant', test: event => event.following === 'consonant' },
+    { context: 'initial', test: event => event.position === 'initial' },
+    { context: 'medial', test: event => event.position === 'medial' },
+    { context: 'final', test: event => event.position === 'final' },
+];
+
+// Accuracy per context for one intended sound.
+export const contextBreakdown = (events: SoundEvent[], intended: string): ContextRow[] =>
+    CONTEXTS.map(({ context, test }) => {
+        const matching = events.filter(event => event.intended === intended && test(event));
+        return { context, correct: matching.filter(event => event.produced === intended).length, total: matching.length };
+    });
+
+export type DailyAccuracy = {
+    // Local midnight, ms since epoch.
+    day: number;
+    correct: number;
+    total: number;
+};
+
+// One entry per calendar day, oldest first, including days with no attempts.
+export const dailyAccuracy = (attempts: Attempt[], days: number, now: number): DailyAccuracy[] => {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    const buckets = Array.from({ length: days }, (_, i) => {
+        const day = new Date(start);
+        day.setDate(start.getDate() - (days - 1 - i));
+        return { day: day.getTime(), correct: 0, total: 0 };
+    });
+    for (const attempt of attempts) {
+        const day = new Date(attempt.timestamp);
+        day.setHours(0, 0, 0, 0);
+        const bucket = buckets.find(candidate => candidate.day === day.getTime());
+        if (bucket) {
+            bucket.total++;
+            bucket.correct += attempt.isCorrect ? 1 : 0;
+        }
+    }
+    return buckets;
+};
+
+export const SOUND_EVENT_COLUMNS = [
+    'timestamp', 'packId', 'itemId', 'targetWord', 'transcript', 'attemptCorrect',
+    'intended', 'produced', 'following', 'position',
+];
+
+// One row per sound event, for the CSV export.
+export const soundEventRows = (attempts: Attempt[]): unknown[][] =>
+    attempts.flatMap(attempt => (attempt.sounds ?? []).map(event => [
+        new Date(attempt.timestamp).toISOString(),
+        attempt.packId,
+        attempt.itemId,
+        attempt.targetWord,
+        attempt.transcript,
+        attempt.isCorrect,
+        event.intended,
+        event.produced ?? '',
+        event.following,
+        event.position,
+    ]));
@@ -0,0 +1,33 @@
+import type { AlignedWord } from '../analysis/alignment';
+import type { FricativeAnalysis, Sibilant } from '../audio/fricative';
+import type { Locale } from '../i18n';
+import type { Accent } from '../pronunciation';
+import type { RecognitionAlternative } from '../recognition';
+import { postJson } from './http';
+
+export type AnalyzeRequest = {
+    targetWord: string;
+    targetIpa: string;
+    // Labels of the contrast being drilled, e.g. { a: '/r/', b: '/l/' }.
+    contrast: { a: string; b: string };
+    transcript: string;
+    alternatives: RecognitionAlternative[];
+    acoustic?: {
+        expected: Sibilant;
+        verdict: FricativeAnalysis['verdict'];
+        sScore: number;
+        spectralCentroid: number;
+        spectralPeak: number;
+    } | null;
+    // Per-word result for sentence items.
+    wordAlignment?: AlignedWord[] | null;
+    // Language of `feedback` and `tip`; English when omitted.
+    feedbackLanguage?: Locale;
+    // The variety the learner is aiming for; American when omitted.
+    accent?: Accent;
+};
+
+// The prompt, model call and JSON parsing all live in api/analyze.js. The
+// answer is untrusted until it passes parseFeedback.
+export const requestAnalysis = (request: AnalyzeRequest, init?: RequestInit) =>
+    postJson<unknown>('/api/analyze', request, init);
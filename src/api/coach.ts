@@ -0,0 +1,27 @@
+import type { Locale } from '../i18n';
+import type { Accent } from '../pronunciation';
+import { postJson } from './http';
+
+export type CoachRole = 'learner' | 'coach';
+
+export type CoachRequest = {
+    // The analyzed attempt the conversation is about.
+    attempt: {
+        targetWord: string;
+        targetIpa: string;
+        transcript: string;
+        isCorrect: boolean;
+        feedback: string;
+        tip: string;
+        contrast: { a: string; b: string };
+    };
+    // Recent turns, oldest first, ending with the learner's question.
+    messages: { role: CoachRole; text: string }[];
+    feedbackLanguage?: Locale;
+    accent?: Accent;
+};
+
+// Prompting and model calls live in api/coach.js. The answer is untrusted
+// until it passes parseCoachReply.
+export const requestCoachReply = (request: CoachRequest, init?: RequestInit) =>
+    postJson<unknown>('/api/coach', request, init);
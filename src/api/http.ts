@@ -0,0 +1,33 @@
+// Thin fetch wrapper for the serverless routes in /api. Errors come back as
+// { error: { code, message } } and are rethrown as ApiError.
+
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly code: string,
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+export const postJson = async <T>(path: string, body: unknown, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(path, {
+        ...init,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+        body: JSON.stringify(body),
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        const error = payload?.error;
+        throw new ApiError(
+            typeof error?.message === 'string' ? error.message : `Request failed with status ${response.status}.`,
+            response.status,
+            typeof error?.code === 'string' ? error.code : 'http_error',
+        );
+    }
+    return payload as T;
+};
@@ -0,0 +1,19 @@
+import type { Difficulty, WordPosition } from '../lessons/generated';
+import { postJson } from './http';
+
+export type PracticeSetRequest = {
+    contrast: { a: string; b: string };
+    difficulty: Difficulty;
+    position: WordPosition;
+    pairCount: number;
+    sentenceCount: number;
+    // Dictionary words the model should draw from, so its items can be checked.
+    vocabulary: string[];
+    // Words already drilled in pairs.
+    exclude?: string[];
+};
+
+// Prompting and model calls live in api/practice-set.js. Every returned item
+// is untrusted until it passes checkGeneratedSet.
+export const requestPracticeSet = (request: PracticeSetRequest, init?: RequestInit) =>
+    postJson<unknown>('/api/practice-set', request, init);
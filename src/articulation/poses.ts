@@ -0,0 +1,117 @@
+import type { Sibilant } from '../audio/fricative';
+
+// Side-view (sagittal) articulation diagrams as numbers: each sound is a pose
+// of a few control points, so two sounds can be blended for animation and
+// drawn as SVG paths. The head faces left in a 260×160 view box; the front
+// view inset sits on the right.
+
+export type ArticulationSound = Sibilant | 'ja-su' | 'ja-shi';
+
+type Point = { x: number; y: number };
+
+export type ArticulationPose = {
+    tip: Point;
+    // Top of the tongue blade, just behind the tip.
+    blade: Point;
+    dorsum: Point;
+    // Where the airstream is narrowest.
+    constriction: Point;
+    // How far the lips push forward.
+    protrusion: number;
+    // Vertical opening between the lips.
+    lipGap: number;
+    // 0 = spread, 1 = fully rounded (front view).
+    rounding: number;
+    // Width of the central tongue groove, 0–1 (front view).
+    groove: number;
+};
+
+export const POSES: Record<ArticulationSound, ArticulationPose> = {
+    // Tip up at the alveolar ridge, narrow groove, spread lips.
+    s: {
+        tip: { x: 47, y: 70 }, blade: { x: 66, y: 76 }, dorsum: { x: 112, y: 70 }, constriction: { x: 47, y: 66 },
+        protrusion: 0, lipGap: 6, rounding: 0, groove: 0.2,
+    },
+    // Tip a little lower and back, blade domed behind the ridge, rounded lips.
+    sh: {
+        tip: { x: 53, y: 78 }, blade: { x: 68, y: 62 }, dorsum: { x: 110, y: 64 }, constriction: { x: 62, y: 57 },
+        protrusion: 9, lipGap: 9, rounding: 1, groove: 0.55,
+    },
+    // Japanese す: tongue close to English /s/, lips compressed rather than spread.
+    'ja-su': {
+        tip: { x: 48, y: 71 }, blade: { x: 66, y: 75 }, dorsum: { x: 112, y: 66 }, constriction: { x: 48, y: 67 },
+        protrusion: 2, lipGap: 4, rounding: 0.2, groove: 0.3,
+    },
+    // Japanese し: tip down behind the lower teeth, front of the tongue raised
+    // to the hard palate, spread lips.
+    'ja-shi': {
+        tip: { x: 48, y: 94 }, blade: { x: 74, y: 58 }, dorsum: { x: 108, y: 58 }, constriction: { x: 80, y: 53 },
+        protrusion: 0, lipGap: 6, rounding: 0, groove: 0.75,
+    },
+};
+
+// The Japanese kana learners substitute for each English sibilant.
+export const JAPANESE_COUNTERPART: Record<Sibilant, ArticulationSound> = { s: 'ja-su', sh: 'ja-shi' };
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const lerpPoint = (a: Point, b: Point, t: number): Point => ({ x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) });
+
+// t = 0 gives `from`, t = 1 gives `to`.
+export const interpolatePose = (from: ArticulationPose, to: ArticulationPose, t: number): ArticulationPose => ({
+    tip: lerpPoint(from.tip, to.tip, t),
+    blade: lerpPoint(from.blade, to.blade, t),
+    dorsum: lerpPoint(from.dorsum, to.dorsum, t),
+    constriction: lerpPoint(from.constriction, to.constriction, t),
+    protrusion: lerp(from.protrusion, to.protrusion, t),
+    lipGap: lerp(from.lipGap, to.lipGap, t),
+    rounding: lerp(from.rounding, to.rounding, t),
+    groove: lerp(from.groove, to.groove, t),
+});
+
+export const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Template tag that rounds every interpolated number, keeping paths short.
+const path = (strings: TemplateStringsArray, ...values: number[]) =>
+    strings.reduce((result, part, i) => result + part + (i < values.length ? round(values[i]) : ''), '');
+
+// The parts of the head that don't move.
+export const STATIC_OUTLINE = {
+    palate: 'M 44 70 C 45 62, 52 58, 62 55 C 80 48, 115 44, 140 50 C 155 54, 165 62, 172 76',
+    pharynx: 'M 182 40 L 184 160',
+    upperTeeth: 'M 37 62 L 44 62 L 45 78 L 41 83 L 37 80 Z',
+    lowerTeeth: 'M 38 104 L 38 93 L 42 89 L 46 92 L 46 104 Z',
+    jaw: 'M 34 122 C 60 130, 120 138, 160 152',
+    nose: 'M 44 8 C 36 20, 26 34, 24 42 L 38 48',
+};
+
+// Mouth opening sits at this height between the teeth.
+const LIP_CENTRE_Y = 86;
+
+export const lipPaths = ({ protrusion, lipGap }: ArticulationPose) => ({
+    upper: path`M 40 50 C ${28 - protrusion} 52, ${20 - protrusion} 68, ${20 - protrusion} ${LIP_CENTRE_Y - lipGap / 2} L 36 ${LIP_CENTRE_Y - lipGap / 2} Z`,
+    lower: path`M 36 ${LIP_CENTRE_Y + lipGap / 2} L ${20 - protrusion} ${LIP_CENTRE_Y + lipGap / 2} C ${20 - protrusion} 102, ${28 - protrusion} 114, 40 118 Z`,
+});
+
+export const tonguePath = ({ tip, blade, dorsum }: ArticulationPose) =>
+    path`M 168 152 C 172 118, ${dorsum.x + 32} ${dorsum.y}, ${dorsum.x} ${dorsum.y} `
+    + path`C ${dorsum.x - 22} ${dorsum.y}, ${blade.x + 16} ${blade.y}, ${blade.x} ${blade.y} `
+    + path`Q ${tip.x + 5} ${tip.y - 3}, ${tip.x} ${tip.y} `
+    + path`Q ${tip.x + 2} ${tip.y + 16}, 62 120 L 72 152 Z`;
+
+// From the throat, over the tongue, through the constriction, down behind
+// the upper teeth and out past the lips.
+export const airflowPath = ({ dorsum, constriction, protrusion }: ArticulationPose) =>
+    path`M 170 108 Q ${dorsum.x} ${dorsum.y - 9}, ${constriction.x} ${constriction.y} `
+    + path`Q 48 74, 42 ${LIP_CENTRE_Y} L ${6 - protrusion} ${LIP_CENTRE_Y}`;
+
+const FRONT_X = 228;
+
+// Front view: the lip opening and a cross-section of the tongue groove.
+export const frontView = ({ rounding, lipGap, groove }: ArticulationPose) => ({
+    lips: { cx: FRONT_X, cy: 44, rx: lerp(20, 10, rounding), ry: lerp(3, 8, rounding) + lipGap / 4 },
+    groove: path`M ${FRONT_X - 24} 116 Q ${FRONT_X - 16} 104, ${FRONT_X - 3 - groove * 10} 106 `
+        + path`Q ${FRONT_X} ${110 + groove * 4}, ${FRONT_X + 3 + groove * 10} 106 `
+        + path`Q ${FRONT_X + 16} 104, ${FRONT_X + 24} 116`,
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { fft, nextPowerOfTwo, powerSpectrum } from './fft';
+
+describe('fft', () => {
+    it('rejects sizes that are not a power of two', () => {
+        expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow();
+    });
+
+    it('puts a pure tone in its bin', () => {
+        const size = 256;
+        const samples = Float32Array.from({ length: size }, (_, i) => Math.sin((2 * Math.PI * 32 * i) / size));
+        const spectrum = powerSpectrum(samples, 0, size);
+        expect(spectrum).toHaveLength(size / 2 + 1);
+        expect(spectrum.indexOf(Math.max(...spectrum))).toBe(32);
+    });
+});
+
+describe('nextPowerOfTwo', () => {
+    it('rounds up', () => {
+        expect(nextPowerOfTwo(441)).toBe(512);
+        expect(nextPowerOfTwo(512)).toBe(512);
+        expect(nextPowerOfTwo(0)).toBe(1);
+    });
+});
@@ -0,0 +1,79 @@
+// In-place iterative radix-2 FFT. `real` and `imag` must have the same
+// power-of-two length.
+export const fft = (real: Float64Array, imag: Float64Array) => {
+    const n = real.length;
+    if (n !== imag.length || (n & (n - 1)) !== 0) {
+        throw new Error('FFT size must be a power of two.');
+    }
+
+    // Bit-reversal permutation.
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        const stepReal = Math.cos(angle);
+        const stepImag = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let wReal = 1;
+            let wImag = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tReal = real[b] * wReal - imag[b] * wImag;
+                const tImag = real[b] * wImag + imag[b] * wReal;
+                real[b] = real[a] - tReal;
+                imag[b] = imag[a] - tImag;
+                real[a] += tReal;
+                imag[a] += tImag;
+                const nextReal = wReal * stepReal - wImag * stepImag;
+                wImag = wReal * stepImag + wImag * stepReal;
+                wReal = nextReal;
+            }
+        }
+    }
+};
+
+export const nextPowerOfTwo = (value: number) => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+const hannCache = new Map<number, Float64Array>();
+
+export const hannWindow = (size: number): Float64Array => {
+    let window = hannCache.get(size);
+    if (!window) {
+        window = new Float64Array(size);
+        for (let i = 0; i < size; i++) {
+            window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+        }
+        hannCache.set(size, window);
+    }
+    return window;
+};
+
+// Hann-windowed power spectrum of `samples[start, start + size)`, zero-padded
+// past the end of the input. Returns `size / 2 + 1` bins from DC to Nyquist.
+export const powerSpectrum = (samples: Float32Array, start: number, size: number): Float64Array => {
+    const window = hannWindow(size);
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+        const index = start + i;
+        real[i] = index < samples.length ? samples[index] * window[i] : 0;
+    }
+    fft(real, imag);
+
+    const bins = new Float64Array(size / 2 + 1);
+    for (let i = 0; i < bins.length; i++) {
+        bins[i] = real[i] * real[i] + imag[i] * imag[i];
+    }
+    return bins;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFricative, findFricativeSegment, scoreSibilant } from './fricative';
+import { bandNoise, SAMPLE_RATE, withSilence } from './testSignals';
+
+describe('analyzeFricative', () => {
+    it('classifies high-band noise as /s/', () => {
+        const result = analyzeFricative(withSilence(bandNoise(0.2, 5500, 9000)));
+        expect(result?.verdict).toBe('s');
+        expect(result?.features.spectralCentroid).toBeGreaterThan(5500);
+        expect(result?.sScore).toBeGreaterThan(0.65);
+    });
+
+    it('classifies lower-band noise as /ʃ/', () => {
+        const result = analyzeFricative(withSilence(bandNoise(0.2, 2500, 4200)));
+        expect(result?.verdict).toBe('sh');
+        expect(result?.features.spectralCentroid).toBeLessThan(4500);
+        expect(result?.sScore).toBeLessThan(0.35);
+    });
+
+    it('finds the fricative between the silences', () => {
+        const segment = findFricativeSegment(withSilence(bandNoise(0.2, 5500, 9000), 0.15));
+        expect(segment?.start).toBeCloseTo(0.15, 1);
+        expect(segment?.end).toBeCloseTo(0.35, 1);
+    });
+
+    it('returns null for silence', () => {
+        expect(analyzeFricative({ samples: new Float32Array(SAMPLE_RATE / 2), sampleRate: SAMPLE_RATE })).toBeNull();
+    });
+
+    it('returns null for input shorter than one frame', () => {
+        expect(analyzeFricative({ samples: bandNoise(0.005, 5500, 9000), sampleRate: SAMPLE_RATE })).toBeNull();
+        expect(analyzeFricative({ samples: new Float32Array(0), sampleRate: SAMPLE_RATE })).toBeNull();
+    });
+});
+
+describe('scoreSibilant', () => {
+    const features = (centroid: number) => ({
+        spectralCentroid: centroid,
+        spectralPeak: centroid,
+        spectralSpread: 1000,
+        highBandRatio: 0.5,
+        zeroCrossingRate: 5000,
+    });
+
+    it('is unclear around the boundary', () => {
+        expect(scoreSibilant(features(4600)).verdict).toBe('unclear');
+        expect(scoreSibilant(features(4600)).sScore).toBeCloseTo(0.5);
+    });
+
+    it('saturates towards each side', () => {
+        expect(scoreSibilant(features(7000)).verdict).toBe('s');
+        expect(scoreSibilant(features(3000)).verdict).toBe('sh');
+    });
+});
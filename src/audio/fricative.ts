@@ -0,0 +1,215 @@
+import { nextPowerOfTwo, powerSpectrum } from './fft';
+import type { PcmAudio } from './pcm';
+
+// Acoustic /s/ vs /ʃ/ classifier. Everything here is pure: it takes decoded
+// PCM and never touches the microphone or Web Audio.
+//
+// /s/ is produced with a small front cavity, so its noise sits high (spectral
+// centroid and peak around 5.5–8 kHz). /ʃ/ has a longer front cavity and lip
+// rounding, which pulls the energy down to roughly 2.5–4.5 kHz.
+
+export type Sibilant = 's' | 'sh';
+
+export type FricativeSegment = {
+    start: number; // seconds
+    end: number; // seconds
+};
+
+export type FricativeFeatures = {
+    spectralCentroid: number; // Hz
+    spectralPeak: number; // Hz
+    spectralSpread: number; // Hz
+    highBandRatio: number; // share of 1–11 kHz energy above 5 kHz
+    zeroCrossingRate: number; // crossings per second
+};
+
+export type FricativeAnalysis = {
+    segment: FricativeSegment;
+    features: FricativeFeatures;
+    // 1 = clearly /s/, 0 = clearly /ʃ/.
+    sScore: number;
+    verdict: Sibilant | 'unclear';
+};
+
+const FRAME_SECONDS = 0.02;
+const HOP_SECONDS = 0.01;
+const MIN_SEGMENT_SECONDS = 0.03;
+// Frication is aperiodic noise, so it crosses zero far more often than voiced speech.
+const MIN_FRICATIVE_ZCR = 2500;
+const MIN_HIGH_FREQUENCY_SHARE = 0.5;
+const ANALYSIS_BAND: [number, number] = [1000, 11000];
+const HIGH_BAND_SPLIT = 5000;
+// Decision boundary between the two places of articulation, and how quickly the score saturates.
+const S_SH_BOUNDARY_HZ = 4600;
+const S_SH_SLOPE_HZ = 550;
+
+type Frame = {
+    start: number; // sample index
+    rms: number;
+    zeroCrossingRate: number;
+    highFrequencyShare: number;
+};
+
+const frameSizes = (sampleRate: number) => {
+    const frameLength = Math.max(64, Math.round(FRAME_SECONDS * sampleRate));
+    return {
+        frameLength,
+        hopLength: Math.max(32, Math.round(HOP_SECONDS * sampleRate)),
+        fftSize: nextPowerOfTwo(frameLength),
+    };
+};
+
+const bandEnergy = (spectrum: Float64Array, binHz: number, low: number, high: number) => {
+    let total = 0;
+    const from = Math.max(0, Math.ceil(low / binHz));
+    const to = Math.min(spectrum.length - 1, Math.floor(high / binHz));
+    for (let i = from; i <= to; i++) {
+        total += spectrum[i];
+    }
+    return total;
+};
+
+const analyzeFrames = ({ samples, sampleRate }: PcmAudio): Frame[] => {
+    const { frameLength, hopLength, fftSize } = frameSizes(sampleRate);
+    const binHz = sampleRate / fftSize;
+    const frames: Frame[] = [];
+
+    for (let start = 0; start + frameLength <= samples.length; start += hopLength) {
+        let energy = 0;
+        let crossings = 0;
+        for (let i = start; i < start + frameLength; i++) {
+            energy += samples[i] * samples[i];
+            if (i > start && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+                crossings++;
+            }
+        }
+        const spectrum = powerSpectrum(samples, start, fftSize);
+        const total = bandEnergy(spectrum, binHz, 0, sampleRate / 2);
+        const high = bandEnergy(spectrum, binHz, 2500, sampleRate / 2);
+
+        frames.push({
+            start,
+            rms: Math.sqrt(energy / frameLength),
+            zeroCrossingRate: (crossings * sampleRate) / frameLength,
+            highFrequencyShare: total > 0 ? high / total : 0,
+        });
+    }
+    return frames;
+};
+
+// Finds the longest run of frames that look like sibilant frication: loud
+// enough to be above the room noise, noisy (high zero-crossing rate) and
+// dominated by energy above 2.5 kHz.
+export const findFricativeSegment = (audio: PcmAudio): FricativeSegment | null => {
+    const frames = analyzeFrames(audio);
+    if (frames.length === 0) {
+        return null;
+    }
+
+    const sortedRms = frames.map(frame => frame.rms).sort((a, b) => a - b);
+    const noiseFloor = sortedRms[Math.floor(sortedRms.length * 0.1)];
+    const loudest = sortedRms[sortedRms.length - 1];
+    const energyThreshold = Math.max(noiseFloor * 3, loudest * 0.02);
+
+    const { frameLength } = frameSizes(audio.sampleRate);
+    let best: { first: number; last: number } | null = null;
+    let runStart = -1;
+
+    for (let i = 0; i <= frames.length; i++) {
+        const frame = frames[i];
+        const isFricative = frame !== undefined
+            && frame.rms >= energyThreshold
+            && frame.zeroCrossingRate >= MIN_FRICATIVE_ZCR
+            && frame.highFrequencyShare >= MIN_HIGH_FREQUENCY_SHARE;
+
+        if (isFricative && runStart < 0) {
+            runStart = i;
+        } else if (!isFricative && runStart >= 0) {
+            if (!best || i - 1 - runStart > best.last - best.first) {
+                best = { first: runStart, last: i - 1 };
+            }
+            runStart = -1;
+        }
+    }
+
+    if (!best) {
+        return null;
+    }
+    const start = frames[best.first].start;
+    const end = frames[best.last].start + frameLength;
+    if ((end - start) / audio.sampleRate < MIN_SEGMENT_SECONDS) {
+        return null;
+    }
+    return { start: start / audio.sampleRate, end: end / audio.sampleRate };
+};
+
+// Spectral moments of the averaged power spectrum across the segment.
+export const extractFricativeFeatures = ({ samples, sampleRate }: PcmAudio, segment: FricativeSegment): FricativeFeatures => {
+    const { frameLength, hopLength, fftSize } = frameSizes(sampleRate);
+    const binHz = sampleRate / fftSize;
+    const first = Math.max(0, Math.floor(segment.start * sampleRate));
+    const last = Math.min(samples.length, Math.ceil(segment.end * sampleRate));
+
+    const average = new Float64Array(fftSize / 2 + 1);
+    let frameCount = 0;
+    for (let start = first; start + frameLength <= last || start === first; start += hopLength) {
+        const spectrum = powerSpectrum(samples, start, fftSize);
+        for (let i = 0; i < average.length; i++) {
+            average[i] += spectrum[i];
+        }
+        frameCount++;
+    }
+
+    let crossings = 0;
+    for (let i = first + 1; i < last; i++) {
+        if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+            crossings++;
+        }
+    }
+
+    const low = ANALYSIS_BAND[0];
+    const high = Math.min(ANALYSIS_BAND[1], sampleRate / 2);
+    let total = 0;
+    let weighted = 0;
+    let peakBin = Math.ceil(low / binHz);
+    for (let i = Math.ceil(low / binHz); i <= Math.floor(high / binHz) && i < average.length; i++) {
+        const power = average[i] / frameCount;
+        total += power;
+        weighted += i * binHz * power;
+        if (average[i] > average[peakBin]) {
+            peakBin = i;
+        }
+    }
+    const centroid = total > 0 ? weighted / total : 0;
+
+    let variance = 0;
+    for (let i = Math.ceil(low / binHz); i <= Math.floor(high / binHz) && i < average.length; i++) {
+        variance += ((i * binHz - centroid) ** 2) * (average[i] / frameCount);
+    }
+
+    return {
+        spectralCentroid: centroid,
+        spectralPeak: peakBin * binHz,
+        spectralSpread: total > 0 ? Math.sqrt(variance / total) : 0,
+        highBandRatio: total > 0 ? bandEnergy(average, binHz, HIGH_BAND_SPLIT, high) / frameCount / total : 0,
+        zeroCrossingRate: last > first ? (crossings * sampleRate) / (last - first) : 0,
+    };
+};
+
+// Maps features to a 0–1 "how /s/-like" score. The centroid carries most of
+// the weight; the peak helps when a low-frequency rumble drags the centroid.
+export const scoreSibilant = (features: FricativeFeatures): { sScore: number; verdict: Sibilant | 'unclear' } => {
+    const place = 0.7 * features.spectralCentroid + 0.3 * features.spectralPeak;
+    const sScore = 1 / (1 + Math.exp(-(place - S_SH_BOUNDARY_HZ) / S_SH_SLOPE_HZ));
+    const verdict = sScore >= 0.65 ? 's' : sScore <= 0.35 ? 'sh' : 'unclear';
+    return { sScore, verdict };
+};
+
+export const analyzeFricative = (audio: PcmAudio): FricativeAnalysis | null => {
+    const segment = findFricativeSegment(audio);
+    if (!segment) {
+        return null;
+    }
+    const features = extractFricativeFeatures(audio, segment);
+    return { segment, features, ...scoreSibilant(features) };
+};
@@ -0,0 +1,68 @@
+import { measureFrame, type FrameLevel } from './levels';
+import { initialVadState, vadStep, type VadOptions, type VadState } from './vad';
+
+export type LevelFrame = FrameLevel & {
+    // performance.now() when the frame was read.
+    at: number;
+};
+
+const FRAME_SIZE = 2048;
+
+// Reads the stream's input level every `intervalMs` until the returned
+// function is called. Never stops the stream's tracks.
+export const monitorInput = (stream: MediaStream, onFrame: (frame: LevelFrame) => void, intervalMs = 50) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = FRAME_SIZE;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const buffer = new Float32Array(analyser.fftSize);
+
+    const timer = window.setInterval(() => {
+        analyser.getFloatTimeDomainData(buffer);
+        onFrame({ ...measureFrame(buffer), at: performance.now() });
+    }, intervalMs);
+
+    return () => {
+        window.clearInterval(timer);
+        void context.close();
+    };
+};
+
+export type SpeechDetection = {
+    // Resolves with the final state once speech has ended (or never started).
+    done: Promise<VadState>;
+    cancel: () => void;
+};
+
+// Runs voice activity detection on a live stream. `onChange` hears about
+// every phase change, e.g. to tell the learner they can start talking.
+export const detectSpeech = (stream: MediaStream, options: VadOptions, onChange?: (state: VadState) => void): SpeechDetection => {
+    let stop = () => {};
+    const done = new Promise<VadState>((resolve) => {
+        let state = initialVadState(performance.now());
+        const stopMonitor = monitorInput(stream, (frame) => {
+            const next = vadStep(state, frame, options);
+            if (next.phase !== state.phase) {
+                onChange?.(next);
+            }
+            state = next;
+            if (state.phase === 'ended') {
+                stop();
+            }
+        });
+        stop = () => {
+            stopMonitor();
+            resolve(state);
+        };
+    });
+    return { done, cancel: () => stop() };
+};
+
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> =>
+    (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
+
+// A plain deviceId is only a preference, so an unplugged microphone falls
+// back to the default instead of failing.
+export const microphoneConstraints = (deviceId: string | null): MediaStreamConstraints => ({
+    audio: deviceId ? { deviceId } : true,
+});
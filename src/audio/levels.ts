@@ -0,0 +1,91 @@
+// Input level measurements for the microphone check and voice detection.
+// Amplitudes are linear, full scale = 1.
+
+export type FrameLevel = {
+    rms: number;
+    peak: number;
+};
+
+export const measureFrame = (samples: Float32Array): FrameLevel => {
+    let energy = 0;
+    let peak = 0;
+    for (const sample of samples) {
+        energy += sample * sample;
+        peak = Math.max(peak, Math.abs(sample));
+    }
+    return { rms: samples.length > 0 ? Math.sqrt(energy / samples.length) : 0, peak };
+};
+
+export const toDbfs = (amplitude: number) => (amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity);
+
+// Samples this close to full scale mean the converter ran out of headroom.
+const CLIPPING_PEAK = 0.99;
+// About -30 dBFS: recognizers struggle with speech quieter than this.
+const LOW_SPEECH_RMS = 0.03;
+// Voice should stand at least this far above the room.
+const MIN_SNR_DB = 15;
+// Floor for the voice threshold, so a silent room doesn't make every breath count.
+const MIN_VOICE_THRESHOLD = 0.01;
+// Voice is anything this far above the noise floor.
+const VOICE_MARGIN_DB = 10;
+
+export const DEFAULT_VOICE_THRESHOLD = 0.02;
+
+export const isClipping = (peak: number) => peak >= CLIPPING_PEAK;
+
+const percentile = (values: number[], fraction: number) => {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+// The level that counts as voice in a room with this noise floor.
+export const voiceThreshold = (noiseFloor: number) =>
+    Math.max(MIN_VOICE_THRESHOLD, noiseFloor * 10 ** (VOICE_MARGIN_DB / 20));
+
+export type MicWarning = 'clipping' | 'quiet' | 'noisy' | 'no-speech';
+
+export type MicAssessment = {
+    noiseFloor: number;
+    // Level of the loud parts of speech; null when nobody spoke.
+    speechLevel: number | null;
+    peak: number;
+    // Voice threshold for this room and voice.
+    threshold: number;
+    warnings: MicWarning[];
+};
+
+// Anything less than this far above the room is taken as no speech at all.
+const NO_SPEECH_MARGIN_DB = 6;
+
+// Judges a two-part check: a few seconds of quiet, then normal speech.
+export const assessMic = (quiet: FrameLevel[], speech: FrameLevel[]): MicAssessment => {
+    const noiseFloor = percentile(quiet.map(frame => frame.rms), 0.5);
+    const loudest = percentile(speech.map(frame => frame.rms), 0.9);
+    const snr = toDbfs(loudest) - toDbfs(noiseFloor);
+    const speechLevel = loudest > 0 && snr >= NO_SPEECH_MARGIN_DB ? loudest : null;
+    const peak = Math.max(0, ...speech.map(frame => frame.peak));
+    // In a loud room the usual margin could sit above the voice itself, so
+    // the threshold never goes past halfway (in dB) from the room to the voice.
+    const threshold = speechLevel === null
+        ? voiceThreshold(noiseFloor)
+        : Math.min(voiceThreshold(noiseFloor), Math.sqrt(Math.max(noiseFloor, MIN_VOICE_THRESHOLD / 10) * speechLevel));
+
+    const warnings: MicWarning[] = [];
+    if (isClipping(peak)) {
+        warnings.push('clipping');
+    }
+    if (speechLevel === null) {
+        warnings.push('no-speech');
+    } else {
+        if (speechLevel < LOW_SPEECH_RMS) {
+            warnings.push('quiet');
+        }
+        if (snr < MIN_SNR_DB) {
+            warnings.push('noisy');
+        }
+    }
+    return { noiseFloor, speechLevel, peak, threshold, warnings };
+};
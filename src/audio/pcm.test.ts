@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWav, encodeWav, mixToMono, sliceAudio } from './pcm';
+import { bandNoise, SAMPLE_RATE } from './testSignals';
+
+describe('encodeWav / decodeWav', () => {
+    it('round-trips 16-bit mono audio', () => {
+        const samples = bandNoise(0.05, 300, 3000, 0.1);
+        const decoded = decodeWav(encodeWav({ samples, sampleRate: SAMPLE_RATE }));
+        expect(decoded.sampleRate).toBe(SAMPLE_RATE);
+        expect(decoded.samples).toHaveLength(samples.length);
+        const maxError = Math.max(...samples.map((sample, i) => Math.abs(sample - decoded.samples[i])));
+        expect(maxError).toBeLessThan(1 / 16384);
+    });
+
+    it('clamps samples outside [-1, 1]', () => {
+        const decoded = decodeWav(encodeWav({ samples: Float32Array.from([2, -2, 0]), sampleRate: 8000 }));
+        expect(decoded.samples[0]).toBeCloseTo(1, 3);
+        expect(decoded.samples[1]).toBeCloseTo(-1, 3);
+        expect(decoded.samples[2]).toBe(0);
+    });
+
+    it('round-trips empty audio', () => {
+        expect(decodeWav(encodeWav({ samples: new Float32Array(0), sampleRate: 8000 })).samples).toHaveLength(0);
+    });
+
+    it('rejects files that are not WAV', () => {
+        expect(() => decodeWav(new ArrayBuffer(4))).toThrow('Not a WAV file.');
+        expect(() => decodeWav(new TextEncoder().encode('RIFF....AVI LIST').buffer)).toThrow('Not a WAV file.');
+    });
+});
+
+describe('mixToMono', () => {
+    it('averages the channels', () => {
+        expect([...mixToMono([Float32Array.from([1, 0]), Float32Array.from([0, 0])])]).toEqual([0.5, 0]);
+    });
+});
+
+describe('sliceAudio', () => {
+    it('clamps to the audio', () => {
+        const audio = { samples: new Float32Array(1000), sampleRate: 1000 };
+        expect(sliceAudio(audio, -50, 250).samples).toHaveLength(250);
+        expect(sliceAudio(audio, 900, 5000).samples).toHaveLength(100);
+        expect(sliceAudio(audio, 600, 500).samples).toHaveLength(0);
+    });
+});
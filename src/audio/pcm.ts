@@ -0,0 +1,157 @@
+// Mono PCM audio as plain numbers, so analysis code can run without Web Audio
+// (e.g. on decoded WAV fixtures).
+export type PcmAudio = {
+    samples: Float32Array;
+    sampleRate: number;
+};
+
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+    if (channels.length === 0) {
+        return new Float32Array(0);
+    }
+    if (channels.length === 1) {
+        return channels[0];
+    }
+    const length = Math.min(...channels.map(channel => channel.length));
+    const mono = new Float32Array(length);
+    for (const channel of channels) {
+        for (let i = 0; i < length; i++) {
+            mono[i] += channel[i] / channels.length;
+        }
+    }
+    return mono;
+};
+
+// Decodes a RIFF/WAVE file holding 8/16/24/32-bit integer or 32-bit float PCM.
+export const decodeWav = (buffer: ArrayBuffer): PcmAudio => {
+    const view = new DataView(buffer);
+    const readTag = (offset: number) =>
+        String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+    if (buffer.byteLength < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+        throw new Error('Not a WAV file.');
+    }
+
+    let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+    let offset = 12;
+    while (offset + 8 <= buffer.byteLength) {
+        const tag = readTag(offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (tag === 'fmt ') {
+            let audioFormat = view.getUint16(body, true);
+            // WAVE_FORMAT_EXTENSIBLE keeps the real format code in its sub-format GUID.
+            if (audioFormat === 0xfffe && size >= 26) {
+                audioFormat = view.getUint16(body + 24, true);
+            }
+            format = {
+                audioFormat,
+                channels: view.getUint16(body + 2, true),
+                sampleRate: view.getUint32(body + 4, true),
+                bitsPerSample: view.getUint16(body + 14, true),
+            };
+        } else if (tag === 'data') {
+            if (!format) {
+                throw new Error('WAV data chunk appears before the fmt chunk.');
+            }
+            const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+            const isFloat = audioFormat === 3;
+            if (audioFormat !== 1 && audioFormat !== 3) {
+                throw new Error(`Unsupported WAV encoding (format ${audioFormat}).`);
+            }
+            const bytesPerSample = bitsPerSample / 8;
+            const frameCount = Math.floor(Math.min(size, buffer.byteLength - body) / (bytesPerSample * channels));
+            const data = Array.from({ length: channels }, () => new Float32Array(frameCount));
+
+            for (let frame = 0; frame < frameCount; frame++) {
+                for (let channel = 0; channel < channels; channel++) {
+                    const at = body + (frame * channels + channel) * bytesPerSample;
+                    let value: number;
+                    if (isFloat) {
+                        value = view.getFloat32(at, true);
+                    } else if (bitsPerSample === 8) {
+                        value = (view.getUint8(at) - 128) / 128;
+                    } else if (bitsPerSample === 16) {
+                        value = view.getInt16(at, true) / 32768;
+                    } else if (bitsPerSample === 24) {
+                        const raw = view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getInt8(at + 2) << 16);
+                        value = raw / 8388608;
+                    } else if (bitsPerSample === 32) {
+                        value = view.getInt32(at, true) / 2147483648;
+                    } else {
+                        throw new Error(`Unsupported WAV bit depth (${bitsPerSample}).`);
+                    }
+                    data[channel][frame] = value;
+                }
+            }
+            return { samples: mixToMono(data), sampleRate };
+        }
+        // Chunks are padded to an even number of bytes.
+        offset = body + size + (size % 2);
+    }
+    throw new Error('WAV file has no data chunk.');
+};
+
+// Linear-interpolation resampler. When downsampling, each output sample first
+// averages the input samples it covers to keep aliasing down.
+export const resample = ({ samples, sampleRate }: PcmAudio, targetRate: number): PcmAudio => {
+    if (targetRate === sampleRate) {
+        return { samples, sampleRate };
+    }
+    const ratio = sampleRate / targetRate;
+    const length = Math.floor(samples.length / ratio);
+    const output = new Float32Array(length);
+    const width = Math.max(1, Math.floor(ratio));
+    for (let i = 0; i < length; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        let sum = 0;
+        let count = 0;
+        for (let j = index; j < index + width && j < samples.length; j++) {
+            const next = samples[Math.min(j + 1, samples.length - 1)];
+            sum += samples[j] + (next - samples[j]) * fraction;
+            count++;
+        }
+        output[i] = count > 0 ? sum / count : 0;
+    }
+    return { samples: output, sampleRate: targetRate };
+};
+
+// The part between two offsets in milliseconds, clamped to the audio.
+export const sliceAudio = ({ samples, sampleRate }: PcmAudio, startMs: number, endMs: number): PcmAudio => {
+    const start = Math.max(0, Math.floor((startMs / 1000) * sampleRate));
+    const end = Math.min(samples.length, Math.ceil((endMs / 1000) * sampleRate));
+    return { samples: samples.slice(start, Math.max(start, end)), sampleRate };
+};
+
+// 16-bit PCM mono WAV.
+export const encodeWav = ({ samples, sampleRate }: PcmAudio): ArrayBuffer => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < 4; i++) {
+            view.setUint8(offset + i, tag.charCodeAt(i));
+        }
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true);
+    writeTag(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    for (let i = 0; i < samples.length; i++) {
+        const clamped = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    }
+    return buffer;
+};
@@ -0,0 +1,72 @@
+import type { PcmAudio } from './pcm';
+
+export type PlaybackOptions = {
+    // Loop just this region (seconds) instead of playing once.
+    loop?: { start: number; end: number };
+    onEnded?: () => void;
+};
+
+let sharedContext: AudioContext | null = null;
+let current: AudioBufferSourceNode | null = null;
+
+const audioContext = () => {
+    sharedContext ??= new AudioContext();
+    void sharedContext.resume();
+    return sharedContext;
+};
+
+export const stopPlayback = () => {
+    if (current) {
+        current.onended = null;
+        current.stop();
+        current = null;
+    }
+};
+
+// Plays decoded audio through Web Audio; starting a new clip stops the old one.
+export const playPcm = ({ samples, sampleRate }: PcmAudio, { loop, onEnded }: PlaybackOptions = {}) => {
+    stopPlayback();
+    const context = audioContext();
+
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    if (loop) {
+        source.loop = true;
+        source.loopStart = loop.start;
+        source.loopEnd = loop.end;
+    }
+    source.connect(context.destination);
+    source.onended = () => {
+        current = null;
+        onEnded?.();
+    };
+    source.start(0, loop ? loop.start : 0);
+    current = source;
+};
+
+export type Cue = 'correct' | 'incorrect';
+
+// Rising two-note chime for correct, a low falling pair for incorrect (Hz).
+const CUE_NOTES: Record<Cue, number[]> = { correct: [660, 990], incorrect: [330, 220] };
+const CUE_NOTE_SECONDS = 0.12;
+
+// A short synthesized cue, so results can be told apart without looking.
+export const playCue = (cue: Cue) => {
+    const context = audioContext();
+    CUE_NOTES[cue].forEach((frequency, i) => {
+        const start = context.currentTime + i * CUE_NOTE_SECONDS;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = 'sine';
+        oscillator.frequency.value = frequency;
+        // Quick fade in and out to avoid clicks.
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(0.2, start + 0.01);
+        gain.gain.linearRampToValueAtTime(0, start + CUE_NOTE_SECONDS);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + CUE_NOTE_SECONDS);
+    });
+};
@@ -0,0 +1,77 @@
+import { mixToMono, type PcmAudio } from './pcm';
+
+export type AudioRecording = {
+    blob: Blob;
+    mimeType: string;
+    durationMs: number;
+};
+
+export type RecordingSession = {
+    stop: () => Promise<AudioRecording>;
+};
+
+// Opus in WebM/Ogg is what the Speech API decodes natively; Safari ignores
+// these and records mp4.
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+export const isRecordingSupported = () => typeof window !== 'undefined' && 'MediaRecorder' in window;
+
+// Records the raw microphone stream alongside speech recognition. Returns
+// null when MediaRecorder is unavailable so callers can skip audio features.
+export const startRecording = (stream: MediaStream): RecordingSession | null => {
+    if (!isRecordingSupported()) {
+        return null;
+    }
+
+    const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+            chunks.push(event.data);
+        }
+    };
+    recorder.start();
+    const startedAt = performance.now();
+
+    return {
+        stop: () => new Promise((resolve, reject) => {
+            const finish = () => {
+                const mimeType = recorder.mimeType || chunks[0]?.type || 'audio/webm';
+                resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType, durationMs: performance.now() - startedAt });
+            };
+            if (recorder.state === 'inactive') {
+                finish();
+                return;
+            }
+            recorder.onstop = finish;
+            recorder.onerror = () => reject(new Error('Recording failed.'));
+            recorder.stop();
+        }),
+    };
+};
+
+// Decodes any browser-supported audio file (webm/ogg/mp4/wav/mp3) to mono PCM.
+export const decodeAudioFile = async (data: ArrayBuffer): Promise<PcmAudio> => {
+    const context = new AudioContext();
+    try {
+        const buffer = await context.decodeAudioData(data);
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+        return { samples: mixToMono(channels), sampleRate: buffer.sampleRate };
+    } finally {
+        void context.close();
+    }
+};
+
+export const decodeRecording = async (recording: AudioRecording) => decodeAudioFile(await recording.blob.arrayBuffer());
+
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        // Strip the "data:<mime>;base64," prefix.
+        const dataUrl = reader.result as string;
+        resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
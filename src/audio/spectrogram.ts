@@ -0,0 +1,48 @@
+import { powerSpectrum } from './fft';
+import type { PcmAudio } from './pcm';
+
+export type Spectrogram = {
+    // One column per hop; each holds dB values from 0 Hz up to maxFrequency.
+    columns: Float32Array[];
+    binHz: number;
+    hopSeconds: number;
+    maxFrequency: number;
+};
+
+const FLOOR_DB = -100;
+
+export const computeSpectrogram = (
+    { samples, sampleRate }: PcmAudio,
+    { fftSize = 512, hopSize = 256, maxFrequency = 11000 } = {},
+): Spectrogram => {
+    const binHz = sampleRate / fftSize;
+    const top = Math.min(maxFrequency, sampleRate / 2);
+    const binCount = Math.floor(top / binHz) + 1;
+    const columns: Float32Array[] = [];
+
+    for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+        const spectrum = powerSpectrum(samples, start, fftSize);
+        const column = new Float32Array(binCount);
+        for (let i = 0; i < binCount; i++) {
+            column[i] = spectrum[i] > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(spectrum[i])) : FLOOR_DB;
+        }
+        columns.push(column);
+    }
+    return { columns, binHz, hopSeconds: hopSize / sampleRate, maxFrequency: top };
+};
+
+// Min/max pairs per bucket, for drawing a waveform at any width.
+export const waveformPeaks = (samples: Float32Array, buckets: number): [number, number][] => {
+    const size = Math.max(1, Math.floor(samples.length / buckets));
+    const peaks: [number, number][] = [];
+    for (let bucket = 0; bucket < buckets; bucket++) {
+        let min = 0;
+        let max = 0;
+        for (let i = bucket * size; i < Math.min(samples.length, (bucket + 1) * size); i++) {
+            min = Math.min(min, samples[i]);
+            max = Math.max(max, samples[i]);
+        }
+        peaks.push([min, max]);
+    }
+    return peaks;
+};
@@ -0,0 +1,61 @@
+// Reference pronunciations through the browser's speechSynthesis.
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export type SpeakOptions = {
+    lang?: string;
+    rate?: number;
+    voice?: SpeechSynthesisVoice | null;
+};
+
+export const speak = (text: string, { lang = 'en-US', rate = 0.85, voice = null }: SpeakOptions = {}) =>
+    new Promise<void>((resolve, reject) => {
+        if (!isSpeechSynthesisSupported()) {
+            reject(new Error('Speech synthesis is not supported in this browser.'));
+            return;
+        }
+        window.speechSynthesis.cancel();
+        // Without an explicit voice, browsers often keep their default
+        // (usually American) voice whatever the lang says.
+        const chosen = voice ?? voicesFor(window.speechSynthesis.getVoices(), lang)[0] ?? null;
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = chosen?.lang ?? lang;
+        utterance.rate = rate;
+        if (chosen) {
+            utterance.voice = chosen;
+        }
+        utterance.onend = () => resolve();
+        utterance.onerror = (event) => {
+            // Cancelling (e.g. by speaking again) is not a failure.
+            if (event.error === 'canceled' || event.error === 'interrupted') {
+                resolve();
+            } else {
+                reject(new Error(`Speech synthesis error: ${event.error}`));
+            }
+        };
+        window.speechSynthesis.speak(utterance);
+    });
+
+// Chrome fills the voice list asynchronously; wait briefly for it.
+export const loadVoices = (timeoutMs = 1500) => new Promise<SpeechSynthesisVoice[]>((resolve) => {
+    if (!isSpeechSynthesisSupported()) {
+        resolve([]);
+        return;
+    }
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+        resolve(voices);
+        return;
+    }
+    const finish = () => {
+        clearTimeout(timer);
+        window.speechSynthesis.removeEventListener('voiceschanged', finish);
+        resolve(window.speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    window.speechSynthesis.addEventListener('voiceschanged', finish);
+});
+
+// Voices for one language tag such as "en-GB". Some platforms write "en_GB".
+export const voicesFor = (voices: SpeechSynthesisVoice[], lang: string) =>
+    voices.filter(voice => voice.lang.replace('_', '-').toLowerCase() === lang.toLowerCase());
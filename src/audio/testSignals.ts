@@ -0,0 +1,45 @@
+import type { PcmAudio } from './pcm';
+
+// Synthetic audio for the analysis tests: seeded, so every run sees the same samples.
+
+export const SAMPLE_RATE = 22050;
+
+// Mulberry32: a tiny deterministic PRNG.
+export const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Noise confined to [lowHz, highHz]: many sines at random phases.
+export const bandNoise = (seconds: number, lowHz: number, highHz: number, amplitude = 0.3, seed = 1): Float32Array => {
+    const random = seededRandom(seed);
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    const partials: { frequency: number; phase: number }[] = [];
+    for (let frequency = lowHz; frequency <= highHz; frequency += 20) {
+        partials.push({ frequency, phase: random() * 2 * Math.PI });
+    }
+    const scale = amplitude / Math.sqrt(partials.length / 2);
+    for (let i = 0; i < samples.length; i++) {
+        const time = i / SAMPLE_RATE;
+        let value = 0;
+        for (const { frequency, phase } of partials) {
+            value += Math.sin(2 * Math.PI * frequency * time + phase);
+        }
+        samples[i] = value * scale;
+    }
+    return samples;
+};
+
+// Near-silence before and after a sound, like a trimmed recording.
+export const withSilence = (sound: Float32Array, paddingSeconds = 0.15, seed = 2): PcmAudio => {
+    const random = seededRandom(seed);
+    const padding = Math.round(paddingSeconds * SAMPLE_RATE);
+    const samples = new Float32Array(sound.length + 2 * padding);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = (random() - 0.5) * 0.002;
+    }
+    samples.set(sound, padding);
+    return { samples, sampleRate: SAMPLE_RATE };
+};
@@ -0,0 +1,84 @@
+import { DEFAULT_VOICE_THRESHOLD } from './levels';
+
+// Voice activity detection over a stream of input levels: decides when the
+// learner started talking and when they have finished. A pure step function
+// over timestamped frames, so it runs the same on a live microphone and on
+// recorded levels.
+
+export type VadOptions = {
+    // RMS level that counts as voice.
+    threshold: number;
+    // Voice must last this long to count as speech, so clicks and bumps don't.
+    minSpeechMs: number;
+    // Speech is over once the input stays quiet this long.
+    trailingSilenceMs: number;
+    // Give up if nobody starts talking.
+    noSpeechTimeoutMs: number;
+    maxDurationMs: number;
+};
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+    threshold: DEFAULT_VOICE_THRESHOLD,
+    minSpeechMs: 120,
+    trailingSilenceMs: 1200,
+    noSpeechTimeoutMs: 5000,
+    maxDurationMs: 10000,
+};
+
+export type VadPhase = 'waiting' | 'speaking' | 'ended';
+
+export type VadEndReason = 'silence' | 'no-speech' | 'max-duration';
+
+export type VadState = {
+    phase: VadPhase;
+    startedAt: number;
+    // When the current run of voiced frames began, before it counts as speech.
+    voicedSince: number | null;
+    speechStartedAt: number | null;
+    lastVoiceAt: number | null;
+    endReason: VadEndReason | null;
+};
+
+export const initialVadState = (at: number): VadState => ({
+    phase: 'waiting',
+    startedAt: at,
+    voicedSince: null,
+    speechStartedAt: null,
+    lastVoiceAt: null,
+    endReason: null,
+});
+
+const end = (state: VadState, endReason: VadEndReason): VadState => ({ ...state, phase: 'ended', endReason });
+
+export const vadStep = (state: VadState, frame: { rms: number; at: number }, options: VadOptions): VadState => {
+    if (state.phase === 'ended') {
+        return state;
+    }
+    const isVoice = frame.rms >= options.threshold;
+    let next = state;
+    if (state.phase === 'waiting') {
+        const voicedSince = isVoice ? state.voicedSince ?? frame.at : null;
+        next = voicedSince !== null && frame.at - voicedSince >= options.minSpeechMs
+            ? { ...state, phase: 'speaking', voicedSince, speechStartedAt: voicedSince, lastVoiceAt: frame.at }
+            : { ...state, voicedSince };
+        if (next.phase === 'waiting' && frame.at - state.startedAt >= options.noSpeechTimeoutMs) {
+            return end(next, 'no-speech');
+        }
+    } else {
+        next = isVoice ? { ...state, lastVoiceAt: frame.at } : state;
+        if (next.lastVoiceAt !== null && frame.at - next.lastVoiceAt >= options.trailingSilenceMs) {
+            return end(next, 'silence');
+        }
+    }
+    return frame.at - state.startedAt >= options.maxDurationMs ? end(next, 'max-duration') : next;
+};
+
+// Where the speech sits, in milliseconds from the start of detection,
+// widened by `paddingMs` so soft onsets and trailing fricatives survive.
+export const speechRange = (state: VadState, paddingMs: number) =>
+    state.speechStartedAt === null || state.lastVoiceAt === null
+        ? null
+        : {
+            startMs: Math.max(0, state.speechStartedAt - state.startedAt - paddingMs),
+            endMs: state.lastVoiceAt - state.startedAt + paddingMs,
+        };
@@ -0,0 +1,124 @@
+import { validateLessonPack, type Contrast, type LessonPack, type PracticeItem } from '../lessons';
+import { base64UrlToText, bytesToBase64Url, textToBase64Url } from '../utils/base64';
+import { isObject } from '../utils/isObject';
+
+// Class mode without a backend: a teacher picks items, and the assignment
+// travels to students as a link or a file. Each assignment carries its own
+// signing key, so the results students send back can be checked against the
+// assignments the teacher created.
+
+export type Assignment = {
+    schemaVersion: 1;
+    kind: 'assignment';
+    id: string;
+    title: string;
+    // ISO 8601.
+    createdAt: string;
+    contrast: Contrast;
+    items: PracticeItem[];
+    // HMAC key (base64url) for signing results. Students hold it too, so a
+    // signature catches edited or mixed-up files rather than a determined forger.
+    key: string;
+};
+
+export const MAX_ASSIGNMENT_ITEMS = 30;
+export const MAX_TITLE_LENGTH = 80;
+// The part of the URL hash that carries an assignment.
+export const ASSIGNMENT_HASH_PARAM = 'assignment';
+
+// Problems with an assignment or result file, each with the offending field.
+export class ClassroomFileError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid class file:\n${errors.join('\n')}`);
+        this.name = 'ClassroomFileError';
+    }
+}
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const createAssignment = (title: string, contrast: Contrast, items: PracticeItem[], now = new Date()): Assignment => ({
+    schemaVersion: 1,
+    kind: 'assignment',
+    id: bytesToBase64Url(randomBytes(9)).toLowerCase().replace(/[^a-z0-9]/g, '0'),
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    createdAt: now.toISOString(),
+    contrast,
+    items: items.slice(0, MAX_ASSIGNMENT_ITEMS),
+    key: bytesToBase64Url(randomBytes(32)),
+});
+
+// The items are checked with the lesson pack schema.
+export const validateAssignment = (value: unknown): string[] => {
+    if (!isObject(value)) {
+        return ['assignment: must be a JSON object'];
+    }
+    const errors: string[] = [];
+    if (value.kind !== 'assignment') {
+        errors.push('kind: must be "assignment"');
+    }
+    if (typeof value.createdAt !== 'string' || Number.isNaN(Date.parse(value.createdAt))) {
+        errors.push('createdAt: must be an ISO 8601 date');
+    }
+    if (typeof value.key !== 'string' || !/^[A-Za-z0-9_-]{43}$/.test(value.key)) {
+        errors.push('key: must be a 256-bit base64url key');
+    }
+    if (Array.isArray(value.items) && value.items.length > MAX_ASSIGNMENT_ITEMS) {
+        errors.push(`items: at most ${MAX_ASSIGNMENT_ITEMS} items`);
+    }
+    return [...errors, ...validateLessonPack({ ...value, kind: undefined, createdAt: undefined, key: undefined })];
+};
+
+export const parseAssignment = (text: string): Assignment => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new ClassroomFileError(['The file is not valid JSON.']);
+    }
+    const errors = validateAssignment(value);
+    if (errors.length > 0) {
+        throw new ClassroomFileError(errors);
+    }
+    return value as Assignment;
+};
+
+// Assignment files share the lesson import button; this tells them apart.
+export const isAssignmentFile = (text: string) => {
+    try {
+        const value: unknown = JSON.parse(text);
+        return isObject(value) && value.kind === 'assignment';
+    } catch {
+        return false;
+    }
+};
+
+// Students practise an assignment as a lesson pack of its own.
+export const assignmentPack = (assignment: Assignment): LessonPack => ({
+    schemaVersion: 1,
+    id: `assignment-${assignment.id}`,
+    title: assignment.title,
+    contrast: assignment.contrast,
+    items: assignment.items,
+});
+
+export const assignmentUrl = (assignment: Assignment, base: string) => {
+    const url = new URL(base);
+    url.hash = `${ASSIGNMENT_HASH_PARAM}=${textToBase64Url(JSON.stringify(assignment))}`;
+    return url.toString();
+};
+
+// The assignment in a URL hash such as "#assignment=eyJ…", or null when there
+// is none. Throws ClassroomFileError when the link is damaged.
+export const readAssignmentHash = (hash: string): Assignment | null => {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(ASSIGNMENT_HASH_PARAM);
+    if (encoded === null) {
+        return null;
+    }
+    let text: string;
+    try {
+        text = base64UrlToText(encoded);
+    } catch {
+        throw new ClassroomFileError(['The assignment link is incomplete or damaged.']);
+    }
+    return parseAssignment(text);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLED_PACKS } from '../lessons';
+import { createAssignment } from './assignment';
+import { checkResult, mergeResults } from './report';
+import { buildResult, signResult, type ResultAttempt } from './results';
+
+const pack = BUNDLED_PACKS[0];
+const assignment = createAssignment('Week 1', pack.contrast, pack.items.slice(0, 2));
+
+const attempt = (isCorrect: boolean): ResultAttempt => ({
+    itemId: pack.items[0].id,
+    targetWord: 'sea',
+    transcript: isCorrect ? 'sea' : 'she',
+    isCorrect,
+    at: '2026-05-01T09:00:00.000Z',
+});
+
+const submit = async (student: string, at: string, attempts: ResultAttempt[]) =>
+    checkResult(await signResult(buildResult(assignment, student, attempts, new Date(at)), assignment.key), [assignment]);
+
+describe('mergeResults', () => {
+    it('keeps the newer file from the same student', async () => {
+        const first = await submit('Aiko', '2026-05-01T10:00:00.000Z', [attempt(false)]);
+        const second = await submit(' aiko ', '2026-05-02T10:00:00.000Z', [attempt(true)]);
+        expect(mergeResults([first], [second])).toEqual([second]);
+        expect(mergeResults([second], [first])).toEqual([second]);
+    });
+
+    it('keeps one row per student, sorted by name', async () => {
+        const ren = await submit('Ren', '2026-05-01T10:00:00.000Z', []);
+        const aiko = await submit('Aiko', '2026-05-01T11:00:00.000Z', []);
+        expect(mergeResults([ren], [aiko]).map(({ result }) => result.student)).toEqual(['Aiko', 'Ren']);
+    });
+
+    it('does not let an edited newer file replace a verified one', async () => {
+        const verified = await submit('Aiko', '2026-05-01T10:00:00.000Z', [attempt(false)]);
+        const signed = await submit('Aiko', '2026-05-02T10:00:00.000Z', [attempt(false)]);
+        const edited = await checkResult({ ...signed.result, attempts: [attempt(true)] }, [assignment]);
+        expect(verified.signature).toBe('valid');
+        expect(edited.signature).toBe('invalid');
+        expect(mergeResults([verified], [edited])).toEqual([verified]);
+        expect(mergeResults([edited], [verified])).toEqual([verified]);
+    });
+
+    it('lets a newer file replace an older one that did not verify either', async () => {
+        const older = await submit('Aiko', '2026-05-01T10:00:00.000Z', []);
+        const newer = await submit('Aiko', '2026-05-02T10:00:00.000Z', []);
+        const forged = (checked: typeof older) => ({ ...checked, signature: 'invalid' as const });
+        expect(mergeResults([forged(older)], [forged(newer)])).toEqual([forged(newer)]);
+    });
+});
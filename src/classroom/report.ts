@@ -0,0 +1,112 @@
+import type { Assignment } from './assignment';
+import { verifyResult, type AssignmentResult } from './results';
+
+// The teacher's view of imported result files: signatures checked against
+// the assignments created in this browser, one row per student.
+
+// 'unknownAssignment': not created in this browser, so there is no key to check with.
+export type SignatureStatus = 'valid' | 'invalid' | 'unknownAssignment';
+
+export type CheckedResult = {
+    result: AssignmentResult;
+    signature: SignatureStatus;
+};
+
+export const checkResult = async (result: AssignmentResult, assignments: Assignment[]): Promise<CheckedResult> => {
+    const assignment = assignments.find(candidate => candidate.id === result.assignmentId);
+    if (!assignment) {
+        return { result, signature: 'unknownAssignment' };
+    }
+    return { result, signature: await verifyResult(result, assignment.key) ? 'valid' : 'invalid' };
+};
+
+const studentKey = ({ result }: CheckedResult) => `${result.assignmentId}|${result.student.trim().toLowerCase()}`;
+
+// A verified file always beats one that is not, so a tampered copy cannot
+// hide a real result just by carrying a later date.
+const replaces = (checked: CheckedResult, previous: CheckedResult) => {
+    const verified = checked.signature === 'valid';
+    if (verified !== (previous.signature === 'valid')) {
+        return verified;
+    }
+    return Date.parse(checked.result.submittedAt) >= Date.parse(previous.result.submittedAt);
+};
+
+// A newer file from the same student for the same assignment replaces the older one.
+export const mergeResults = (existing: CheckedResult[], incoming: CheckedResult[]) => {
+    const byStudent = new Map(existing.map(checked => [studentKey(checked), checked]));
+    for (const checked of incoming) {
+        const previous = byStudent.get(studentKey(checked));
+        if (!previous || replaces(checked, previous)) {
+            byStudent.set(studentKey(checked), checked);
+        }
+    }
+    return [...byStudent.values()].sort((a, b) => a.result.student.localeCompare(b.result.student));
+};
+
+export type ReportItem = {
+    id: string;
+    label: string;
+};
+
+// Table columns: the assignment's items when it is known here, otherwise
+// whatever items the results mention.
+export const reportItems = (assignment: Assignment | undefined, results: CheckedResult[]): ReportItem[] => {
+    if (assignment) {
+        return assignment.items.map(item => ({
+            id: item.id,
+            label: item.type === 'pair' ? `${item.a.word} / ${item.b.word}` : item.text,
+        }));
+    }
+    const seen = new Map<string, string>();
+    results.flatMap(({ result }) => result.attempts).forEach(attempt => seen.set(attempt.itemId, seen.get(attempt.itemId) ?? attempt.targetWord));
+    return [...seen].map(([id, label]) => ({ id, label }));
+};
+
+export type ItemScore = {
+    attempts: number;
+    correct: number;
+};
+
+export type StudentRow = {
+    checked: CheckedResult;
+    scores: Record<string, ItemScore>;
+    attempts: number;
+    correct: number;
+    itemsAttempted: number;
+};
+
+export const studentRow = (checked: CheckedResult): StudentRow => {
+    const scores: Record<string, ItemScore> = {};
+    for (const attempt of checked.result.attempts) {
+        const score = scores[attempt.itemId] ?? { attempts: 0, correct: 0 };
+        scores[attempt.itemId] = { attempts: score.attempts + 1, correct: score.correct + (attempt.isCorrect ? 1 : 0) };
+    }
+    return {
+        checked,
+        scores,
+        attempts: checked.result.attempts.length,
+        correct: checked.result.attempts.filter(attempt => attempt.isCorrect).length,
+        itemsAttempted: Object.keys(scores).length,
+    };
+};
+
+export const RESULT_COLUMNS = [
+    'assignmentId', 'assignmentTitle', 'student', 'signature', 'submittedAt',
+    'itemId', 'targetWord', 'transcript', 'isCorrect', 'at',
+];
+
+// One row per attempt, for the CSV export.
+export const resultRows = (results: CheckedResult[]): unknown[][] =>
+    results.flatMap(({ result, signature }) => result.attempts.map(attempt => [
+        result.assignmentId,
+        result.assignmentTitle,
+        result.student,
+        signature,
+        result.submittedAt,
+        attempt.itemId,
+        attempt.targetWord,
+        attempt.transcript,
+        attempt.isCorrect,
+        attempt.at,
+    ]));
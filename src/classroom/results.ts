@@ -0,0 +1,134 @@
+import { base64UrlToBytes, bytesToBase64Url } from '../utils/base64';
+import { isObject } from '../utils/isObject';
+import { ClassroomFileError, type Assignment } from './assignment';
+
+// What a student sends back: every attempt at the assignment's items,
+// signed with the assignment's key.
+
+export type ResultAttempt = {
+    itemId: string;
+    targetWord: string;
+    transcript: string;
+    isCorrect: boolean;
+    // ISO 8601.
+    at: string;
+};
+
+export type AssignmentResult = {
+    schemaVersion: 1;
+    kind: 'assignment-result';
+    assignmentId: string;
+    assignmentTitle: string;
+    student: string;
+    submittedAt: string;
+    attempts: ResultAttempt[];
+    // HMAC-SHA-256 (base64url) of the fields above.
+    signature: string;
+};
+
+export type UnsignedResult = Omit<AssignmentResult, 'signature'>;
+
+export const MAX_STUDENT_NAME_LENGTH = 80;
+export const MAX_RESULT_ATTEMPTS = 1000;
+
+// Fixed field order, so the signature doesn't depend on how the JSON was written.
+const signedPayload = (result: UnsignedResult) => JSON.stringify([
+    result.schemaVersion,
+    result.kind,
+    result.assignmentId,
+    result.assignmentTitle,
+    result.student,
+    result.submittedAt,
+    result.attempts.map(attempt => [attempt.itemId, attempt.targetWord, attempt.transcript, attempt.isCorrect, attempt.at]),
+]);
+
+const importKey = (key: string, usage: KeyUsage) =>
+    crypto.subtle.importKey('raw', base64UrlToBytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+
+export const buildResult = (
+    assignment: Assignment,
+    student: string,
+    attempts: ResultAttempt[],
+    now = new Date(),
+): UnsignedResult => ({
+    schemaVersion: 1,
+    kind: 'assignment-result',
+    assignmentId: assignment.id,
+    assignmentTitle: assignment.title,
+    student: student.trim().slice(0, MAX_STUDENT_NAME_LENGTH),
+    submittedAt: now.toISOString(),
+    attempts: attempts.slice(-MAX_RESULT_ATTEMPTS),
+});
+
+export const signResult = async (result: UnsignedResult, key: string): Promise<AssignmentResult> => {
+    const signature = await crypto.subtle.sign('HMAC', await importKey(key, 'sign'), new TextEncoder().encode(signedPayload(result)));
+    return { ...result, signature: bytesToBase64Url(new Uint8Array(signature)) };
+};
+
+// False for a wrong key as well as for an edited file.
+export const verifyResult = async (result: AssignmentResult, key: string) => {
+    try {
+        const { signature, ...unsigned } = result;
+        return await crypto.subtle.verify(
+            'HMAC',
+            await importKey(key, 'verify'),
+            base64UrlToBytes(signature),
+            new TextEncoder().encode(signedPayload(unsigned)),
+        );
+    } catch {
+        return false;
+    }
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isDate = (value: unknown) => isString(value) && !Number.isNaN(Date.parse(value));
+
+export const validateResult = (value: unknown): string[] => {
+    if (!isObject(value)) {
+        return ['result: must be a JSON object'];
+    }
+    const errors: string[] = [];
+    if (value.schemaVersion !== 1) {
+        errors.push('schemaVersion: must be 1');
+    }
+    if (value.kind !== 'assignment-result') {
+        errors.push('kind: must be "assignment-result"');
+    }
+    for (const key of ['assignmentId', 'assignmentTitle', 'signature']) {
+        if (!isString(value[key]) || value[key] === '') {
+            errors.push(`${key}: must be a non-empty string`);
+        }
+    }
+    if (!isString(value.student) || value.student.trim() === '' || value.student.length > MAX_STUDENT_NAME_LENGTH) {
+        errors.push(`student: must be a name of 1–${MAX_STUDENT_NAME_LENGTH} characters`);
+    }
+    if (!isDate(value.submittedAt)) {
+        errors.push('submittedAt: must be an ISO 8601 date');
+    }
+    if (!Array.isArray(value.attempts) || value.attempts.length > MAX_RESULT_ATTEMPTS) {
+        errors.push(`attempts: must be an array of at most ${MAX_RESULT_ATTEMPTS} attempts`);
+        return errors;
+    }
+    value.attempts.forEach((attempt: unknown, i) => {
+        if (!isObject(attempt) || !isString(attempt.itemId) || !isString(attempt.targetWord)
+            || !isString(attempt.transcript) || typeof attempt.isCorrect !== 'boolean' || !isDate(attempt.at)) {
+            errors.push(`attempts[${i}]: must have itemId, targetWord, transcript, isCorrect and at`);
+        }
+    });
+    return errors;
+};
+
+export const parseResult = (text: string): AssignmentResult => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new ClassroomFileError(['The file is not valid JSON.']);
+    }
+    const errors = validateResult(value);
+    if (errors.length > 0) {
+        throw new ClassroomFileError(errors);
+    }
+    return value as AssignmentResult;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CoachRequest } from '../api/coach';
+import {
+    askCoach,
+    CoachUnavailableError,
+    MAX_COACH_MESSAGES,
+    parseCoachReply,
+    startConversation,
+    toSuggestedWords,
+    trimHistory,
+    type CoachAttempt,
+    type CoachMessage,
+} from './conversation';
+
+const attempt: CoachAttempt = {
+    targetWord: 'sea',
+    targetIpa: '/siː/',
+    transcript: 'she',
+    isCorrect: false,
+    feedback: 'It sounded like "she".',
+    tip: 'Keep the tongue tip forward.',
+    contrast: { a: '/s/', b: '/ʃ/' },
+};
+
+const message = (role: CoachMessage['role'], text: string): CoachMessage => ({ role, text, suggestedWords: [] });
+
+// A stand-in for the route: records each request and answers with `reply`.
+const cannedRequest = (reply: unknown) =>
+    vi.fn(async (_request: CoachRequest, _init?: RequestInit) => reply);
+
+describe('trimHistory', () => {
+    it('keeps short conversations whole', () => {
+        const messages = [message('learner', 'q1'), message('coach', 'a1')];
+        expect(trimHistory(messages)).toEqual(messages);
+    });
+
+    it('keeps the latest messages, starting on a question', () => {
+        const messages = [1, 2, 3].flatMap(i => [message('learner', `q${i}`), message('coach', `a${i}`)]);
+        expect(trimHistory(messages, 3).map(({ text }) => text)).toEqual(['q3', 'a3']);
+        expect(trimHistory(messages, 4).map(({ text }) => text)).toEqual(['q2', 'a2', 'q3', 'a3']);
+    });
+
+    it('drops answers whose question was cut off', () => {
+        expect(trimHistory([message('learner', 'q'), message('coach', 'a1'), message('coach', 'a2')], 2)).toEqual([]);
+    });
+});
+
+describe('parseCoachReply', () => {
+    it('accepts a reply and trims the suggested words', () => {
+        expect(parseCoachReply({ reply: ' Round your lips. ', suggestedWords: [' ship ', 'sure'] }))
+            .toEqual({ reply: 'Round your lips.', suggestedWords: ['ship', 'sure'] });
+    });
+
+    it('rejects replies without usable text', () => {
+        expect(parseCoachReply(null)).toBeNull();
+        expect(parseCoachReply('Round your lips.')).toBeNull();
+        expect(parseCoachReply({ reply: '   ' })).toBeNull();
+        expect(parseCoachReply({ reply: 42 })).toBeNull();
+        expect(parseCoachReply({ reply: 'x'.repeat(2001) })).toBeNull();
+    });
+
+    it('drops suggestions that are not single words instead of failing', () => {
+        expect(parseCoachReply({ reply: 'Try these.', suggestedWords: ['ship', 'sea shell', 7, '', "she's", '<b>'] }))
+            .toEqual({ reply: 'Try these.', suggestedWords: ['ship', "she's"] });
+        expect(parseCoachReply({ reply: 'No words.', suggestedWords: 'ship' })).toEqual({ reply: 'No words.', suggestedWords: [] });
+    });
+});
+
+describe('toSuggestedWords', () => {
+    it('drops repeats and the word being practised, and adds local IPA', () => {
+        const words = toSuggestedWords(['Sea', 'ship', 'SHIP', 'sip'], attempt, 'en-US');
+        expect(words.map(({ word }) => word)).toEqual(['ship', 'sip']);
+        expect(words[0].ipa).toMatch(/^\/ʃ.*\/$/);
+        expect(words[1].ipa).toMatch(/^\/s.*\/$/);
+    });
+
+    it('offers at most five words', () => {
+        expect(toSuggestedWords(['she', 'ship', 'sip', 'sell', 'shell', 'sort', 'short'], attempt, 'en-US')).toHaveLength(5);
+    });
+});
+
+describe('askCoach', () => {
+    const options = { feedbackLanguage: 'en' as const, accent: 'en-US' as const };
+
+    it('sends the question with the history and adds both turns', async () => {
+        const request = cannedRequest({ reply: 'Pull the tongue back for /ʃ/.', suggestedWords: ['ship', 'sea'] });
+        const conversation = await askCoach(startConversation(attempt), '  How do I say she?  ', { ...options, request });
+
+        expect(request).toHaveBeenCalledOnce();
+        expect(request.mock.calls[0][0]).toEqual({
+            attempt,
+            messages: [{ role: 'learner', text: 'How do I say she?' }],
+            feedbackLanguage: 'en',
+            accent: 'en-US',
+        });
+        expect(conversation.messages.map(({ role, text }) => [role, text])).toEqual([
+            ['learner', 'How do I say she?'],
+            ['coach', 'Pull the tongue back for /ʃ/.'],
+        ]);
+        expect(conversation.messages[1].suggestedWords.map(({ word }) => word)).toEqual(['ship']);
+    });
+
+    it('sends only the recent history', async () => {
+        const request = cannedRequest({ reply: 'OK.' });
+        let conversation = startConversation(attempt);
+        for (let i = 0; i < 10; i++) {
+            conversation = await askCoach(conversation, `question ${i}`, { ...options, request });
+        }
+        const sent = request.mock.lastCall![0].messages;
+        expect(sent.length).toBeLessThan(MAX_COACH_MESSAGES);
+        expect(sent[0].role).toBe('learner');
+        expect(sent[sent.length - 1]).toEqual({ role: 'learner', text: 'question 9' });
+        expect(conversation.messages.length).toBeLessThanOrEqual(MAX_COACH_MESSAGES);
+    });
+
+    it('ignores a blank question', async () => {
+        const request = cannedRequest({ reply: 'OK.' });
+        const conversation = startConversation(attempt);
+        expect(await askCoach(conversation, '   ', { ...options, request })).toBe(conversation);
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('rejects a malformed reply and leaves the conversation as it was', async () => {
+        const conversation = startConversation(attempt);
+        await expect(askCoach(conversation, 'Why?', { ...options, request: cannedRequest({ answer: 'wrong shape' }) }))
+            .rejects.toBeInstanceOf(CoachUnavailableError);
+        expect(conversation.messages).toEqual([]);
+    });
+});
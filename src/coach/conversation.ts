@@ -0,0 +1,123 @@
+import { requestCoachReply, type CoachRequest, type CoachRole } from '../api/coach';
+import type { Locale } from '../i18n/types';
+import { ipaForAccent, transcribeWord, type Accent, type PronunciationSource } from '../pronunciation';
+
+// "Ask the coach": a follow-up conversation about one analyzed attempt.
+// Plain functions over an immutable conversation; the model call is
+// injected, so a canned responder can drive it offline.
+
+export type CoachAttempt = CoachRequest['attempt'];
+
+export type SuggestedWord = {
+    word: string;
+    // From the local dictionary, not the model, so the IPA is consistent
+    // with the rest of the app.
+    ipa: string;
+    source: PronunciationSource;
+};
+
+export type CoachMessage = {
+    role: CoachRole;
+    text: string;
+    // Extra practice words offered with a coach reply.
+    suggestedWords: SuggestedWord[];
+};
+
+export type CoachConversation = {
+    attempt: CoachAttempt;
+    messages: CoachMessage[];
+};
+
+// Older turns are dropped, both in the panel and in what is sent, so long
+// chats stay cheap. api/coach.js accepts at most 20.
+export const MAX_COACH_MESSAGES = 12;
+export const MAX_QUESTION_LENGTH = 500;
+const MAX_SUGGESTED_WORDS = 5;
+
+export const startConversation = (attempt: CoachAttempt): CoachConversation => ({ attempt, messages: [] });
+
+// Keeps the latest messages, starting on a learner turn so the model never
+// sees an answer without its question.
+export const trimHistory = (messages: CoachMessage[], max = MAX_COACH_MESSAGES) => {
+    const recent = messages.slice(-max);
+    const firstQuestion = recent.findIndex(message => message.role === 'learner');
+    return firstQuestion === -1 ? [] : recent.slice(firstQuestion);
+};
+
+const isText = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim() !== '' && value.length <= 2000;
+
+// Runtime check of the route's answer. Suggestions that aren't single words
+// are dropped rather than failing the whole reply.
+export const parseCoachReply = (value: unknown): { reply: string; suggestedWords: string[] } | null => {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+    const { reply, suggestedWords } = value as Record<string, unknown>;
+    if (!isText(reply)) {
+        return null;
+    }
+    const words = Array.isArray(suggestedWords)
+        ? suggestedWords.filter((word): word is string => typeof word === 'string' && /^[a-z][a-z'-]*$/i.test(word.trim()))
+        : [];
+    return { reply: reply.trim(), suggestedWords: words.map(word => word.trim()) };
+};
+
+// Drops repeats and the word being practised, and attaches local IPA.
+export const toSuggestedWords = (words: string[], attempt: CoachAttempt, accent: Accent): SuggestedWord[] => {
+    const seen = new Set([attempt.targetWord.toLowerCase()]);
+    return words.flatMap((word) => {
+        const key = word.toLowerCase();
+        if (seen.has(key)) {
+            return [];
+        }
+        seen.add(key);
+        const transcribed = transcribeWord(word);
+        return [{ word, ipa: `/${ipaForAccent(transcribed, accent)}/`, source: transcribed.source }];
+    }).slice(0, MAX_SUGGESTED_WORDS);
+};
+
+export class CoachUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CoachUnavailableError';
+    }
+}
+
+export type AskCoachOptions = {
+    feedbackLanguage: Locale;
+    accent: Accent;
+    signal?: AbortSignal;
+    request?: typeof requestCoachReply;
+};
+
+// Sends the question with the recent history and resolves with the
+// conversation including both turns. Rejects (leaving the caller's
+// conversation untouched) when the coach can't answer.
+export const askCoach = async (
+    conversation: CoachConversation,
+    question: string,
+    { feedbackLanguage, accent, signal, request = requestCoachReply }: AskCoachOptions,
+): Promise<CoachConversation> => {
+    const text = question.trim().slice(0, MAX_QUESTION_LENGTH);
+    if (text === '') {
+        return conversation;
+    }
+    const history = trimHistory([...conversation.messages, { role: 'learner', text, suggestedWords: [] }], MAX_COACH_MESSAGES - 1);
+    const response = await request({
+        attempt: conversation.attempt,
+        messages: history.map(({ role, text }) => ({ role, text })),
+        feedbackLanguage,
+        accent,
+    }, { signal });
+    const reply = parseCoachReply(response);
+    if (!reply) {
+        throw new CoachUnavailableError('The coach sent a malformed reply.');
+    }
+    const answer: CoachMessage = {
+        role: 'coach',
+        text: reply.reply,
+        suggestedWords: toSuggestedWords(reply.suggestedWords, conversation.attempt, accent),
+    };
+    return { ...conversation, messages: [...history, answer] };
+};
@@ -0,0 +1,51 @@
+import type { AlignedWord, SibilantSwap } from '../analysis/alignment';
+import { useI18n, type Translate } from '../i18n';
+
+const SWAP_LABELS: Record<SibilantSwap, string> = {
+    's-to-sh': '/s/ → /ʃ/',
+    'sh-to-s': '/ʃ/ → /s/',
+};
+
+const describe = (t: Translate, word: AlignedWord) => {
+    switch (word.status) {
+        case 'correct':
+            return t('aligned.correct');
+        case 'missing':
+            return t('aligned.missing');
+        case 'extra':
+            return t('aligned.extra');
+        default:
+            return word.swap
+                ? t('aligned.heardSwap', { heard: word.heard ?? '', swap: SWAP_LABELS[word.swap] })
+                : t('aligned.heard', { heard: word.heard ?? '' });
+    }
+};
+
+// The target sentence with every word colored by its alignment status.
+export const AlignedSentence = ({ alignment }: { alignment: AlignedWord[] }) => {
+    const { t } = useI18n();
+    const swaps = alignment.filter(word => word.swap);
+    return (
+        <>
+            <p className="sentence-text aligned">
+                {alignment.map((word, i) => (
+                    <span key={i}>
+                        {i > 0 && ' '}
+                        <span className={`aligned-word word-${word.status} ${word.swap ? 'word-swap' : ''}`} title={describe(t, word)}>
+                            {word.status === 'extra' ? word.heard : word.target}
+                        </span>
+                    </span>
+                ))}
+            </p>
+            {swaps.length > 0 && (
+                <ul className="swap-list">
+                    {swaps.map((word, i) => (
+                        <li key={i}>
+                            {t('aligned.swap', { target: word.target ?? '', heard: word.heard ?? '', swap: SWAP_LABELS[word.swap!] })}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </>
+    );
+};
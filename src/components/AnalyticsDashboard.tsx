@@ -0,0 +1,197 @@
+import React from 'react';
+import {
+    buildConfusionMatrix,
+    contextBreakdown,
+    dailyAccuracy,
+    SOUND_EVENT_COLUMNS,
+    soundEventRows,
+    type ContextId,
+} from '../analytics/confusion';
+import { useI18n, type MessageKey } from '../i18n';
+import type { Contrast, LessonPack } from '../lessons';
+import type { Attempt } from '../progress/types';
+import { toCsv } from '../utils/csv';
+import { downloadFile, todayStamp } from '../utils/download';
+
+type AnalyticsDashboardProps = {
+    packs: LessonPack[];
+    currentPackId: string;
+    loadHistory: () => Promise<Attempt[]>;
+    onClose: () => void;
+};
+
+const TREND_DAYS = 14;
+
+const CONTEXT_LABELS: Record<ContextId, MessageKey> = {
+    beforeIy: 'context.beforeIy',
+    beforeVowel: 'context.beforeVowel',
+    beforeConsonant: 'context.beforeConsonant',
+    initial: 'context.initial',
+    medial: 'context.medial',
+    final: 'context.final',
+};
+
+const contrastKey = (contrast: Contrast) => [contrast.a.symbol, contrast.b.symbol].sort().join('|');
+
+const percent = (correct: number, total: number) => (total > 0 ? `${Math.round((correct / total) * 100)}%` : '–');
+
+// Which sounds the learner confuses, in which contexts, and how accuracy
+// has moved over the last two weeks. Packs drilling the same contrast are
+// pooled, so custom text and imported /s/–/ʃ/ packs count toward it too.
+export const AnalyticsDashboard = ({ packs, currentPackId, loadHistory, onClose }: AnalyticsDashboardProps) => {
+    const { locale, t } = useI18n();
+    const [attempts, setAttempts] = React.useState<Attempt[] | null>(null);
+    const [loadFailed, setLoadFailed] = React.useState(false);
+
+    const contrasts = React.useMemo(() => {
+        const byKey = new Map<string, Contrast>();
+        packs.forEach(pack => byKey.set(contrastKey(pack.contrast), byKey.get(contrastKey(pack.contrast)) ?? pack.contrast));
+        return byKey;
+    }, [packs]);
+    const currentPack = packs.find(pack => pack.id === currentPackId) ?? packs[0];
+    const [selectedKey, setSelectedKey] = React.useState(contrastKey(currentPack.contrast));
+    const contrast = contrasts.get(selectedKey) ?? currentPack.contrast;
+
+    React.useEffect(() => {
+        let cancelled = false;
+        loadHistory()
+            .then(history => {
+                if (!cancelled) {
+                    setAttempts(history);
+                }
+            })
+            .catch(e => {
+                console.warn("Couldn't load the history:", e);
+                setLoadFailed(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [loadHistory]);
+
+    if (loadFailed) {
+        return <p className="error-message">{t('dashboard.loadError')}</p>;
+    }
+    if (!attempts) {
+        return <div className="loader" aria-label={t('dashboard.loading')}></div>;
+    }
+
+    const packIds = new Set(packs.filter(pack => contrastKey(pack.contrast) === selectedKey).map(pack => pack.id));
+    const selected = attempts.filter(attempt => packIds.has(attempt.packId));
+    const events = selected.flatMap(attempt => attempt.sounds ?? []);
+    const matrix = buildConfusionMatrix(events, contrast);
+    const labels: Record<string, string> = { [contrast.a.symbol]: contrast.a.label, [contrast.b.symbol]: contrast.b.label };
+    const trend = dailyAccuracy(selected, TREND_DAYS, Date.now());
+
+    const handleExportCsv = () => downloadFile(
+        `sound-errors-${todayStamp()}.csv`,
+        // The byte-order mark makes Excel read the IPA symbols as UTF-8.
+        `\uFEFF${toCsv(SOUND_EVENT_COLUMNS, soundEventRows(selected))}`,
+        'text/csv',
+    );
+    const handleExportJson = () => downloadFile(
+        `sound-errors-${todayStamp()}.json`,
+        JSON.stringify({ exportedAt: new Date().toISOString(), contrast, attempts: selected }, null, 2),
+        'application/json',
+    );
+
+    return (
+        <section className="dashboard" aria-label={t('dashboard.label')}>
+            <div className="dashboard-header">
+                <h2>{t('dashboard.title')}</h2>
+                <button type="button" className="link-btn" onClick={onClose}>{t('dashboard.back')}</button>
+            </div>
+            {contrasts.size > 1 && (
+                <label className="settings-row">
+                    <span>{t('dashboard.contrast')}</span>
+                    <select value={selectedKey} onChange={(event) => setSelectedKey(event.target.value)}>
+                        {[...contrasts].map(([key, option]) => (
+                            <option key={key} value={key}>{t('dashboard.contrastOption', { a: option.a.label, b: option.b.label })}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+
+            {events.length === 0 ? (
+                <p className="dashboard-empty">{t('dashboard.empty')}</p>
+            ) : (
+                <>
+                    <h3>{t('dashboard.saidAs')}</h3>
+                    <table className="confusion-matrix">
+                        <thead>
+                            <tr>
+                                <th scope="col">{t('dashboard.target')}</th>
+                                {matrix.symbols.map(symbol => <th scope="col" key={symbol}>{labels[symbol]}</th>)}
+                                <th scope="col">{t('dashboard.unclear')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {matrix.symbols.map(intended => {
+                                const row = matrix.counts[intended];
+                                const total = Object.values(row).reduce((sum, count) => sum + count, 0);
+                                return (
+                                    <tr key={intended}>
+                                        <th scope="row">{labels[intended]}</th>
+                                        {[...matrix.symbols, 'unclear'].map(produced => (
+                                            <td key={produced} className={produced === intended ? 'hit' : row[produced] > 0 ? 'miss' : ''}>
+                                                {row[produced]}
+                                                <span className="cell-share">{percent(row[produced], total)}</span>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    <h3>{t('dashboard.byContext')}</h3>
+                    <table className="context-table">
+                        <thead>
+                            <tr>
+                                <th scope="col">{t('dashboard.context')}</th>
+                                {matrix.symbols.map(symbol => <th scope="col" key={symbol}>{labels[symbol]}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {contextBreakdown(events, matrix.symbols[0]).map((row, i) => {
+                                const other = contextBreakdown(events, matrix.symbols[1])[i];
+                                return (
+                                    <tr key={row.context}>
+                                        <th scope="row">{t(CONTEXT_LABELS[row.context])}</th>
+                                        <td>{percent(row.correct, row.total)} <span className="cell-share">({row.total})</span></td>
+                                        <td>{percent(other.correct, other.total)} <span className="cell-share">({other.total})</span></td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </>
+            )}
+
+            <h3>{t('dashboard.lastDays', { days: TREND_DAYS })}</h3>
+            <div className="trend-chart" role="img" aria-label={t('dashboard.trendLabel')}>
+                {trend.map(day => (
+                    <div
+                        key={day.day}
+                        className="trend-bar"
+                        title={t('dashboard.trendDay', {
+                            date: new Date(day.day).toLocaleDateString(locale),
+                            percent: percent(day.correct, day.total),
+                            total: day.total,
+                        })}
+                    >
+                        <div className="trend-fill" style={{ height: day.total > 0 ? `${(day.correct / day.total) * 100}%` : 0 }} />
+                    </div>
+                ))}
+            </div>
+
+            <div className="settings-row">
+                <span>{t('dashboard.export', { count: selected.length })}</span>
+                <span className="settings-actions">
+                    <button type="button" className="link-btn" onClick={handleExportCsv} disabled={selected.length === 0}>CSV</button>
+                    <button type="button" className="link-btn" onClick={handleExportJson} disabled={selected.length === 0}>JSON</button>
+                </span>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+    airflowPath,
+    easeInOut,
+    frontView,
+    interpolatePose,
+    lipPaths,
+    POSES,
+    STATIC_OUTLINE,
+    tonguePath,
+    type ArticulationPose,
+    type ArticulationSound,
+} from '../articulation/poses';
+import { useI18n } from '../i18n';
+
+type ArticulationDiagramProps = {
+    sound: ArticulationSound;
+    // Accessible name, e.g. "Articulation of /s/".
+    label: string;
+};
+
+const TRANSITION_MS = 700;
+
+const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+// Blends from whatever is on screen to the pose of `sound`, so switching
+// sounds shows the tongue and lips moving rather than a jump cut.
+const useAnimatedPose = (sound: ArticulationSound) => {
+    const [pose, setPose] = React.useState<ArticulationPose>(POSES[sound]);
+    const current = React.useRef(pose);
+
+    React.useEffect(() => {
+        const from = current.current;
+        const to = POSES[sound];
+        if (prefersReducedMotion()) {
+            current.current = to;
+            setPose(to);
+            return;
+        }
+        const startedAt = performance.now();
+        let frame = 0;
+        const step = (now: number) => {
+            const progress = Math.min(1, (now - startedAt) / TRANSITION_MS);
+            current.current = interpolatePose(from, to, easeInOut(progress));
+            setPose(current.current);
+            if (progress < 1) {
+                frame = requestAnimationFrame(step);
+            }
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [sound]);
+
+    return pose;
+};
+
+export const ArticulationDiagram = ({ sound, label }: ArticulationDiagramProps) => {
+    const { t } = useI18n();
+    const pose = useAnimatedPose(sound);
+    const lips = lipPaths(pose);
+    const front = frontView(pose);
+    // Two diagrams share the page, so the arrowhead marker needs its own id.
+    const arrowId = `articulation-arrow-${React.useId().replace(/:/g, '')}`;
+
+    return (
+        <svg className="articulation-diagram" viewBox="0 0 260 160" role="img" aria-label={label}>
+            <path className="articulation-outline" d={STATIC_OUTLINE.nose} />
+            <path className="articulation-outline" d={STATIC_OUTLINE.palate} />
+            <path className="articulation-outline" d={STATIC_OUTLINE.pharynx} />
+            <path className="articulation-outline" d={STATIC_OUTLINE.jaw} />
+            <path className="articulation-tongue" d={tonguePath(pose)} />
+            <path className="articulation-teeth" d={STATIC_OUTLINE.upperTeeth} />
+            <path className="articulation-teeth" d={STATIC_OUTLINE.lowerTeeth} />
+            <path className="articulation-lip" d={lips.upper} />
+            <path className="articulation-lip" d={lips.lower} />
+            <path className="articulation-airflow" d={airflowPath(pose)} markerEnd={`url(#${arrowId})`} />
+            <circle className="articulation-constriction" cx={pose.constriction.x} cy={pose.constriction.y} r={3} />
+
+            <g className="articulation-front">
+                <text x={228} y={14} textAnchor="middle">{t('articulation.lipsFront')}</text>
+                <ellipse className="articulation-lip" {...front.lips} />
+                <text x={228} y={92} textAnchor="middle">{t('articulation.groove')}</text>
+                <path className="articulation-tongue-section" d={front.groove} />
+            </g>
+
+            <defs>
+                <marker id={arrowId} viewBox="0 0 10 10" refX={5} refY={5} markerWidth={5} markerHeight={5} orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" className="articulation-arrowhead" />
+                </marker>
+            </defs>
+        </svg>
+    );
+};
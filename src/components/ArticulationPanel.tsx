@@ -0,0 +1,63 @@
+import React from 'react';
+import { JAPANESE_COUNTERPART, type ArticulationSound } from '../articulation/poses';
+import type { Sibilant } from '../audio/fricative';
+import { useI18n, type MessageKey } from '../i18n';
+import { ArticulationDiagram } from './ArticulationDiagram';
+
+// 'target' and 'produced' mark the two cards after the learner said the
+// other sound: what to aim for, and what came out instead.
+export type ArticulationHighlight = 'target' | 'produced' | null;
+
+type ArticulationPanelProps = {
+    sound: Sibilant;
+    highlight: ArticulationHighlight;
+};
+
+const SYMBOLS: Record<ArticulationSound, string> = { s: '/s/', sh: '/ʃ/', 'ja-su': 'す', 'ja-shi': 'し' };
+
+const NOTES: Record<ArticulationSound, MessageKey> = {
+    s: 'articulation.note.s',
+    sh: 'articulation.note.sh',
+    'ja-su': 'articulation.note.jaSu',
+    'ja-shi': 'articulation.note.jaShi',
+};
+
+// The diagram for one word-card. "Compare" morphs it into the other English
+// sibilant or into the Japanese kana learners tend to substitute.
+export const ArticulationPanel = ({ sound, highlight }: ArticulationPanelProps) => {
+    const { t } = useI18n();
+    const other: Sibilant = sound === 's' ? 'sh' : 's';
+    const [shown, setShown] = React.useState<ArticulationSound>(sound);
+
+    // A new item may put a different sound on this card.
+    React.useEffect(() => setShown(sound), [sound]);
+
+    const options: ArticulationSound[] = [sound, other, JAPANESE_COUNTERPART[sound]];
+
+    return (
+        <figure className={`articulation-panel ${highlight ?? ''}`}>
+            {highlight && (
+                <p className="articulation-highlight">
+                    {highlight === 'target' ? t('articulation.target') : t('articulation.produced')}
+                </p>
+            )}
+            <ArticulationDiagram sound={shown} label={t('articulation.label', { sound: SYMBOLS[shown] })} />
+            <div className="articulation-options" role="group" aria-label={t('articulation.compare')}>
+                {options.map(option => (
+                    <button
+                        type="button"
+                        key={option}
+                        className={shown === option ? 'active' : ''}
+                        aria-pressed={shown === option}
+                        onClick={() => setShown(option)}
+                    >
+                        {option.startsWith('ja-')
+                            ? t('articulation.japanese', { kana: SYMBOLS[option] })
+                            : t('articulation.english', { sound: SYMBOLS[option] })}
+                    </button>
+                ))}
+            </div>
+            <figcaption>{t(NOTES[shown])}</figcaption>
+        </figure>
+    );
+};
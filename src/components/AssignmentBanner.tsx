@@ -0,0 +1,77 @@
+import React from 'react';
+import type { Assignment } from '../classroom/assignment';
+import { buildResult, MAX_STUDENT_NAME_LENGTH, signResult, type ResultAttempt } from '../classroom/results';
+import { useI18n } from '../i18n';
+import { downloadFile } from '../utils/download';
+
+type AssignmentBannerProps = {
+    assignment: Assignment;
+    attempts: ResultAttempt[];
+    // Switches to the assignment's lesson.
+    onPractice: () => void;
+    onLeave: () => void;
+};
+
+// The student's side of class mode: progress on the assignment, and the
+// signed result file to hand in.
+export const AssignmentBanner = ({ assignment, attempts, onPractice, onLeave }: AssignmentBannerProps) => {
+    const { t } = useI18n();
+    const [student, setStudent] = React.useState('');
+    const [saveFailed, setSaveFailed] = React.useState(false);
+    const attempted = new Set(attempts.map(attempt => attempt.itemId)).size;
+
+    const handleDownload = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSaveFailed(false);
+        try {
+            const result = await signResult(buildResult(assignment, student, attempts), assignment.key);
+            const name = student.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'student';
+            downloadFile(`result-${assignment.id}-${name}.json`, JSON.stringify(result, null, 2), 'application/json');
+        } catch (e) {
+            // Web Crypto needs a secure context (https or localhost).
+            console.warn("Couldn't sign the result:", e);
+            setSaveFailed(true);
+        }
+    };
+
+    return (
+        <section className="assignment-banner" aria-label={t('assignment.label')}>
+            <p className="assignment-banner-title">
+                {t('assignment.title', { title: assignment.title })}
+                {' '}
+                <span className="class-table-note">
+                    {t('assignment.progress', { done: attempted, total: assignment.items.length, attempts: attempts.length })}
+                </span>
+            </p>
+            <form className="assignment-submit" onSubmit={handleDownload}>
+                <label>
+                    <span className="visually-hidden">{t('assignment.name')}</span>
+                    <input
+                        value={student}
+                        maxLength={MAX_STUDENT_NAME_LENGTH}
+                        placeholder={t('assignment.name')}
+                        onChange={(event) => setStudent(event.target.value)}
+                    />
+                </label>
+                <button type="submit" className="link-btn" disabled={student.trim() === '' || attempts.length === 0}>
+                    {t('assignment.download')}
+                </button>
+            </form>
+            <span className="settings-actions">
+                <button type="button" className="link-btn" onClick={onPractice}>{t('assignment.practice')}</button>
+                <button
+                    type="button"
+                    className="link-btn danger"
+                    onClick={() => {
+                        if (window.confirm(t('assignment.confirmLeave'))) {
+                            onLeave();
+                        }
+                    }}
+                >
+                    {t('assignment.leave')}
+                </button>
+            </span>
+            {saveFailed && <p className="error-message">{t('assignment.signFailed')}</p>}
+        </section>
+    );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { assignmentUrl, createAssignment, MAX_ASSIGNMENT_ITEMS, MAX_TITLE_LENGTH, type Assignment } from '../classroom/assignment';
+import { useI18n } from '../i18n';
+import type { LessonPack, PracticeItem } from '../lessons';
+import { downloadFile } from '../utils/download';
+
+type AssignmentBuilderProps = {
+    pack: LessonPack;
+    onCreated: (assignment: Assignment) => void;
+};
+
+const itemLabel = (item: PracticeItem) => (item.type === 'pair' ? `${item.a.word} / ${item.b.word}` : item.text);
+
+export const downloadAssignment = (assignment: Assignment) => downloadFile(
+    `assignment-${assignment.id}.json`,
+    JSON.stringify(assignment, null, 2),
+    'application/json',
+);
+
+// Picks items from the current lesson and shares them as a link or file.
+export const AssignmentBuilder = ({ pack, onCreated }: AssignmentBuilderProps) => {
+    const { t } = useI18n();
+    const [title, setTitle] = React.useState(pack.title);
+    const [selected, setSelected] = React.useState<Set<string>>(() => new Set(pack.items.slice(0, MAX_ASSIGNMENT_ITEMS).map(item => item.id)));
+    const [created, setCreated] = React.useState<Assignment | null>(null);
+    const [copied, setCopied] = React.useState(false);
+
+    // Another lesson starts a fresh selection. Keyed on the id: some packs,
+    // e.g. an open assignment's, are rebuilt on every render of the app.
+    React.useEffect(() => {
+        setTitle(pack.title);
+        setSelected(new Set(pack.items.slice(0, MAX_ASSIGNMENT_ITEMS).map(item => item.id)));
+        setCreated(null);
+    }, [pack.id]);
+
+    const toggle = (id: string) => setSelected((previous) => {
+        const next = new Set(previous);
+        if (next.has(id)) {
+            next.delete(id);
+        } else if (next.size < MAX_ASSIGNMENT_ITEMS) {
+            next.add(id);
+        }
+        return next;
+    });
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const assignment = createAssignment(title || pack.title, pack.contrast, pack.items.filter(item => selected.has(item.id)));
+        setCreated(assignment);
+        setCopied(false);
+        onCreated(assignment);
+    };
+
+    const link = created && assignmentUrl(created, window.location.href);
+
+    const handleCopy = async () => {
+        if (!link) {
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(link);
+            setCopied(true);
+        } catch (e) {
+            console.warn("Couldn't copy the link:", e);
+        }
+    };
+
+    return (
+        <form className="assignment-builder" onSubmit={handleSubmit}>
+            <h3>{t('classroom.create')}</h3>
+            <label className="settings-row">
+                <span>{t('classroom.assignmentTitle')}</span>
+                <input value={title} maxLength={MAX_TITLE_LENGTH} onChange={(event) => setTitle(event.target.value)} />
+            </label>
+            <fieldset className="assignment-items">
+                <legend>{t('classroom.pickItems', { count: selected.size, max: MAX_ASSIGNMENT_ITEMS })}</legend>
+                {pack.items.map(item => (
+                    <label key={item.id}>
+                        <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} />
+                        {itemLabel(item)}
+                    </label>
+                ))}
+            </fieldset>
+            <button type="submit" className="link-btn" disabled={selected.size === 0}>{t('classroom.createButton')}</button>
+            {created && link && (
+                <div className="assignment-share">
+                    <label>
+                        {t('classroom.link')}
+                        <input readOnly value={link} onFocus={(event) => event.target.select()} />
+                    </label>
+                    <span className="settings-actions">
+                        <button type="button" className="link-btn" onClick={() => void handleCopy()}>
+                            {copied ? t('classroom.copied') : t('classroom.copyLink')}
+                        </button>
+                        <button type="button" className="link-btn" onClick={() => downloadAssignment(created)}>
+                            {t('classroom.downloadAssignment')}
+                        </button>
+                    </span>
+                </div>
+            )}
+        </form>
+    );
+};
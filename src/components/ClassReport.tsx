@@ -0,0 +1,150 @@
+import React from 'react';
+import { ClassroomFileError, type Assignment } from '../classroom/assignment';
+import {
+    checkResult,
+    mergeResults,
+    reportItems,
+    RESULT_COLUMNS,
+    resultRows,
+    studentRow,
+    type CheckedResult,
+    type SignatureStatus,
+} from '../classroom/report';
+import { parseResult } from '../classroom/results';
+import { useI18n, type MessageKey } from '../i18n';
+import { toCsv } from '../utils/csv';
+import { downloadFile, todayStamp } from '../utils/download';
+
+type ClassReportProps = {
+    // Assignments created in this browser; their keys check the signatures.
+    assignments: Assignment[];
+};
+
+const SIGNATURE_LABELS: Record<SignatureStatus, MessageKey> = {
+    valid: 'classroom.signature.valid',
+    invalid: 'classroom.signature.invalid',
+    unknownAssignment: 'classroom.signature.unknown',
+};
+
+const percent = (correct: number, total: number) => (total > 0 ? `${Math.round((correct / total) * 100)}%` : '–');
+
+// Imports the result files students send back into one table per
+// assignment, for CSV export or printing.
+export const ClassReport = ({ assignments }: ClassReportProps) => {
+    const { locale, t } = useI18n();
+    const [results, setResults] = React.useState<CheckedResult[]>([]);
+    const [importErrors, setImportErrors] = React.useState<string[]>([]);
+    const [selectedId, setSelectedId] = React.useState<string | null>(null);
+    const fileInput = React.useRef<HTMLInputElement>(null);
+
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = [...event.target.files ?? []];
+        event.target.value = '';
+        const errors: string[] = [];
+        const checked: CheckedResult[] = [];
+        for (const file of files) {
+            try {
+                checked.push(await checkResult(parseResult(await file.text()), assignments));
+            } catch (e) {
+                const messages = e instanceof ClassroomFileError ? e.errors : [String(e)];
+                errors.push(...messages.map(message => `${file.name}: ${message}`));
+            }
+        }
+        setImportErrors(errors);
+        setResults(previous => mergeResults(previous, checked));
+        if (checked.length > 0) {
+            setSelectedId(id => id ?? checked[0].result.assignmentId);
+        }
+    };
+
+    const assignmentIds = [...new Set(results.map(({ result }) => result.assignmentId))];
+    const currentId = selectedId !== null && assignmentIds.includes(selectedId) ? selectedId : assignmentIds[0];
+    const shown = results.filter(({ result }) => result.assignmentId === currentId);
+    const assignment = assignments.find(candidate => candidate.id === currentId);
+    const items = reportItems(assignment, shown);
+    const rows = shown.map(studentRow);
+    const titleOf = (id: string) => results.find(({ result }) => result.assignmentId === id)?.result.assignmentTitle ?? id;
+
+    const handleExportCsv = () => downloadFile(
+        `class-results-${todayStamp()}.csv`,
+        // The byte-order mark makes Excel read names and IPA as UTF-8.
+        `\uFEFF${toCsv(RESULT_COLUMNS, resultRows(results))}`,
+        'text/csv',
+    );
+
+    return (
+        <section className="class-report">
+            <h3>{t('classroom.results')}</h3>
+            <div className="settings-actions no-print">
+                <button type="button" className="link-btn" onClick={() => fileInput.current?.click()}>{t('classroom.importResults')}</button>
+                {results.length > 0 && (
+                    <>
+                        <button type="button" className="link-btn" onClick={handleExportCsv}>{t('classroom.exportCsv')}</button>
+                        <button type="button" className="link-btn" onClick={() => window.print()}>{t('classroom.print')}</button>
+                        <button type="button" className="link-btn" onClick={() => setResults([])}>{t('classroom.clear')}</button>
+                    </>
+                )}
+                <input ref={fileInput} type="file" accept="application/json,.json" multiple hidden onChange={handleFiles} />
+            </div>
+            {importErrors.length > 0 && (
+                <div className="error-message pack-errors no-print" role="alert">
+                    <p>{t('classroom.importFailed')}</p>
+                    <ul>
+                        {importErrors.map((message, i) => <li key={i}>{message}</li>)}
+                    </ul>
+                </div>
+            )}
+            {results.length === 0 ? (
+                <p className="dashboard-empty">{t('classroom.noResults')}</p>
+            ) : (
+                <>
+                    {assignmentIds.length > 1 && (
+                        <label className="settings-row no-print">
+                            <span>{t('classroom.assignment')}</span>
+                            <select value={currentId} onChange={(event) => setSelectedId(event.target.value)}>
+                                {assignmentIds.map(id => <option key={id} value={id}>{titleOf(id)}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    <h4 className="print-only">{titleOf(currentId)}</h4>
+                    <div className="class-table-wrapper">
+                        <table className="class-table">
+                            <thead>
+                                <tr>
+                                    <th scope="col">{t('classroom.student')}</th>
+                                    {items.map(item => <th scope="col" key={item.id}>{item.label}</th>)}
+                                    <th scope="col">{t('classroom.total')}</th>
+                                    <th scope="col">{t('classroom.submitted')}</th>
+                                    <th scope="col">{t('classroom.signature')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.checked.result.student}>
+                                        <th scope="row">{row.checked.result.student}</th>
+                                        {items.map((item) => {
+                                            const score = row.scores[item.id];
+                                            return (
+                                                <td key={item.id} className={score ? (score.correct > 0 ? 'passed' : 'failed') : 'missing'}>
+                                                    {score ? `${score.correct}/${score.attempts}` : '–'}
+                                                </td>
+                                            );
+                                        })}
+                                        <td>
+                                            {percent(row.correct, row.attempts)}
+                                            {' '}
+                                            <span className="class-table-note">{t('classroom.itemsDone', { done: row.itemsAttempted, total: items.length })}</span>
+                                        </td>
+                                        <td>{new Date(row.checked.result.submittedAt).toLocaleString(locale)}</td>
+                                        <td className={`signature ${row.checked.signature}`}>{t(SIGNATURE_LABELS[row.checked.signature])}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="class-table-note">{t('classroom.legend')}</p>
+                </>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,70 @@
+import type { Assignment } from '../classroom/assignment';
+import { useI18n } from '../i18n';
+import type { LessonPack } from '../lessons';
+import { AssignmentBuilder, downloadAssignment } from './AssignmentBuilder';
+import { ClassReport } from './ClassReport';
+
+type ClassroomViewProps = {
+    pack: LessonPack;
+    assignments: Assignment[];
+    onCreated: (assignment: Assignment) => void;
+    onDelete: (assignmentId: string) => void;
+    onClose: () => void;
+};
+
+// The teacher's side of class mode. Works from files and links only; the
+// assignments listed here hold the keys that check students' results.
+export const ClassroomView = ({ pack, assignments, onCreated, onDelete, onClose }: ClassroomViewProps) => {
+    const { locale, t } = useI18n();
+
+    return (
+        <section className="dashboard classroom" aria-label={t('classroom.title')}>
+            <div className="dashboard-header no-print">
+                <h2>{t('classroom.title')}</h2>
+                <button type="button" className="link-btn" onClick={onClose}>{t('dashboard.back')}</button>
+            </div>
+            <p className="class-table-note no-print">{t('classroom.intro')}</p>
+            <div className="no-print">
+                <AssignmentBuilder pack={pack} onCreated={onCreated} />
+                {assignments.length > 0 && (
+                    <>
+                        <h3>{t('classroom.yourAssignments')}</h3>
+                        <ul className="assignment-list">
+                            {assignments.map(assignment => (
+                                <li key={assignment.id}>
+                                    <span>
+                                        {assignment.title}
+                                        {' '}
+                                        <span className="class-table-note">
+                                            {t('classroom.assignmentInfo', {
+                                                count: assignment.items.length,
+                                                date: new Date(assignment.createdAt).toLocaleDateString(locale),
+                                            })}
+                                        </span>
+                                    </span>
+                                    <span className="settings-actions">
+                                        <button type="button" className="link-btn" onClick={() => downloadAssignment(assignment)}>
+                                            {t('classroom.downloadAssignment')}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            className="link-btn danger"
+                                            onClick={() => {
+                                                if (window.confirm(t('classroom.confirmDelete', { title: assignment.title }))) {
+                                                    onDelete(assignment.id);
+                                                }
+                                            }}
+                                        >
+                                            {t('classroom.delete')}
+                                        </button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </div>
+            <ClassReport assignments={assignments} />
+        </section>
+    );
+};
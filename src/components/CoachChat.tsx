@@ -0,0 +1,135 @@
+import React from 'react';
+import { isAbortError } from '../analysis/analyzer';
+import {
+    askCoach,
+    MAX_QUESTION_LENGTH,
+    startConversation,
+    type CoachAttempt,
+    type SuggestedWord,
+} from '../coach/conversation';
+import { useI18n, type MessageKey } from '../i18n';
+import type { Accent } from '../pronunciation';
+
+type CoachChatProps = {
+    attempt: CoachAttempt;
+    accent: Accent;
+    // Lower-cased words already added to the session.
+    addedWords: Set<string>;
+    onAddWord: (word: SuggestedWord) => void;
+};
+
+const QUICK_QUESTIONS: MessageKey[] = ['coach.quickTongue', 'coach.quickWords'];
+
+// Follow-up questions about the attempt just analyzed. Mounted with each
+// result, so every attempt starts a fresh conversation.
+export const CoachChat = ({ attempt, accent, addedWords, onAddWord }: CoachChatProps) => {
+    const { locale, t } = useI18n();
+    const [conversation, setConversation] = React.useState(() => startConversation(attempt));
+    const [question, setQuestion] = React.useState('');
+    const [pending, setPending] = React.useState<string | null>(null);
+    const [failed, setFailed] = React.useState(false);
+    const controller = React.useRef<AbortController | null>(null);
+
+    React.useEffect(() => () => controller.current?.abort(), []);
+
+    const ask = async (text: string) => {
+        if (text.trim() === '' || pending !== null) {
+            return;
+        }
+        setPending(text.trim());
+        setQuestion('');
+        setFailed(false);
+        controller.current = new AbortController();
+        try {
+            setConversation(await askCoach(conversation, text, {
+                feedbackLanguage: locale,
+                accent,
+                signal: controller.current.signal,
+            }));
+        } catch (e) {
+            if (isAbortError(e)) {
+                return;
+            }
+            console.warn('The coach could not answer:', e);
+            setFailed(true);
+            // Give the question back so it can be sent again.
+            setQuestion(text);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        void ask(question);
+    };
+
+    return (
+        <section className="coach-chat" aria-label={t('coach.title')}>
+            <h3 className="coach-chat-title">{t('coach.title')}</h3>
+            <ol className="coach-messages" aria-live="polite">
+                {conversation.messages.map((message, i) => (
+                    <li key={i} className={`coach-message ${message.role}`}>
+                        <span className="visually-hidden">{message.role === 'learner' ? t('coach.you') : t('coach.coach')}: </span>
+                        <p>{message.text}</p>
+                        {message.suggestedWords.length > 0 && (
+                            <div className="coach-suggestions">
+                                <span>{t('coach.suggested')}</span>
+                                {message.suggestedWords.map(suggestion => {
+                                    const isAdded = addedWords.has(suggestion.word.toLowerCase());
+                                    return (
+                                        <button
+                                            type="button"
+                                            key={suggestion.word}
+                                            className={`coach-suggestion ${isAdded ? 'added' : ''}`}
+                                            onClick={() => onAddWord(suggestion)}
+                                            disabled={isAdded}
+                                            aria-label={isAdded
+                                                ? t('coach.added', { word: suggestion.word })
+                                                : t('coach.addWord', { word: suggestion.word })}
+                                            title={suggestion.source === 'rules' ? t('coach.guessedIpa') : undefined}
+                                        >
+                                            {isAdded ? '✓' : '+'} {suggestion.word} <span className="ipa">{suggestion.ipa}</span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </li>
+                ))}
+                {pending !== null && (
+                    <>
+                        <li className="coach-message learner"><p>{pending}</p></li>
+                        <li className="coach-message coach pending" aria-label={t('coach.thinking')}><p>…</p></li>
+                    </>
+                )}
+            </ol>
+
+            {conversation.messages.length === 0 && pending === null && (
+                <div className="coach-quick">
+                    {QUICK_QUESTIONS.map(key => (
+                        <button type="button" key={key} className="link-btn" onClick={() => void ask(t(key))}>
+                            {t(key)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form className="coach-form" onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    value={question}
+                    maxLength={MAX_QUESTION_LENGTH}
+                    onChange={(event) => setQuestion(event.target.value)}
+                    placeholder={t('coach.placeholder')}
+                    aria-label={t('coach.placeholder')}
+                    disabled={pending !== null}
+                />
+                <button type="submit" className="link-btn" disabled={pending !== null || question.trim() === ''}>
+                    {t('coach.send')}
+                </button>
+            </form>
+            {failed && <p className="error-message">{t('coach.unavailable')}</p>}
+        </section>
+    );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { findFricativeSegment, type FricativeSegment } from '../audio/fricative';
+import type { PcmAudio } from '../audio/pcm';
+import { playPcm, stopPlayback } from '../audio/playback';
+import { decodeAudioFile } from '../audio/recorder';
+import { speak } from '../audio/speech';
+import { useI18n } from '../i18n';
+import type { Accent } from '../pronunciation';
+import { SpectrogramView } from './SpectrogramView';
+
+type Source = 'attempt' | 'reference';
+
+type ComparePanelProps = {
+    attempt: PcmAudio;
+    // The target word or sentence, spoken by speechSynthesis when there is no recording.
+    referenceText: string;
+    referenceAudioUrl?: string;
+    // Picks the speechSynthesis voice for the reference.
+    accent: Accent;
+};
+
+type Clip = {
+    audio: PcmAudio;
+    segment: FricativeSegment | null;
+};
+
+const toClip = (audio: PcmAudio): Clip => ({ audio, segment: findFricativeSegment(audio) });
+
+// The learner's attempt and a reference pronunciation side by side, each
+// with its waveform and spectrogram. speechSynthesis output can't be
+// captured by Web Audio, so the reference is only drawn when the lesson
+// pack ships a recording for it (the bundled s/sh pack does).
+export const ComparePanel = ({ attempt, referenceText, referenceAudioUrl, accent }: ComparePanelProps) => {
+    const { t } = useI18n();
+    const [loopFricative, setLoopFricative] = React.useState(false);
+    const [playing, setPlaying] = React.useState<Source | null>(null);
+    const [reference, setReference] = React.useState<Clip | null>(null);
+    const attemptClip = React.useMemo(() => toClip(attempt), [attempt]);
+
+    React.useEffect(() => {
+        setReference(null);
+        if (!referenceAudioUrl) {
+            return;
+        }
+        let cancelled = false;
+        fetch(referenceAudioUrl)
+            .then(response => response.arrayBuffer())
+            .then(decodeAudioFile)
+            .then(audio => {
+                if (!cancelled) {
+                    setReference(toClip(audio));
+                }
+            })
+            .catch(e => console.warn("Couldn't load the reference recording:", e));
+        return () => {
+            cancelled = true;
+        };
+    }, [referenceAudioUrl]);
+
+    // Stop whatever is playing when the panel goes away.
+    React.useEffect(() => () => {
+        stopPlayback();
+        window.speechSynthesis?.cancel();
+    }, []);
+
+    const stop = () => {
+        stopPlayback();
+        window.speechSynthesis?.cancel();
+        setPlaying(null);
+    };
+
+    const handlePlay = async (source: Source) => {
+        const wasPlaying = playing;
+        stop();
+        if (wasPlaying === source) {
+            return;
+        }
+        setPlaying(source);
+        const clip = source === 'attempt' ? attemptClip : reference;
+        if (clip) {
+            playPcm(clip.audio, {
+                loop: loopFricative && clip.segment ? clip.segment : undefined,
+                onEnded: () => setPlaying(current => (current === source ? null : current)),
+            });
+            return;
+        }
+        await speak(referenceText, { lang: accent }).catch(e => console.warn(e));
+        setPlaying(current => (current === source ? null : current));
+    };
+
+    const canLoop = attemptClip.segment !== null || reference?.segment;
+
+    return (
+        <div className="compare-panel">
+            <div className="compare-sides">
+                {(['attempt', 'reference'] as const).map(source => {
+                    const clip = source === 'attempt' ? attemptClip : reference;
+                    return (
+                        <section key={source} className="compare-side">
+                            <h4>{source === 'attempt' ? t('compare.attempt') : t('compare.reference')}</h4>
+                            {clip
+                                ? <SpectrogramView audio={clip.audio} segment={clip.segment} />
+                                : <p className="compare-note">{t('compare.noSpectrogram')}</p>}
+                            <button type="button" className="link-btn" onClick={() => handlePlay(source)}>
+                                {playing === source ? t('compare.stop') : t('compare.play')}
+                            </button>
+                        </section>
+                    );
+                })}
+            </div>
+            <div className="compare-controls">
+                <label className={!canLoop ? 'disabled' : ''}>
+                    <input
+                        type="checkbox"
+                        checked={loopFricative}
+                        disabled={!canLoop}
+                        onChange={(event) => setLoopFricative(event.target.checked)}
+                    />
+                    {t('compare.loop')}
+                </label>
+            </div>
+        </div>
+    );
+};
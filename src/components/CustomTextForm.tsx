@@ -0,0 +1,85 @@
+import React from 'react';
+import { useI18n, type Translate } from '../i18n';
+import { MAX_CUSTOM_ENTRIES, parseCustomEntries, type CustomEntry, type CustomEntryError } from '../lessons';
+import { formatIpa, type Accent } from '../pronunciation';
+import { HighlightedIpa } from './HighlightedIpa';
+
+type CustomTextFormProps = {
+    // The preview shows the IPA of this accent.
+    accent: Accent;
+    disabled: boolean;
+    onPractice: (entries: CustomEntry[]) => void;
+};
+
+const describeError = (t: Translate, error: CustomEntryError) => {
+    switch (error.type) {
+        case 'tooMany':
+            return t('custom.tooMany', { max: error.max });
+        case 'tooLong':
+            return t('custom.tooLong', { line: error.line, max: error.max });
+        case 'noWords':
+            return t('custom.noWords', { line: error.line });
+    }
+};
+
+// Paste a word list or sentences and drill them straight away. The IPA
+// preview updates as you type; words the dictionary doesn't know are marked
+// as guesses.
+export const CustomTextForm = ({ accent, disabled, onPractice }: CustomTextFormProps) => {
+    const { t } = useI18n();
+    const [input, setInput] = React.useState('');
+    const { entries, errors } = React.useMemo(() => parseCustomEntries(input), [input]);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (entries.length > 0) {
+            onPractice(entries);
+        }
+    };
+
+    return (
+        <details className="custom-text-panel">
+            <summary>{t('custom.summary')}</summary>
+            <form onSubmit={handleSubmit}>
+                <label className="custom-text-label" htmlFor="custom-text">
+                    {t('custom.instructions', { max: MAX_CUSTOM_ENTRIES })}
+                </label>
+                <textarea
+                    id="custom-text"
+                    rows={4}
+                    value={input}
+                    onChange={(event) => setInput(event.target.value)}
+                    placeholder={'seashell = 貝殻\nShe sells seashells by the seashore.'}
+                />
+                {entries.length > 0 && (
+                    <ul className="custom-preview">
+                        {entries.map((entry, i) => {
+                            const guessed = entry.words.filter(word => word.source === 'rules');
+                            return (
+                                <li key={i}>
+                                    <span className="custom-preview-text">{entry.text}</span>
+                                    <HighlightedIpa ipa={formatIpa(entry.words, accent)} />
+                                    {guessed.length > 0 && (
+                                        <span className="custom-preview-note">
+                                            {t('custom.guessed', { words: guessed.map(word => word.text).join(', ') })}
+                                        </span>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+                {errors.length > 0 && (
+                    <ul className="error-message custom-errors">
+                        {errors.map((error, i) => <li key={i}>{describeError(t, error)}</li>)}
+                    </ul>
+                )}
+                <button type="submit" className="link-btn" disabled={disabled || entries.length === 0}>
+                    {entries.length === 0 ? t('custom.practice')
+                        : entries.length === 1 ? t('custom.practiceOne')
+                        : t('custom.practiceMany', { count: entries.length })}
+                </button>
+            </form>
+        </details>
+    );
+};
@@ -0,0 +1,134 @@
+import {
+    AUTO_ADVANCE_OPTIONS,
+    drillTimeLeft,
+    isDrillOver,
+    SESSION_LENGTH_OPTIONS,
+    TIME_LIMIT_OPTIONS,
+    type DrillSession,
+    type DrillSettings,
+} from '../drill/session';
+import { useI18n } from '../i18n';
+
+type DrillPanelProps = {
+    settings: DrillSettings;
+    onSettingsChange: (settings: DrillSettings) => void;
+    // Null before the first session.
+    session: DrillSession | null;
+    // Ticks once a second while a session runs.
+    now: number;
+    // Voice commands need a streaming recognizer.
+    commandsSupported: boolean;
+    listeningForCommand: boolean;
+    disabled: boolean;
+    onStart: () => void;
+    onStop: () => void;
+};
+
+const formatClock = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Option values are numbers or null; selects need strings.
+const toOption = (value: number | null) => (value === null ? 'off' : String(value));
+const fromOption = (value: string) => (value === 'off' ? null : Number(value));
+
+// Hands-free drills: Space to talk, results move on by themselves, and spoken
+// commands between attempts.
+export const DrillPanel = ({
+    settings,
+    onSettingsChange,
+    session,
+    now,
+    commandsSupported,
+    listeningForCommand,
+    disabled,
+    onStart,
+    onStop,
+}: DrillPanelProps) => {
+    const { t } = useI18n();
+    const update = (patch: Partial<DrillSettings>) => onSettingsChange({ ...settings, ...patch });
+    const timeLeft = session && drillTimeLeft(session, settings, now);
+
+    if (session && !isDrillOver(session)) {
+        return (
+            <section className="drill-panel active" aria-label={t('drill.title')}>
+                <p className="drill-progress">
+                    <span>{t('drill.progress', { attempt: Math.min(session.attempts + 1, settings.sessionLength), total: settings.sessionLength })}</span>
+                    {timeLeft !== null && <span className="drill-clock">{t('drill.timeLeft', { time: formatClock(timeLeft) })}</span>}
+                </p>
+                <p className="drill-hint">
+                    <kbd>{t('drill.space')}</kbd> {t('drill.pushToTalk')}
+                </p>
+                {settings.voiceCommands && commandsSupported && (
+                    <p className={`drill-hint ${listeningForCommand ? 'listening' : ''}`}>{t('drill.commands')}</p>
+                )}
+                <button type="button" className="link-btn" onClick={onStop}>{t('drill.stop')}</button>
+            </section>
+        );
+    }
+
+    return (
+        <section className="drill-panel" aria-label={t('drill.title')}>
+            {session?.endReason && (
+                <p className="drill-summary" role="status">
+                    {session.endReason === 'time' ? t('drill.endedTime') : t('drill.ended')}{' '}
+                    {t('drill.score', { correct: session.correct, attempts: session.attempts })}
+                </p>
+            )}
+            <details>
+                <summary>{t('drill.settings')}</summary>
+                <div className="drill-settings">
+                    <label>
+                        {t('drill.sessionLength')}
+                        <select value={settings.sessionLength} onChange={(event) => update({ sessionLength: Number(event.target.value) })}>
+                            {SESSION_LENGTH_OPTIONS.map(option => (
+                                <option key={option} value={option}>{t('drill.attempts', { count: option })}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        {t('drill.timeLimit')}
+                        <select value={toOption(settings.timeLimitMs)} onChange={(event) => update({ timeLimitMs: fromOption(event.target.value) })}>
+                            {TIME_LIMIT_OPTIONS.map(option => (
+                                <option key={toOption(option)} value={toOption(option)}>
+                                    {option === null ? t('drill.noLimit') : t('drill.minutes', { count: option / 60000 })}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        {t('drill.autoAdvance')}
+                        <select value={toOption(settings.autoAdvanceMs)} onChange={(event) => update({ autoAdvanceMs: fromOption(event.target.value) })}>
+                            {AUTO_ADVANCE_OPTIONS.map(option => (
+                                <option key={toOption(option)} value={toOption(option)}>
+                                    {option === null ? t('drill.autoAdvanceOff') : t('drill.seconds', { count: option / 1000 })}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="drill-check">
+                        <input
+                            type="checkbox"
+                            checked={settings.voiceCommands && commandsSupported}
+                            disabled={!commandsSupported}
+                            onChange={(event) => update({ voiceCommands: event.target.checked })}
+                        />
+                        {commandsSupported ? t('drill.voiceCommands') : t('drill.voiceCommandsUnsupported')}
+                    </label>
+                    <label className="drill-check">
+                        <input
+                            type="checkbox"
+                            checked={settings.audioCues}
+                            onChange={(event) => update({ audioCues: event.target.checked })}
+                        />
+                        {t('drill.audioCues')}
+                    </label>
+                </div>
+            </details>
+            <button type="button" className="link-btn" onClick={onStart} disabled={disabled}>
+                {session ? t('drill.restart') : t('drill.start')}
+            </button>
+        </section>
+    );
+};
@@ -0,0 +1,112 @@
+import React from 'react';
+import { isAbortError } from '../analysis/analyzer';
+import { useI18n, type MessageKey } from '../i18n';
+import {
+    DIFFICULTIES,
+    generatePracticeItems,
+    WORD_POSITIONS,
+    type Contrast,
+    type Difficulty,
+    type PracticeItem,
+    type WordPosition,
+} from '../lessons';
+
+type GenerateFormProps = {
+    contrast: Contrast;
+    // Items the learner already has, so the model's repeats are skipped.
+    existing: PracticeItem[];
+    disabled: boolean;
+    onGenerated: (items: PracticeItem[]) => void;
+};
+
+const DIFFICULTY_LABELS: Record<Difficulty, MessageKey> = {
+    beginner: 'generate.difficulty.beginner',
+    intermediate: 'generate.difficulty.intermediate',
+    advanced: 'generate.difficulty.advanced',
+};
+
+const POSITION_LABELS: Record<WordPosition, MessageKey> = {
+    initial: 'generate.position.initial',
+    medial: 'generate.position.medial',
+    final: 'generate.position.final',
+    cluster: 'generate.position.cluster',
+};
+
+type GenerateStatus =
+    | { type: 'idle' }
+    | { type: 'pending' }
+    | { type: 'done'; added: number; rejected: number }
+    | { type: 'failed' };
+
+// "Generate more": asks the model for new pairs and sentences and keeps the
+// ones the pronunciation dictionary confirms.
+export const GenerateForm = ({ contrast, existing, disabled, onGenerated }: GenerateFormProps) => {
+    const { t } = useI18n();
+    const [difficulty, setDifficulty] = React.useState<Difficulty>('beginner');
+    const [position, setPosition] = React.useState<WordPosition>('initial');
+    const [status, setStatus] = React.useState<GenerateStatus>({ type: 'idle' });
+    const controller = React.useRef<AbortController | null>(null);
+
+    React.useEffect(() => () => controller.current?.abort(), []);
+
+    const generate = async () => {
+        setStatus({ type: 'pending' });
+        controller.current = new AbortController();
+        try {
+            const { items, rejected } = await generatePracticeItems({
+                contrast,
+                difficulty,
+                position,
+                existing,
+                signal: controller.current.signal,
+            });
+            setStatus({ type: 'done', added: items.length, rejected: rejected.length });
+            if (items.length > 0) {
+                onGenerated(items);
+            }
+        } catch (e) {
+            if (isAbortError(e)) {
+                return;
+            }
+            console.warn('Practice items could not be generated:', e);
+            setStatus({ type: 'failed' });
+        }
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        void generate();
+    };
+
+    return (
+        <details className="generate-panel">
+            <summary>{t('generate.summary')}</summary>
+            <form onSubmit={handleSubmit}>
+                <p className="generate-intro">{t('generate.intro', { a: contrast.a.label, b: contrast.b.label })}</p>
+                <div className="generate-options">
+                    <label>
+                        {t('generate.difficulty')}
+                        <select value={difficulty} onChange={(event) => setDifficulty(event.target.value as Difficulty)}>
+                            {DIFFICULTIES.map(option => <option key={option} value={option}>{t(DIFFICULTY_LABELS[option])}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        {t('generate.position')}
+                        <select value={position} onChange={(event) => setPosition(event.target.value as WordPosition)}>
+                            {WORD_POSITIONS.map(option => <option key={option} value={option}>{t(POSITION_LABELS[option])}</option>)}
+                        </select>
+                    </label>
+                </div>
+                <button type="submit" className="link-btn" disabled={disabled || status.type === 'pending'}>
+                    {status.type === 'pending' ? t('generate.pending') : t('generate.submit')}
+                </button>
+                <p className="generate-status" aria-live="polite">
+                    {status.type === 'done' && (status.added > 0
+                        ? t('generate.added', { added: status.added, rejected: status.rejected })
+                        : t('generate.noneAdded', { rejected: status.rejected }))}
+                </p>
+                {status.type === 'failed' && <p className="error-message">{t('generate.unavailable')}</p>}
+            </form>
+        </details>
+    );
+};
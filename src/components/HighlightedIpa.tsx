@@ -0,0 +1,12 @@
+import { SIBILANT_SYMBOLS } from '../pronunciation';
+
+// Affricates are matched first so the ʃ in tʃ and the ʒ in dʒ stay unmarked.
+const SEGMENTS = /(tʃ|dʒ|[sʃzʒ])/;
+
+// IPA with every /s/, /ʃ/, /z/ and /ʒ/ marked.
+export const HighlightedIpa = ({ ipa, className = 'ipa' }: { ipa: string; className?: string }) => (
+    <p className={className}>
+        {ipa.split(SEGMENTS).map((part, i) =>
+            SIBILANT_SYMBOLS.includes(part) ? <mark key={i} className="ipa-sibilant">{part}</mark> : part)}
+    </p>
+);
@@ -0,0 +1,162 @@
+import React from 'react';
+import { isSpeechSynthesisSupported, loadVoices, speak, voicesFor } from '../audio/speech';
+import { useI18n } from '../i18n';
+import type { Contrast, ContrastSide, PairItem } from '../lessons';
+import type { Accent } from '../pronunciation';
+import type { PerceptionScore } from '../progress/types';
+
+type Prompt = {
+    side: ContrastSide;
+    voice: SpeechSynthesisVoice | null;
+    rate: number;
+};
+
+type ListeningDrillProps = {
+    item: PairItem;
+    contrast: Contrast;
+    accent: Accent;
+    score: PerceptionScore | undefined;
+    streak: number;
+    bestStreak: number;
+    onAnswer: (isCorrect: boolean) => void;
+    onNext: () => void;
+};
+
+// Different voices of the target accent and different speeds keep the
+// learner listening for the sound itself rather than for one voice's habits.
+const RATES = [0.75, 0.9, 1, 1.1];
+// A correct answer moves on by itself so streaks keep their rhythm.
+const AUTO_ADVANCE_MS = 1200;
+
+const pickOne = <T,>(values: T[]) => values[Math.floor(Math.random() * values.length)];
+
+const pickPrompt = (voices: SpeechSynthesisVoice[]): Prompt => ({
+    side: Math.random() < 0.5 ? 'a' : 'b',
+    voice: voices.length > 0 ? pickOne(voices) : null,
+    rate: pickOne(RATES),
+});
+
+// Perception drill on a minimal pair: one of the two words is spoken and the
+// learner taps the one they heard.
+export const ListeningDrill = ({ item, contrast, accent, score, streak, bestStreak, onAnswer, onNext }: ListeningDrillProps) => {
+    const { t } = useI18n();
+    const [voices, setVoices] = React.useState<SpeechSynthesisVoice[] | null>(null);
+    const [prompt, setPrompt] = React.useState<Prompt | null>(null);
+    const [answer, setAnswer] = React.useState<ContrastSide | null>(null);
+    const [playFailed, setPlayFailed] = React.useState(false);
+    const isSupported = isSpeechSynthesisSupported();
+    // The parent passes a new onNext on every render (recording the answer
+    // re-renders it), which must not restart the auto-advance timer.
+    const onNextRef = React.useRef(onNext);
+    onNextRef.current = onNext;
+
+    React.useEffect(() => {
+        let cancelled = false;
+        loadVoices().then(all => {
+            if (!cancelled) {
+                setVoices(voicesFor(all, accent));
+            }
+        });
+        return () => {
+            cancelled = true;
+            window.speechSynthesis?.cancel();
+        };
+    }, [accent]);
+
+    const play = React.useCallback((text: string, { voice, rate }: Pick<Prompt, 'voice' | 'rate'>) => {
+        setPlayFailed(false);
+        speak(text, { lang: accent, voice, rate }).catch((e) => {
+            console.warn(e);
+            setPlayFailed(true);
+        });
+    }, [accent]);
+
+    // A fresh prompt, played straight away, for every new pair.
+    React.useEffect(() => {
+        if (!voices || !isSupported) {
+            return;
+        }
+        const next = pickPrompt(voices);
+        setPrompt(next);
+        setAnswer(null);
+        play(item[next.side].word, next);
+    }, [item, voices, isSupported, play]);
+
+    React.useEffect(() => {
+        if (!answer || !prompt || answer !== prompt.side) {
+            return;
+        }
+        const timer = setTimeout(() => onNextRef.current(), AUTO_ADVANCE_MS);
+        return () => clearTimeout(timer);
+    }, [answer, prompt]);
+
+    if (!isSupported) {
+        return <p className="listening-drill">{t('listening.unsupported')}</p>;
+    }
+
+    const handleAnswer = (side: ContrastSide) => {
+        if (!prompt || answer) {
+            return;
+        }
+        setAnswer(side);
+        onAnswer(side === prompt.side);
+    };
+
+    const isCorrect = answer !== null && answer === prompt?.side;
+
+    return (
+        <div className="listening-drill">
+            <button
+                type="button"
+                className="play-btn"
+                onClick={() => prompt && play(item[prompt.side].word, prompt)}
+                disabled={!prompt}
+            >
+                {t('listening.playAgain')}
+            </button>
+            <div className="pair-container">
+                {(['a', 'b'] as const).map(side => (
+                    <button
+                        type="button"
+                        key={side}
+                        className={`word-card choice-btn ${answer && prompt?.side === side ? 'answer' : ''} ${answer === side && !isCorrect ? 'wrong' : ''}`}
+                        onClick={() => handleAnswer(side)}
+                        disabled={!prompt || answer !== null}
+                    >
+                        <span className="word">{item[side].word}</span>
+                        <span className="ipa">{contrast[side].label}</span>
+                    </button>
+                ))}
+            </div>
+            <div className={`feedback-container ${answer ? `result ${isCorrect ? 'correct' : 'incorrect'}` : ''}`} aria-live="polite">
+                {!answer && <p>{t('listening.question')}</p>}
+                {answer && prompt && (
+                    <>
+                        <div className={`feedback-header ${isCorrect ? 'correct' : 'incorrect'}`}>
+                            <span>{isCorrect ? t('listening.correct') : t('listening.itWas', { word: item[prompt.side].word })}</span>
+                        </div>
+                        {!isCorrect && (
+                            <p className="feedback-text">
+                                {t('listening.compare')}{' '}
+                                {(['a', 'b'] as const).map(side => (
+                                    <button type="button" key={side} className="link-btn" onClick={() => play(item[side].word, prompt)}>
+                                        {item[side].word}
+                                    </button>
+                                ))}
+                            </p>
+                        )}
+                    </>
+                )}
+                <p className="listening-stats">
+                    {t('listening.streak', { streak, best: bestStreak })}
+                    {score && t('listening.pairScore', {
+                        correct: score.correct,
+                        total: score.total,
+                        percent: Math.round((score.correct / score.total) * 100),
+                    })}
+                </p>
+            </div>
+            {playFailed && <p className="error-message">{t('listening.playError')}</p>}
+        </div>
+    );
+};
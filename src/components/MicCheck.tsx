@@ -0,0 +1,193 @@
+import React from 'react';
+import { listInputDevices, microphoneConstraints, monitorInput, type LevelFrame } from '../audio/inputMonitor';
+import { assessMic, isClipping, toDbfs, type FrameLevel, type MicAssessment, type MicWarning } from '../audio/levels';
+import { useI18n, type MessageKey } from '../i18n';
+
+type MicCheckProps = {
+    // null means the system default microphone.
+    deviceId: string | null;
+    onDeviceChange: (deviceId: string | null) => void;
+    assessment: MicAssessment | null;
+    onAssessed: (assessment: MicAssessment) => void;
+    // The Web Speech recognizer always listens to the default microphone.
+    ignoresDevice: boolean;
+    disabled: boolean;
+};
+
+const QUIET_MS = 2000;
+const SPEECH_MS = 3000;
+// The meter spans this many dB below full scale.
+const METER_RANGE_DB = 60;
+
+const WARNING_MESSAGES: Record<MicWarning, MessageKey> = {
+    clipping: 'micCheck.clipping',
+    quiet: 'micCheck.quiet',
+    noisy: 'micCheck.noisy',
+    'no-speech': 'micCheck.noSpeech',
+};
+
+const meterPercent = (amplitude: number) =>
+    Math.max(0, Math.min(100, ((toDbfs(amplitude) + METER_RANGE_DB) / METER_RANGE_DB) * 100));
+
+const formatDb = (amplitude: number) => Math.round(Math.max(toDbfs(amplitude), -99)).toString();
+
+const InputMeter = ({ level }: { level: FrameLevel | null }) => {
+    const { t } = useI18n();
+    const rmsDb = level ? Math.round(Math.max(toDbfs(level.rms), -METER_RANGE_DB)) : -METER_RANGE_DB;
+    return (
+        <div
+            className={`input-meter ${level && isClipping(level.peak) ? 'clipping' : ''}`}
+            role="meter"
+            aria-label={t('micCheck.level')}
+            aria-valuemin={-METER_RANGE_DB}
+            aria-valuemax={0}
+            aria-valuenow={rmsDb}
+            aria-valuetext={`${rmsDb} dBFS`}
+        >
+            <div className="input-meter-fill" style={{ width: `${level ? meterPercent(level.rms) : 0}%` }} />
+            {level && <div className="input-meter-peak" style={{ left: `${meterPercent(level.peak)}%` }} />}
+        </div>
+    );
+};
+
+// Pre-flight check: pick a microphone, watch its level, then measure the
+// room's noise floor and a spoken sample. The result sets the threshold voice
+// activity detection uses during attempts.
+export const MicCheck = ({ deviceId, onDeviceChange, assessment, onAssessed, ignoresDevice, disabled }: MicCheckProps) => {
+    const { t } = useI18n();
+    const [devices, setDevices] = React.useState<MediaDeviceInfo[]>([]);
+    const [phase, setPhase] = React.useState<'idle' | 'quiet' | 'speech'>('idle');
+    const [level, setLevel] = React.useState<LevelFrame | null>(null);
+    const [error, setError] = React.useState('');
+    const stopCheck = React.useRef<(() => void) | null>(null);
+    // getUserMedia can outlive the component, e.g. while the permission prompt is open.
+    const isMounted = React.useRef(false);
+
+    React.useEffect(() => {
+        isMounted.current = true;
+        return () => {
+            isMounted.current = false;
+        };
+    }, []);
+
+    const refreshDevices = React.useCallback(() => {
+        listInputDevices().then(setDevices, (e) => console.warn("Couldn't list microphones:", e));
+    }, []);
+
+    React.useEffect(() => {
+        if (!navigator.mediaDevices?.enumerateDevices) {
+            return;
+        }
+        refreshDevices();
+        navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+        return () => {
+            navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+            stopCheck.current?.();
+        };
+    }, [refreshDevices]);
+
+    const handleStart = async () => {
+        setError('');
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia(microphoneConstraints(deviceId));
+        } catch (e) {
+            if (isMounted.current) {
+                setError(t('micCheck.failed', { message: e instanceof Error ? e.message : String(e) }));
+            }
+            return;
+        }
+        if (!isMounted.current) {
+            // Nobody is left to stop it, so release the microphone now.
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        // Device names are only revealed once microphone access is granted.
+        refreshDevices();
+
+        const quiet: FrameLevel[] = [];
+        const speech: FrameLevel[] = [];
+        const startedAt = performance.now();
+        const finish = () => {
+            stopMonitor();
+            stream.getTracks().forEach(track => track.stop());
+            stopCheck.current = null;
+            setPhase('idle');
+            setLevel(null);
+        };
+        const stopMonitor = monitorInput(stream, (frame) => {
+            setLevel(frame);
+            const elapsed = frame.at - startedAt;
+            if (elapsed < QUIET_MS) {
+                quiet.push(frame);
+            } else if (elapsed < QUIET_MS + SPEECH_MS) {
+                speech.push(frame);
+                setPhase('speech');
+            } else {
+                finish();
+                onAssessed(assessMic(quiet, speech));
+            }
+        });
+        stopCheck.current = finish;
+        setPhase('quiet');
+    };
+
+    const isChecking = phase !== 'idle';
+    const hasWarnings = assessment !== null && assessment.warnings.length > 0;
+    // Until access is granted, browsers list devices without ids or names.
+    const namedDevices = devices.filter(device => device.deviceId !== '' && device.deviceId !== 'default');
+
+    return (
+        <details className="mic-check">
+            <summary>
+                {t('micCheck.summary')}
+                {hasWarnings && <span className="mic-check-badge">{t('micCheck.warningBadge')}</span>}
+            </summary>
+            {namedDevices.length > 0 && (
+                <label className="settings-row">
+                    <span>{t('micCheck.device')}</span>
+                    <select
+                        value={deviceId ?? ''}
+                        onChange={(event) => onDeviceChange(event.target.value || null)}
+                        disabled={disabled || isChecking}
+                    >
+                        <option value="">{t('micCheck.defaultDevice')}</option>
+                        {namedDevices.map((device, i) => (
+                            <option key={device.deviceId} value={device.deviceId}>
+                                {device.label || t('micCheck.unnamedDevice', { number: i + 1 })}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            {ignoresDevice && deviceId !== null && <p className="mic-check-note">{t('micCheck.webSpeechNote')}</p>}
+
+            <InputMeter level={level} />
+            {phase === 'quiet' && <p aria-live="polite">{t('micCheck.stayQuiet')}</p>}
+            {phase === 'speech' && <p aria-live="polite">{t('micCheck.speak')}</p>}
+
+            {!isChecking && assessment && (
+                <div className="mic-check-result" aria-live="polite">
+                    <p>
+                        {t('micCheck.result', {
+                            noise: formatDb(assessment.noiseFloor),
+                            speech: assessment.speechLevel === null ? '—' : formatDb(assessment.speechLevel),
+                        })}
+                    </p>
+                    {hasWarnings ? (
+                        <ul className="error-message">
+                            {assessment.warnings.map(warning => <li key={warning}>{t(WARNING_MESSAGES[warning])}</li>)}
+                        </ul>
+                    ) : (
+                        <p className="mic-check-ok">{t('micCheck.ok')}</p>
+                    )}
+                </div>
+            )}
+            {error && <p className="error-message">{error}</p>}
+
+            <button type="button" className="link-btn" onClick={() => void handleStart()} disabled={disabled || isChecking}>
+                {assessment ? t('micCheck.again') : t('micCheck.start')}
+            </button>
+        </details>
+    );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ClassroomFileError, isAssignmentFile, parseAssignment, type Assignment } from '../classroom/assignment';
+import { useI18n } from '../i18n';
+import { LessonPackError, parseLessonPack, type LessonPack } from '../lessons';
+
+type PackPickerProps = {
+    packs: LessonPack[];
+    currentPackId: string;
+    importedPackIds: string[];
+    disabled: boolean;
+    onSelect: (packId: string) => void;
+    onImport: (pack: LessonPack) => void;
+    onRemove: (packId: string) => void;
+    // Assignment files from a teacher go through the same import button.
+    onOpenAssignment: (assignment: Assignment) => void;
+};
+
+export const PackPicker = ({
+    packs,
+    currentPackId,
+    importedPackIds,
+    disabled,
+    onSelect,
+    onImport,
+    onRemove,
+    onOpenAssignment,
+}: PackPickerProps) => {
+    const { t } = useI18n();
+    const [importErrors, setImportErrors] = React.useState<string[]>([]);
+    const fileInput = React.useRef<HTMLInputElement>(null);
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            const text = await file.text();
+            if (isAssignmentFile(text)) {
+                const assignment = parseAssignment(text);
+                setImportErrors([]);
+                onOpenAssignment(assignment);
+                return;
+            }
+            const pack = parseLessonPack(text);
+            setImportErrors([]);
+            onImport(pack);
+        } catch (e) {
+            setImportErrors(e instanceof LessonPackError || e instanceof ClassroomFileError ? e.errors : [String(e)]);
+        }
+    };
+
+    const isImported = importedPackIds.includes(currentPackId);
+
+    return (
+        <div className="pack-picker">
+            <label className="pack-select">
+                <span>{t('pack.label')}</span>
+                <select value={currentPackId} onChange={(event) => onSelect(event.target.value)} disabled={disabled}>
+                    {packs.map(pack => (
+                        <option key={pack.id} value={pack.id}>
+                            {importedPackIds.includes(pack.id) ? t('pack.imported', { title: pack.title }) : pack.title}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <div className="pack-actions">
+                <button type="button" className="link-btn" onClick={() => fileInput.current?.click()} disabled={disabled}>
+                    {t('pack.import')}
+                </button>
+                {isImported && (
+                    <button type="button" className="link-btn" onClick={() => onRemove(currentPackId)} disabled={disabled}>
+                        {t('pack.remove')}
+                    </button>
+                )}
+                <input ref={fileInput} type="file" accept="application/json,.json" hidden onChange={handleFile} />
+            </div>
+            {importErrors.length > 0 && (
+                <div className="error-message pack-errors" role="alert">
+                    <p>{t('pack.importFailed')}</p>
+                    <ul>
+                        {importErrors.map((message, i) => <li key={i}>{message}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
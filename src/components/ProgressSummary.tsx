@@ -0,0 +1,37 @@
+import { useI18n } from '../i18n';
+
+type ProgressSummaryProps = {
+    todayCount: number;
+    dailyGoal: number;
+    dueToday: number;
+    // Shows a link to the analytics dashboard when given.
+    onShowDetails?: () => void;
+};
+
+export const ProgressSummary = ({ todayCount, dailyGoal, dueToday, onShowDetails }: ProgressSummaryProps) => {
+    const { t } = useI18n();
+    const goalReached = todayCount >= dailyGoal;
+    return (
+        <div className="progress-summary">
+            <div className="progress-labels">
+                <span>{goalReached ? t('progress.goalReached') : t('progress.today', { count: todayCount, goal: dailyGoal })}</span>
+                <span>
+                    {t('progress.due', { count: dueToday })}
+                    {onShowDetails && (
+                        <button type="button" className="link-btn progress-details" onClick={onShowDetails}>{t('progress.details')}</button>
+                    )}
+                </span>
+            </div>
+            <div
+                className={`progress-track ${goalReached ? 'complete' : ''}`}
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={dailyGoal}
+                aria-valuenow={Math.min(todayCount, dailyGoal)}
+                aria-label={t('progress.goalLabel')}
+            >
+                <div className="progress-fill" style={{ width: `${Math.min(100, (todayCount / dailyGoal) * 100)}%` }} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import {
+    createReplayRecognizer,
+    loadReplayFixtures,
+    parseReplayScript,
+    ReplayScriptError,
+    type ReplayRecognizer,
+} from '../session';
+
+type ReplayPanelProps = {
+    replay: ReplayRecognizer | null;
+    onChange: (replay: ReplayRecognizer | null) => void;
+};
+
+// Loads a replay script that answers in place of the microphone, so QA runs
+// and demos are reproducible. WAV paths in the script are fetched relative
+// to the page.
+export const ReplayPanel = ({ replay, onChange }: ReplayPanelProps) => {
+    const { t } = useI18n();
+    const [loadErrors, setLoadErrors] = React.useState<string[]>([]);
+    const fileInput = React.useRef<HTMLInputElement>(null);
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            const fixtures = await loadReplayFixtures(parseReplayScript(await file.text()));
+            setLoadErrors([]);
+            onChange(createReplayRecognizer(fixtures));
+        } catch (e) {
+            setLoadErrors(e instanceof ReplayScriptError ? e.errors : [String(e)]);
+        }
+    };
+
+    return (
+        <>
+            <div className="settings-row">
+                <span>{replay ? t('replay.active', { count: replay.remaining() }) : t('replay.label')}</span>
+                <span className="settings-actions">
+                    <button type="button" className="link-btn" onClick={() => fileInput.current?.click()}>{t('replay.load')}</button>
+                    {replay && <button type="button" className="link-btn" onClick={() => onChange(null)}>{t('replay.stop')}</button>}
+                </span>
+                <input ref={fileInput} type="file" accept="application/json,.json" hidden onChange={handleFile} />
+            </div>
+            {loadErrors.length > 0 && (
+                <div className="error-message pack-errors" role="alert">
+                    <p>{t('replay.loadFailed')}</p>
+                    <ul>
+                        {loadErrors.map((message, i) => <li key={i}>{message}</li>)}
+                    </ul>
+                </div>
+            )}
+        </>
+    );
+};
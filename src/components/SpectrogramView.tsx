@@ -0,0 +1,105 @@
+import React from 'react';
+import type { FricativeSegment } from '../audio/fricative';
+import type { PcmAudio } from '../audio/pcm';
+import { computeSpectrogram, waveformPeaks } from '../audio/spectrogram';
+import { useI18n } from '../i18n';
+
+const WIDTH = 440;
+const WAVEFORM_HEIGHT = 60;
+const SPECTROGRAM_HEIGHT = 160;
+const DYNAMIC_RANGE_DB = 70;
+// Where the noise of each sibilant concentrates; drawn as guides.
+const BANDS = [
+    { label: '/s/', from: 5500, to: 8000 },
+    { label: '/ʃ/', from: 2500, to: 4500 },
+];
+
+// Dark blue -> purple -> orange -> pale yellow.
+const heatColor = (level: number) => {
+    const stops = [[20, 24, 82], [120, 40, 140], [230, 110, 50], [250, 240, 170]];
+    const position = Math.max(0, Math.min(1, level)) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    return stops[index].map((channel, i) => Math.round(channel + (stops[index + 1][i] - channel) * t));
+};
+
+type SpectrogramViewProps = {
+    audio: PcmAudio;
+    segment: FricativeSegment | null;
+};
+
+// Waveform on top, spectrogram below, with the fricative region shaded so
+// the high /s/ band and the lower /ʃ/ band can be compared by eye.
+export const SpectrogramView = ({ audio, segment }: SpectrogramViewProps) => {
+    const { t } = useI18n();
+    const canvas = React.useRef<HTMLCanvasElement>(null);
+
+    React.useEffect(() => {
+        const context = canvas.current?.getContext('2d');
+        if (!context) {
+            return;
+        }
+        const duration = audio.samples.length / audio.sampleRate;
+        context.clearRect(0, 0, WIDTH, WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT);
+
+        // Waveform.
+        context.fillStyle = '#f8f9fa';
+        context.fillRect(0, 0, WIDTH, WAVEFORM_HEIGHT);
+        context.strokeStyle = '#3498db';
+        context.beginPath();
+        waveformPeaks(audio.samples, WIDTH).forEach(([min, max], x) => {
+            context.moveTo(x + 0.5, WAVEFORM_HEIGHT / 2 - max * (WAVEFORM_HEIGHT / 2));
+            context.lineTo(x + 0.5, WAVEFORM_HEIGHT / 2 - min * (WAVEFORM_HEIGHT / 2));
+        });
+        context.stroke();
+
+        // Spectrogram, normalized to its loudest bin.
+        const { columns, maxFrequency } = computeSpectrogram(audio);
+        if (columns.length > 0) {
+            const image = context.createImageData(WIDTH, SPECTROGRAM_HEIGHT);
+            const loudest = Math.max(...columns.map(column => Math.max(...column)));
+            for (let x = 0; x < WIDTH; x++) {
+                const column = columns[Math.min(columns.length - 1, Math.floor((x / WIDTH) * columns.length))];
+                for (let y = 0; y < SPECTROGRAM_HEIGHT; y++) {
+                    const bin = Math.floor(((SPECTROGRAM_HEIGHT - 1 - y) / SPECTROGRAM_HEIGHT) * column.length);
+                    const [r, g, b] = heatColor(1 - (loudest - column[bin]) / DYNAMIC_RANGE_DB);
+                    const offset = (y * WIDTH + x) * 4;
+                    image.data[offset] = r;
+                    image.data[offset + 1] = g;
+                    image.data[offset + 2] = b;
+                    image.data[offset + 3] = 255;
+                }
+            }
+            context.putImageData(image, 0, WAVEFORM_HEIGHT);
+
+            context.font = '10px sans-serif';
+            for (const band of BANDS) {
+                const top = WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT * (1 - band.to / maxFrequency);
+                const bottom = WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT * (1 - band.from / maxFrequency);
+                context.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+                context.setLineDash([4, 3]);
+                context.strokeRect(0.5, top, WIDTH - 1, bottom - top);
+                context.setLineDash([]);
+                context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+                context.fillText(band.label, 4, top + 11);
+            }
+        }
+
+        if (segment) {
+            context.fillStyle = 'rgba(46, 204, 113, 0.25)';
+            const x = (segment.start / duration) * WIDTH;
+            context.fillRect(x, 0, ((segment.end - segment.start) / duration) * WIDTH, WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT);
+        }
+    }, [audio, segment]);
+
+    return (
+        <canvas
+            ref={canvas}
+            className="spectrogram"
+            width={WIDTH}
+            height={WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT}
+            role="img"
+            aria-label={t('spectrogram.label')}
+        />
+    );
+};
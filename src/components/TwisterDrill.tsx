@@ -0,0 +1,124 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import type { StreamingRecognizer, StreamingSession } from '../recognition';
+import {
+    DEFAULT_TARGET_WPM,
+    DEFAULT_TWISTER_RUNS,
+    initialTwisterState,
+    liveWords,
+    startTwisterRun,
+    twisterReducer,
+    type RunResult,
+} from '../twister/session';
+
+type TwisterDrillProps = {
+    text: string;
+    recognizer: StreamingRecognizer;
+    // BCP 47 tag of the target accent.
+    lang: string;
+    disabled: boolean;
+    onRunComplete: (result: RunResult) => void;
+};
+
+// "Say it 3 times, faster each time": words light up as the recognizer hears
+// them, and each run is scored on accuracy and speed.
+export const TwisterDrill = ({ text, recognizer, lang, disabled, onRunComplete }: TwisterDrillProps) => {
+    const { t } = useI18n();
+    const reducer = React.useMemo(
+        () => twisterReducer({ target: text, runs: DEFAULT_TWISTER_RUNS, targetWpm: DEFAULT_TARGET_WPM }),
+        [text],
+    );
+    const [state, dispatch] = React.useReducer(reducer, initialTwisterState);
+    const [error, setError] = React.useState('');
+    const session = React.useRef<StreamingSession | null>(null);
+    const reportedRuns = React.useRef(0);
+
+    // A new text starts a fresh set of runs.
+    React.useEffect(() => {
+        dispatch({ type: 'reset' });
+        reportedRuns.current = 0;
+    }, [text]);
+
+    // The reducer decides when a run is over; stop the recognizer to match.
+    React.useEffect(() => {
+        if (state.phase !== 'listening') {
+            session.current?.stop();
+            session.current = null;
+        }
+    }, [state.phase]);
+
+    React.useEffect(() => {
+        const newResults = state.results.slice(reportedRuns.current);
+        reportedRuns.current = state.results.length;
+        newResults.forEach(onRunComplete);
+    }, [state.results, onRunComplete]);
+
+    React.useEffect(() => () => session.current?.stop(), []);
+
+    const handleStart = () => {
+        setError('');
+        const run = startTwisterRun(recognizer, dispatch, { lang });
+        session.current = run;
+        run.done.catch((e) => {
+            console.error(e);
+            setError(typeof e === 'string' ? t('error.generic', { message: e }) : t('twister.error'));
+        });
+    };
+
+    const words = state.phase === 'listening' ? liveWords(text, state.transcript) : null;
+    const runNumber = Math.min(state.results.length + 1, DEFAULT_TWISTER_RUNS);
+
+    return (
+        <div className="twister-drill">
+            <p className="twister-instructions">
+                {t('twister.instructions', { runs: DEFAULT_TWISTER_RUNS })}
+            </p>
+            {words && (
+                <p className="twister-live" aria-live="polite">
+                    {words.map((word, i) => <span key={i} className={`live-word ${word.state}`}>{word.text}</span>)}
+                </p>
+            )}
+            {state.phase === 'listening' ? (
+                <button type="button" className="link-btn" onClick={() => dispatch({ type: 'end', at: performance.now() })}>
+                    {t('twister.stop', { run: runNumber })}
+                </button>
+            ) : state.phase === 'ready' ? (
+                <button type="button" className="link-btn" onClick={handleStart} disabled={disabled}>
+                    {t('twister.start', { run: runNumber, runs: DEFAULT_TWISTER_RUNS })}
+                </button>
+            ) : (
+                <button type="button" className="link-btn" onClick={() => dispatch({ type: 'reset' })} disabled={disabled}>
+                    {t('twister.again')}
+                </button>
+            )}
+            {state.results.length > 0 && (
+                <table className="twister-results">
+                    <thead>
+                        <tr>
+                            <th>{t('twister.run')}</th>
+                            <th>{t('twister.time')}</th>
+                            <th>{t('twister.wpm')}</th>
+                            <th>{t('twister.accuracy')}</th>
+                            <th>{t('twister.score')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {state.results.map((result, i) => (
+                            <tr key={i}>
+                                <td>{i + 1}</td>
+                                <td>{t('twister.seconds', { seconds: (result.durationMs / 1000).toFixed(1) })}</td>
+                                <td>
+                                    {Math.round(result.wordsPerMinute)}
+                                    {result.fasterThanPrevious !== null && (result.fasterThanPrevious ? ' ▲' : ' ▼')}
+                                </td>
+                                <td>{Math.round(result.accuracy * 100)}%</td>
+                                <td>{result.score}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {error && <p className="error-message">{error}</p>}
+        </div>
+    );
+};
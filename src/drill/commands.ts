@@ -0,0 +1,56 @@
+import { tokenize } from '../analysis/alignment';
+import type { StreamingRecognizer, StreamingSession } from '../recognition';
+
+// Spoken commands between drill attempts. The recognizer is injected, so the
+// scripted recognizer can stand in for the microphone.
+
+export type VoiceCommand = 'again' | 'next' | 'play';
+
+// English words for each command; the recognizer listens in the target accent.
+const COMMAND_WORDS: Record<VoiceCommand, string[]> = {
+    again: ['again', 'repeat', 'retry', 'record'],
+    next: ['next', 'skip'],
+    play: ['play', 'listen'],
+};
+
+// Only the last few words count, so a command said earlier in a long
+// stretch of chatter doesn't fire late.
+const RECENT_WORDS = 3;
+
+// The latest command among the last words heard, e.g. "again please".
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+    const recent = tokenize(transcript).slice(-RECENT_WORDS).reverse();
+    for (const { normalized } of recent) {
+        const match = (Object.keys(COMMAND_WORDS) as VoiceCommand[]).find(command => COMMAND_WORDS[command].includes(normalized));
+        if (match) {
+            return match;
+        }
+    }
+    return null;
+};
+
+// Resolves with the first command heard, or null when the recognizer stops
+// (silence, or `signal` aborted) without one. Rejects on recognizer errors.
+export const listenForCommand = (
+    recognizer: StreamingRecognizer,
+    { lang, signal }: { lang: string; signal?: AbortSignal },
+) => new Promise<VoiceCommand | null>((resolve, reject) => {
+    let heard: VoiceCommand | null = null;
+    const session: StreamingSession = recognizer.start({
+        lang,
+        onUpdate: ({ transcript }) => {
+            heard ??= parseVoiceCommand(transcript);
+            if (heard) {
+                session.stop();
+            }
+        },
+    });
+    const stop = () => session.stop();
+    signal?.addEventListener('abort', stop, { once: true });
+    if (signal?.aborted) {
+        stop();
+    }
+    session.done
+        .then(() => resolve(signal?.aborted ? null : heard), reject)
+        .finally(() => signal?.removeEventListener('abort', stop));
+});
@@ -0,0 +1,92 @@
+import type { ContrastSide, PracticeItem } from '../lessons';
+
+// Hands-free drills: a fixed number of attempts, optionally against the
+// clock, moving on by itself after each result. Plain functions over an
+// immutable session; the clock is passed in.
+
+export type DrillSettings = {
+    // Pause on a result before moving on; null waits for "next".
+    autoAdvanceMs: number | null;
+    // Attempts per session.
+    sessionLength: number;
+    // Null for no time limit.
+    timeLimitMs: number | null;
+    voiceCommands: boolean;
+    audioCues: boolean;
+};
+
+export const DEFAULT_DRILL_SETTINGS: DrillSettings = {
+    autoAdvanceMs: 2500,
+    sessionLength: 20,
+    timeLimitMs: 5 * 60 * 1000,
+    voiceCommands: true,
+    audioCues: true,
+};
+
+export const AUTO_ADVANCE_OPTIONS = [null, 1500, 2500, 4000];
+export const SESSION_LENGTH_OPTIONS = [10, 20, 30, 50];
+export const TIME_LIMIT_OPTIONS = [null, 2 * 60 * 1000, 5 * 60 * 1000, 10 * 60 * 1000];
+
+const pick = <T>(options: T[], value: unknown, fallback: T) =>
+    options.includes(value as T) ? value as T : fallback;
+
+// Stored settings are re-checked, falling back field by field.
+export const sanitizeDrillSettings = (value: unknown): DrillSettings => {
+    const stored = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    return {
+        autoAdvanceMs: pick(AUTO_ADVANCE_OPTIONS, stored.autoAdvanceMs, DEFAULT_DRILL_SETTINGS.autoAdvanceMs),
+        sessionLength: pick(SESSION_LENGTH_OPTIONS, stored.sessionLength, DEFAULT_DRILL_SETTINGS.sessionLength),
+        timeLimitMs: pick(TIME_LIMIT_OPTIONS, stored.timeLimitMs, DEFAULT_DRILL_SETTINGS.timeLimitMs),
+        voiceCommands: typeof stored.voiceCommands === 'boolean' ? stored.voiceCommands : DEFAULT_DRILL_SETTINGS.voiceCommands,
+        audioCues: typeof stored.audioCues === 'boolean' ? stored.audioCues : DEFAULT_DRILL_SETTINGS.audioCues,
+    };
+};
+
+export type DrillEndReason = 'length' | 'time' | 'stopped';
+
+export type DrillSession = {
+    startedAt: number;
+    attempts: number;
+    correct: number;
+    // The side of the pair being drilled; both words get a turn.
+    side: ContrastSide;
+    endedAt: number | null;
+    endReason: DrillEndReason | null;
+};
+
+export const startDrill = (at: number): DrillSession => ({
+    startedAt: at,
+    attempts: 0,
+    correct: 0,
+    side: 'a',
+    endedAt: null,
+    endReason: null,
+});
+
+export const isDrillOver = (session: DrillSession) => session.endReason !== null;
+
+const endDrill = (session: DrillSession, endReason: DrillEndReason, at: number): DrillSession =>
+    isDrillOver(session) ? session : { ...session, endedAt: at, endReason };
+
+export const stopDrill = (session: DrillSession, at: number) => endDrill(session, 'stopped', at);
+
+// Milliseconds left, or null without a time limit.
+export const drillTimeLeft = (session: DrillSession, settings: DrillSettings, at: number) =>
+    settings.timeLimitMs === null ? null : Math.max(0, session.startedAt + settings.timeLimitMs - (session.endedAt ?? at));
+
+// Ends the session once the time is up. Called on a timer between attempts,
+// so an attempt in progress is never cut off.
+export const checkDrillTime = (session: DrillSession, settings: DrillSettings, at: number) =>
+    drillTimeLeft(session, settings, at) === 0 ? endDrill(session, 'time', at) : session;
+
+export const recordDrillResult = (session: DrillSession, isCorrect: boolean, settings: DrillSettings, at: number) => {
+    const next = { ...session, attempts: session.attempts + 1, correct: session.correct + (isCorrect ? 1 : 0) };
+    return next.attempts >= settings.sessionLength ? endDrill(next, 'length', at) : checkDrillTime(next, settings, at);
+};
+
+// After side a of a pair comes side b of the same pair; anything else moves
+// to a new item.
+export const advanceDrill = (session: DrillSession, item: PracticeItem): { session: DrillSession; nextItem: boolean } =>
+    item.type === 'pair' && session.side === 'a'
+        ? { session: { ...session, side: 'b' }, nextItem: false }
+        : { session: { ...session, side: 'a' }, nextItem: true };
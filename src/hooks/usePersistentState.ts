@@ -0,0 +1,27 @@
+import React from 'react';
+
+const STORAGE_PREFIX = 'ssh-coach:';
+
+const readStored = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+        return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch {
+        return fallback;
+    }
+};
+
+// useState that survives reloads via localStorage. Values must be JSON-serializable.
+export const usePersistentState = <T>(key: string, initialValue: T) => {
+    const [value, setValue] = React.useState<T>(() => readStored(key, initialValue));
+
+    React.useEffect(() => {
+        try {
+            window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+        } catch {
+            // Storage can be full or disabled (private mode); the setting then lasts for this visit only.
+        }
+    }, [key, value]);
+
+    return [value, setValue] as const;
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { CATALOGS, checkCatalog, createTranslator, detectLocale, isLocale } from './translate';
+import type { Locale, Translate } from './types';
+
+type I18nContextValue = {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: Translate;
+};
+
+const I18nContext = React.createContext<I18nContextValue | null>(null);
+
+// Key mismatches already fail the type check, and translate.test.ts fails
+// on the rest; this also reports them in the console while developing.
+if (import.meta.env.DEV) {
+    for (const [locale, catalog] of Object.entries(CATALOGS)) {
+        const problems = checkCatalog(CATALOGS.en, catalog);
+        if (problems.length > 0) {
+            console.error(`The ${locale} message catalog has problems:`, problems);
+        }
+    }
+}
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+    const [stored, setLocale] = usePersistentState<Locale>('locale', detectLocale(navigator.languages ?? []));
+    // A stored value from a removed language falls back to the browser's choice.
+    const locale = isLocale(stored) ? stored : detectLocale(navigator.languages ?? []);
+    const value = React.useMemo(() => ({ locale, setLocale, t: createTranslator(locale) }), [locale, setLocale]);
+
+    React.useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+    const value = React.useContext(I18nContext);
+    if (!value) {
+        throw new Error('useI18n must be used inside an I18nProvider.');
+    }
+    return value;
+};
@@ -0,0 +1,13 @@
+export type { Locale, MessageKey, MessageParams, Messages, Translate } from './types';
+export {
+    CATALOGS,
+    checkCatalog,
+    createTranslator,
+    DEFAULT_LOCALE,
+    detectLocale,
+    formatMessage,
+    isLocale,
+    LOCALES,
+    type CatalogProblem,
+} from './translate';
+export { I18nProvider, useI18n } from './I18nProvider';
@@ -0,0 +1,306 @@
+// The reference catalog: every other locale must define exactly these keys
+// with the same {placeholders}.
+export const en = {
+    'app.title': 'S/SH Pronunciation Coach',
+    'app.subtitle': 'Practice your {a} and {b} sounds',
+
+    'practice.recordWord': 'Record pronunciation for {word}',
+    'practice.recordSentence': 'Record pronunciation for the sentence',
+    'practice.idle': 'Tap a mic icon to test your pronunciation.',
+    'practice.waitingForSpeech': 'Start speaking when you are ready...',
+    'practice.listening': 'Listening...',
+    'practice.analyzing': 'Analyzing pronunciation',
+    'practice.noPairs': 'This lesson has no word pairs to listen to.',
+    'practice.next': 'Next Item →',
+    'mode.label': 'Exercise mode',
+    'mode.speak': 'Speak',
+    'mode.listen': 'Listen',
+
+    'feedback.correct': 'Excellent!',
+    'feedback.incorrect': 'Needs Practice',
+    'feedback.offline': 'Offline coach',
+    'feedback.offlineHint': 'The AI coach is unavailable, so this verdict comes from built-in rules.',
+    'feedback.heard': 'Heard:',
+    'acoustic.caption': 'Acoustic check: {verdict} ({hz} Hz)',
+    'acoustic.unclear': 'between /s/ and /ʃ/',
+    'acoustic.soundsLike': 'sounds like {sound}',
+
+    'coach.title': 'Ask the coach',
+    'coach.you': 'You',
+    'coach.coach': 'Coach',
+    'coach.placeholder': 'Ask a question about this attempt',
+    'coach.send': 'Send',
+    'coach.thinking': 'The coach is thinking',
+    'coach.quickTongue': 'How exactly should my tongue move?',
+    'coach.quickWords': 'Give me three more words like this.',
+    'coach.suggested': 'Practice words:',
+    'coach.addWord': 'Add "{word}" to this session',
+    'coach.added': '"{word}" is in this session',
+    'coach.guessedIpa': 'Pronunciation guessed from the spelling',
+    'coach.sessionTranslation': 'Suggested by the coach',
+    'coach.unavailable': "The coach can't answer right now. Please try again in a moment.",
+
+    'error.analysisFailed': "Couldn't analyze this attempt. Please try again.",
+    'error.noMicrophoneSupport': 'Your browser does not support microphone access. Please try on a modern browser like Chrome or Firefox.',
+    'error.noRecognizer': 'Speech recognition is not supported in this browser. Please try on a modern browser like Chrome or Firefox.',
+    'error.noSpeech': "Couldn't hear any speech. Please try speaking a bit louder or closer to the mic.",
+    'error.unknown': 'An unknown error occurred during recording.',
+    'error.permissionDenied': 'Microphone permission denied. Please allow access in your browser settings and try again.',
+    'error.noMicrophone': 'No microphone found. Please connect a microphone and try again.',
+    'error.microphoneBusy': 'Microphone is already in use by another app. Please close it and try again.',
+    'error.apiKey': 'AI analysis failed. Please check API key configuration and permissions.',
+    'error.generic': 'An error occurred: {message}',
+    'error.reservedPackId': 'A built-in lesson already uses the id "{id}". Please rename the imported pack.',
+    'error.assignmentLink': 'This assignment link is incomplete or damaged. Ask your teacher for the link or file again.',
+
+    'settings.title': 'Settings',
+    'settings.language': 'Language',
+    'settings.accent': 'Target accent',
+    'settings.recognizer': 'Speech recognizer',
+    'settings.recognizerAuto': 'Automatic',
+    'settings.recognizerAutoWith': 'Automatic ({label})',
+    'settings.notSupported': '{label} — not supported here',
+    'settings.dailyGoal': 'Daily goal (attempts)',
+    'settings.history': 'Practice history',
+    'settings.historyNotSaved': 'Practice history (not saved in this browser)',
+    'settings.export': 'Export',
+    'settings.reset': 'Reset',
+    'settings.confirmReset': 'Delete your whole practice history? This cannot be undone.',
+    'settings.classroom': 'Class mode (teachers)',
+    'settings.openClassroom': 'Open',
+    'accent.us': 'American English (en-US)',
+    'accent.gb': 'British English (en-GB)',
+    'recognizer.webSpeech': 'Browser (Web Speech)',
+    'recognizer.cloud': 'Cloud (Google Speech-to-Text)',
+
+    'micCheck.summary': 'Microphone check',
+    'micCheck.warningBadge': 'Needs attention',
+    'micCheck.device': 'Microphone',
+    'micCheck.defaultDevice': 'System default',
+    'micCheck.unnamedDevice': 'Microphone {number}',
+    'micCheck.webSpeechNote': 'The browser recognizer always listens to the system default microphone. The choice here applies to recordings and the cloud recognizer.',
+    'micCheck.level': 'Input level',
+    'micCheck.start': 'Check my microphone',
+    'micCheck.again': 'Check again',
+    'micCheck.stayQuiet': 'Stay quiet for a moment while we measure the room noise...',
+    'micCheck.speak': 'Now say a sentence at your normal practice volume...',
+    'micCheck.result': 'Room noise {noise} dBFS · Your voice {speech} dBFS',
+    'micCheck.ok': 'Your microphone is ready.',
+    'micCheck.clipping': 'The input is clipping. Move back from the microphone or turn its input volume down.',
+    'micCheck.quiet': 'Your voice is very quiet. Move closer to the microphone or turn its input volume up.',
+    'micCheck.noisy': 'The room is noisy compared with your voice. Find a quieter place or use a headset microphone.',
+    'micCheck.noSpeech': "We didn't hear you speak during the check. Please try again.",
+    'micCheck.failed': "Couldn't open the microphone: {message}",
+
+    'pack.label': 'Lesson',
+    'pack.imported': '{title} (imported)',
+    'pack.import': 'Import pack or assignment…',
+    'pack.remove': 'Remove',
+    'pack.importFailed': 'This file could not be imported:',
+
+    'progress.goalReached': 'Daily goal reached!',
+    'progress.today': 'Today: {count} / {goal}',
+    'progress.due': '{count} due today',
+    'progress.details': 'Details',
+    'progress.goalLabel': 'Daily practice goal',
+
+    'aligned.correct': 'correct',
+    'aligned.missing': 'not heard',
+    'aligned.extra': 'extra word',
+    'aligned.heard': 'heard "{heard}"',
+    'aligned.heardSwap': 'heard "{heard}" ({swap})',
+    'aligned.swap': '"{target}" sounded like "{heard}" ({swap})',
+
+    'articulation.label': 'Side view of the mouth for {sound}',
+    'articulation.compare': 'Compare articulations',
+    'articulation.english': 'English {sound}',
+    'articulation.japanese': 'Japanese {kana}',
+    'articulation.target': 'Aim for this',
+    'articulation.produced': 'This is what you said',
+    'articulation.lipsFront': 'Lips (front)',
+    'articulation.groove': 'Tongue groove',
+    'articulation.note.s': 'Tongue tip up against the ridge just behind the upper teeth, with a narrow groove down the middle. Lips spread. The air is aimed at the teeth: a high, thin hiss.',
+    'articulation.note.sh': 'Tongue tip a little lower and further back, the blade raised behind the ridge, and a wider groove. Lips pushed forward and rounded. The air spreads out: a lower, fuller hush.',
+    'articulation.note.jaSu': 'Japanese す is close to English /s/, but the lips stay compressed. Keep this tongue position even before /iː/, where Japanese would switch to し.',
+    'articulation.note.jaShi': 'Japanese し drops the tongue tip behind the lower teeth and raises the middle of the tongue to the hard palate, with spread lips. It is neither /s/ nor /ʃ/: for "sea" lift the tip to the ridge, for "she" round your lips.',
+
+    'compare.attempt': 'A: You',
+    'compare.reference': 'B: Reference',
+    'compare.noSpectrogram': "The reference is spoken by your browser's voice, so there is no spectrogram for it.",
+    'compare.play': 'Play',
+    'compare.stop': 'Stop',
+    'compare.loop': 'Loop the fricative',
+    'spectrogram.label': 'Waveform and spectrogram of the recording',
+
+    'listening.unsupported': 'Listening practice needs speech synthesis, which this browser does not support.',
+    'listening.playError': "Couldn't play the sound. Please check your device's audio.",
+    'listening.playAgain': '▶ Play again',
+    'listening.question': 'Which word did you hear?',
+    'listening.correct': 'Correct!',
+    'listening.itWas': 'It was "{word}"',
+    'listening.compare': 'Compare them:',
+    'listening.streak': 'Streak {streak} · Best {best}',
+    'listening.pairScore': ' · This pair {correct}/{total} ({percent}%)',
+
+    'custom.summary': 'Practice my own text',
+    'custom.instructions': 'One word or sentence per line (up to {max}). Add a translation after " = " if you like.',
+    'custom.guessed': 'Guessed: {words}',
+    'custom.practice': 'Practice these →',
+    'custom.practiceOne': 'Practice 1 item →',
+    'custom.practiceMany': 'Practice {count} items →',
+    'custom.tooMany': 'Only the first {max} lines are used.',
+    'custom.tooLong': 'Line {line} is longer than {max} characters.',
+    'custom.noWords': 'Line {line} has no English words.',
+    'custom.packTitle': 'My text',
+    'custom.defaultTranslation': 'Your own text',
+    'generate.summary': 'Generate more practice',
+    'generate.intro': 'Ask the AI for new {a} / {b} pairs and sentences. Only items the pronunciation dictionary confirms are kept.',
+    'generate.difficulty': 'Difficulty',
+    'generate.difficulty.beginner': 'Beginner',
+    'generate.difficulty.intermediate': 'Intermediate',
+    'generate.difficulty.advanced': 'Advanced',
+    'generate.position': 'Sound position',
+    'generate.position.initial': 'Start of word (sip / ship)',
+    'generate.position.medial': 'Middle of word',
+    'generate.position.final': 'End of word (mass / mash)',
+    'generate.position.cluster': 'Consonant clusters (str, sk)',
+    'generate.submit': 'Generate →',
+    'generate.pending': 'Generating…',
+    'generate.added': 'Added {added} items to "Generated practice" ({rejected} skipped).',
+    'generate.noneAdded': 'Nothing new this time ({rejected} skipped). Try another position or difficulty.',
+    'generate.unavailable': "New items can't be generated right now. Please try again later.",
+    'generate.packTitle': 'Generated practice',
+    'drill.title': 'Hands-free drill',
+    'drill.start': 'Start hands-free drill',
+    'drill.restart': 'Start another drill',
+    'drill.stop': 'Stop drill',
+    'drill.settings': 'Drill settings',
+    'drill.sessionLength': 'Session length',
+    'drill.attempts': '{count} attempts',
+    'drill.timeLimit': 'Time limit',
+    'drill.noLimit': 'No limit',
+    'drill.minutes': '{count} minutes',
+    'drill.autoAdvance': 'Move on after a result',
+    'drill.autoAdvanceOff': 'Only when I say "next"',
+    'drill.seconds': 'After {count} s',
+    'drill.voiceCommands': 'Voice commands ("again", "next", "play")',
+    'drill.voiceCommandsUnsupported': 'Voice commands are not supported in this browser',
+    'drill.audioCues': 'Sound cue for correct / incorrect',
+    'drill.progress': 'Attempt {attempt} of {total}',
+    'drill.timeLeft': '{time} left',
+    'drill.space': 'Space',
+    'drill.pushToTalk': 'Hold to speak, release when done.',
+    'drill.commands': 'Between attempts, say "again" to record, "next" to move on or "play" to hear it.',
+    'drill.ended': 'Drill finished.',
+    'drill.endedTime': "Time's up!",
+    'drill.score': '{correct} of {attempts} correct.',
+    'announce.drillReady': 'Next: {word}. Hold Space to speak.',
+    'announce.recording': 'Recording {word}. Speak now.',
+    'announce.analyzing': 'Checking your pronunciation…',
+    'classroom.title': 'Class mode',
+    'classroom.intro': 'Create assignments from the current lesson, share them as a link or file, then import the result files your students send back. Nothing is uploaded.',
+    'classroom.create': 'New assignment',
+    'classroom.assignmentTitle': 'Title',
+    'classroom.pickItems': 'Items ({count} of at most {max})',
+    'classroom.createButton': 'Create assignment →',
+    'classroom.link': 'Assignment link',
+    'classroom.copyLink': 'Copy link',
+    'classroom.copied': 'Copied!',
+    'classroom.downloadAssignment': 'Download file',
+    'classroom.yourAssignments': 'Your assignments',
+    'classroom.assignmentInfo': '{count} items · {date}',
+    'classroom.delete': 'Delete',
+    'classroom.confirmDelete': 'Delete "{title}"? Results for it can no longer be verified here.',
+    'classroom.results': 'Student results',
+    'classroom.importResults': 'Import result files…',
+    'classroom.exportCsv': 'Export CSV',
+    'classroom.print': 'Print',
+    'classroom.clear': 'Clear',
+    'classroom.importFailed': 'Some files could not be imported:',
+    'classroom.noResults': 'No results yet. Import the files your students send you.',
+    'classroom.assignment': 'Assignment',
+    'classroom.student': 'Student',
+    'classroom.total': 'Total',
+    'classroom.submitted': 'Submitted',
+    'classroom.signature': 'Signature',
+    'classroom.signature.valid': 'Valid',
+    'classroom.signature.invalid': 'Does not match',
+    'classroom.signature.unknown': 'Unknown assignment',
+    'classroom.itemsDone': '({done} of {total} items)',
+    'classroom.legend': 'Each cell shows correct attempts / all attempts. Signatures can only be checked for assignments created in this browser.',
+    'assignment.label': 'Assignment',
+    'assignment.title': 'Assignment: {title}',
+    'assignment.progress': '{done} of {total} items tried · {attempts} attempts',
+    'assignment.name': 'Your name',
+    'assignment.download': 'Download signed result',
+    'assignment.practice': 'Practice',
+    'assignment.leave': 'Leave',
+    'assignment.confirmLeave': 'Leave this assignment? Attempts not yet downloaded will be lost.',
+    'assignment.signFailed': "Couldn't sign the result. Open the app over https and try again.",
+    'replay.label': 'Replay script (QA and demos)',
+    'replay.active': 'Replaying a script ({count} attempts left)',
+    'replay.load': 'Load…',
+    'replay.stop': 'Use the microphone',
+    'replay.loadFailed': 'This replay script could not be loaded:',
+
+    'twister.instructions': 'Say it {runs} times, faster each time.',
+    'twister.stop': 'Stop run {run}',
+    'twister.start': 'Start run {run} of {runs}',
+    'twister.again': 'Try the challenge again',
+    'twister.run': 'Run',
+    'twister.time': 'Time',
+    'twister.wpm': 'Words/min',
+    'twister.accuracy': 'Accuracy',
+    'twister.score': 'Score',
+    'twister.seconds': '{seconds} s',
+    'twister.error': 'Live recognition stopped unexpectedly. Please try again.',
+
+    'dashboard.loadError': "Couldn't load your practice history.",
+    'dashboard.loading': 'Loading history',
+    'dashboard.label': 'Progress dashboard',
+    'dashboard.title': 'Your sound errors',
+    'dashboard.back': '← Back to practice',
+    'dashboard.contrast': 'Contrast',
+    'dashboard.contrastOption': '{a} vs {b}',
+    'dashboard.empty': 'No analyzed attempts for this contrast yet. Practice a few words and come back.',
+    'dashboard.saidAs': 'Said as…',
+    'dashboard.target': 'Target',
+    'dashboard.unclear': 'Unclear',
+    'dashboard.byContext': 'Accuracy by context',
+    'dashboard.context': 'Context',
+    'dashboard.lastDays': 'Last {days} days',
+    'dashboard.trendLabel': 'Daily accuracy',
+    'dashboard.trendDay': '{date}: {percent} of {total}',
+    'dashboard.export': 'Export {count} attempts',
+    'context.beforeIy': 'Before /iː/',
+    'context.beforeVowel': 'Before other vowels',
+    'context.beforeConsonant': 'Before consonants',
+    'context.initial': 'Word-initial',
+    'context.medial': 'Word-medial',
+    'context.final': 'Word-final',
+
+    'rules.tip.s': 'For /s/, keep the tongue tip just behind the upper teeth, leave a narrow groove down its middle and keep your lips spread. The hiss should be high and thin.',
+    'rules.tip.sh': 'For /ʃ/, pull the tongue slightly back, raise its blade toward the roof of the mouth and push your lips forward into a round shape. The hiss should be lower and fuller than /s/.',
+    'rules.tip.r': 'For /r/, curl the tongue tip up and back without touching the roof of the mouth, and round your lips a little. Avoid tapping the tongue as in Japanese ら.',
+    'rules.tip.l': 'For /l/, press the tongue tip firmly on the ridge behind the upper teeth and let the air flow around the sides of the tongue.',
+    'rules.tip.b': 'For /b/, close both lips completely, then release them with your voice already on.',
+    'rules.tip.v': "For /v/, rest the upper teeth lightly on the lower lip and push voiced air through the gap. Don't close both lips as for /b/.",
+    'rules.tip.th': "For /θ/, put the tongue tip lightly between your teeth and blow air over it. Don't let it slide back into /s/.",
+    'rules.tip.generic': 'Say the word slowly, exaggerating the key sound, then speed up to a natural pace.',
+    'rules.sentence.correct': 'Every word came through clearly.',
+    'rules.sentence.correctTip': 'Try it again a little faster while keeping each sound distinct.',
+    'rules.sentence.problems': 'Not quite: {problems}.',
+    'rules.sentence.separator': ', ',
+    'rules.sentence.missing': '"{word}" was not heard',
+    'rules.sentence.extra': 'an extra "{word}" was heard',
+    'rules.sentence.substituted': '"{target}" sounded like "{heard}"',
+    'rules.sentence.tip': 'Slow down and give each word its own clear start and finish.',
+    'rules.pair.nothingHeard': 'We couldn\'t hear a clear word. Try "{word}" again, a little louder.',
+    'rules.pair.acousticMismatch': 'The recognizer heard "{heard}", but the hiss itself sounded more like {sound}.',
+    'rules.pair.closeSecond': 'Good, that was "{word}", though "{other}" was a close second. Make the contrast a little stronger.',
+    'rules.pair.clear': 'Nice! That came through clearly as "{word}".',
+    'rules.pair.clearTip': 'Keep the same mouth shape and try saying it three times in a row.',
+    'rules.pair.soundedLikeOther': 'That sounded like "{other}" (/{symbol}/) instead of "{word}".',
+    'rules.pair.runnerUp': 'It was hard to tell: we mostly heard "{heard}", with "{word}" only as a runner-up.',
+    'rules.pair.heardInstead': 'We heard "{heard}" instead of "{word}".',
+};
@@ -0,0 +1,306 @@
+import type { Messages } from '../types';
+
+export const ja: Messages = {
+    'app.title': 'S/SH 発音コーチ',
+    'app.subtitle': '{a} と {b} の音を練習しましょう',
+
+    'practice.recordWord': '「{word}」の発音を録音',
+    'practice.recordSentence': '文の発音を録音',
+    'practice.idle': 'マイクのアイコンをタップして発音をチェックしましょう。',
+    'practice.waitingForSpeech': '準備ができたら話し始めてください...',
+    'practice.listening': '聞き取り中...',
+    'practice.analyzing': '発音を分析中',
+    'practice.noPairs': 'このレッスンには聞き分け用の単語ペアがありません。',
+    'practice.next': '次の問題 →',
+    'mode.label': '練習モード',
+    'mode.speak': '話す',
+    'mode.listen': '聞く',
+
+    'feedback.correct': 'よくできました！',
+    'feedback.incorrect': 'もう少し練習しましょう',
+    'feedback.offline': 'オフラインコーチ',
+    'feedback.offlineHint': 'AIコーチが利用できないため、この判定は組み込みのルールによるものです。',
+    'feedback.heard': '聞き取り結果：',
+    'acoustic.caption': '音響チェック：{verdict}（{hz} Hz）',
+    'acoustic.unclear': '/s/ と /ʃ/ の中間',
+    'acoustic.soundsLike': '{sound} に聞こえます',
+
+    'coach.title': 'コーチに質問する',
+    'coach.you': 'あなた',
+    'coach.coach': 'コーチ',
+    'coach.placeholder': 'この発音について質問する',
+    'coach.send': '送信',
+    'coach.thinking': 'コーチが考えています',
+    'coach.quickTongue': '舌は具体的にどう動かせばいいですか？',
+    'coach.quickWords': 'これと似た単語をあと3つください。',
+    'coach.suggested': '練習する単語：',
+    'coach.addWord': '「{word}」をこのセッションに追加',
+    'coach.added': '「{word}」は追加済みです',
+    'coach.guessedIpa': 'つづりから推測した発音です',
+    'coach.sessionTranslation': 'コーチのおすすめ',
+    'coach.unavailable': '今はコーチが答えられません。少し待ってからもう一度お試しください。',
+
+    'error.analysisFailed': 'この発音を分析できませんでした。もう一度お試しください。',
+    'error.noMicrophoneSupport': 'お使いのブラウザはマイクに対応していません。Chrome や Firefox などの最新ブラウザでお試しください。',
+    'error.noRecognizer': 'お使いのブラウザは音声認識に対応していません。Chrome や Firefox などの最新ブラウザでお試しください。',
+    'error.noSpeech': '音声が聞き取れませんでした。もう少し大きな声で、マイクに近づいて話してください。',
+    'error.unknown': '録音中に不明なエラーが発生しました。',
+    'error.permissionDenied': 'マイクの使用が許可されていません。ブラウザの設定でアクセスを許可してから、もう一度お試しください。',
+    'error.noMicrophone': 'マイクが見つかりません。マイクを接続してから、もう一度お試しください。',
+    'error.microphoneBusy': 'マイクが他のアプリで使用中です。そのアプリを閉じてから、もう一度お試しください。',
+    'error.apiKey': 'AI分析に失敗しました。APIキーの設定と権限を確認してください。',
+    'error.generic': 'エラーが発生しました：{message}',
+    'error.reservedPackId': 'ID「{id}」は組み込みのレッスンで使われています。読み込むパックのIDを変更してください。',
+    'error.assignmentLink': 'この課題のリンクは不完全か壊れています。先生にリンクかファイルをもう一度もらってください。',
+
+    'settings.title': '設定',
+    'settings.language': '言語',
+    'settings.accent': '目標のアクセント',
+    'settings.recognizer': '音声認識',
+    'settings.recognizerAuto': '自動',
+    'settings.recognizerAutoWith': '自動（{label}）',
+    'settings.notSupported': '{label} — この環境では使えません',
+    'settings.dailyGoal': '1日の目標（回数）',
+    'settings.history': '練習履歴',
+    'settings.historyNotSaved': '練習履歴（このブラウザには保存されません）',
+    'settings.export': '書き出し',
+    'settings.reset': 'リセット',
+    'settings.confirmReset': '練習履歴をすべて削除しますか？この操作は元に戻せません。',
+    'settings.classroom': 'クラスモード（先生用）',
+    'settings.openClassroom': '開く',
+    'accent.us': 'アメリカ英語（en-US）',
+    'accent.gb': 'イギリス英語（en-GB）',
+    'recognizer.webSpeech': 'ブラウザ（Web Speech）',
+    'recognizer.cloud': 'クラウド（Google Speech-to-Text）',
+
+    'micCheck.summary': 'マイクチェック',
+    'micCheck.warningBadge': '要確認',
+    'micCheck.device': 'マイク',
+    'micCheck.defaultDevice': 'システムの既定',
+    'micCheck.unnamedDevice': 'マイク {number}',
+    'micCheck.webSpeechNote': 'ブラウザの音声認識は常にシステム既定のマイクを使います。ここでの選択は録音とクラウド認識に適用されます。',
+    'micCheck.level': '入力レベル',
+    'micCheck.start': 'マイクをチェック',
+    'micCheck.again': 'もう一度チェック',
+    'micCheck.stayQuiet': '部屋の雑音を測定しています。しばらく静かにしていてください...',
+    'micCheck.speak': '練習するときと同じ声の大きさで、何か文を言ってください...',
+    'micCheck.result': '部屋の雑音 {noise} dBFS · あなたの声 {speech} dBFS',
+    'micCheck.ok': 'マイクの準備ができました。',
+    'micCheck.clipping': '入力が音割れしています。マイクから少し離れるか、入力音量を下げてください。',
+    'micCheck.quiet': '声がとても小さいです。マイクに近づくか、入力音量を上げてください。',
+    'micCheck.noisy': '声に比べて部屋の雑音が大きいです。静かな場所に移るか、ヘッドセットのマイクを使ってください。',
+    'micCheck.noSpeech': 'チェック中に声が聞こえませんでした。もう一度お試しください。',
+    'micCheck.failed': 'マイクを開けませんでした: {message}',
+
+    'pack.label': 'レッスン',
+    'pack.imported': '{title}（読み込み済み）',
+    'pack.import': 'パックや課題を読み込む…',
+    'pack.remove': '削除',
+    'pack.importFailed': 'このファイルは読み込めませんでした：',
+
+    'progress.goalReached': '今日の目標を達成しました！',
+    'progress.today': '今日：{count} / {goal}',
+    'progress.due': '今日の復習 {count} 件',
+    'progress.details': '詳細',
+    'progress.goalLabel': '1日の練習目標',
+
+    'aligned.correct': '正しく発音できました',
+    'aligned.missing': '聞き取れませんでした',
+    'aligned.extra': '余分な単語',
+    'aligned.heard': '「{heard}」と聞こえました',
+    'aligned.heardSwap': '「{heard}」と聞こえました（{swap}）',
+    'aligned.swap': '「{target}」が「{heard}」に聞こえました（{swap}）',
+
+    'articulation.label': '{sound} を発音するときの口の断面図',
+    'articulation.compare': '調音を比べる',
+    'articulation.english': '英語の {sound}',
+    'articulation.japanese': '日本語の「{kana}」',
+    'articulation.target': 'これを目指しましょう',
+    'articulation.produced': 'あなたの発音はこちらでした',
+    'articulation.lipsFront': '唇（正面）',
+    'articulation.groove': '舌の溝',
+    'articulation.note.s': '舌先を上の歯のすぐ後ろの歯茎に近づけ、舌の中央に細い溝を作ります。唇は横に引きます。息を歯に当てて、高く細い「スー」という音を出します。',
+    'articulation.note.sh': '舌先を少し下げて後ろに引き、歯茎の後ろで舌の前の部分を持ち上げます。溝は広めです。唇を前に突き出して丸めます。息が広がり、低く厚い「シュー」という音になります。',
+    'articulation.note.jaSu': '日本語の「す」は英語の /s/ に近いですが、唇はすぼめたままです。日本語では /iː/ の前で「し」に変わりますが、英語ではこの舌の位置を保ちます。',
+    'articulation.note.jaShi': '日本語の「し」は舌先を下の歯の裏に下ろし、舌の中ほどを硬口蓋に近づけ、唇は横に引きます。これは /s/ でも /ʃ/ でもありません。"sea" では舌先を歯茎に上げ、"she" では唇を丸めましょう。',
+
+    'compare.attempt': 'A：あなた',
+    'compare.reference': 'B：お手本',
+    'compare.noSpectrogram': 'お手本はブラウザの音声で再生されるため、スペクトログラムは表示できません。',
+    'compare.play': '再生',
+    'compare.stop': '停止',
+    'compare.loop': '摩擦音をくり返し再生',
+    'spectrogram.label': '録音の波形とスペクトログラム',
+
+    'listening.unsupported': '聞き取り練習には音声合成が必要ですが、このブラウザは対応していません。',
+    'listening.playError': '音を再生できませんでした。端末の音声設定を確認してください。',
+    'listening.playAgain': '▶ もう一度聞く',
+    'listening.question': 'どちらの単語が聞こえましたか？',
+    'listening.correct': '正解！',
+    'listening.itWas': '正解は「{word}」でした',
+    'listening.compare': '聞き比べ：',
+    'listening.streak': '連続正解 {streak} · 最高 {best}',
+    'listening.pairScore': ' · このペア {correct}/{total}（{percent}%）',
+
+    'custom.summary': '自分の文で練習する',
+    'custom.instructions': '1行に1つの単語または文を入力してください（最大 {max} 行）。" = " の後に訳を付けることもできます。',
+    'custom.guessed': '推定：{words}',
+    'custom.practice': 'これで練習する →',
+    'custom.practiceOne': '1 問を練習する →',
+    'custom.practiceMany': '{count} 問を練習する →',
+    'custom.tooMany': '最初の {max} 行だけを使います。',
+    'custom.tooLong': '{line} 行目が {max} 文字を超えています。',
+    'custom.noWords': '{line} 行目に英単語がありません。',
+    'custom.packTitle': '自分の文',
+    'custom.defaultTranslation': 'あなたが入力した文',
+    'generate.summary': '練習問題をもっと作る',
+    'generate.intro': 'AI に新しい {a} / {b} のペアと文を作ってもらいます。発音辞書で確認できたものだけを残します。',
+    'generate.difficulty': '難易度',
+    'generate.difficulty.beginner': '初級',
+    'generate.difficulty.intermediate': '中級',
+    'generate.difficulty.advanced': '上級',
+    'generate.position': '音の位置',
+    'generate.position.initial': '語頭（sip / ship）',
+    'generate.position.medial': '語中',
+    'generate.position.final': '語末（mass / mash）',
+    'generate.position.cluster': '子音の連続（str, sk）',
+    'generate.submit': '作成 →',
+    'generate.pending': '作成中…',
+    'generate.added': '「自動生成の練習」に {added} 件追加しました（{rejected} 件は除外）。',
+    'generate.noneAdded': '今回は新しい問題がありませんでした（{rejected} 件は除外）。位置や難易度を変えてみてください。',
+    'generate.unavailable': '現在、問題を作成できません。しばらくしてからもう一度お試しください。',
+    'generate.packTitle': '自動生成の練習',
+    'drill.title': 'ハンズフリー練習',
+    'drill.start': 'ハンズフリー練習を始める',
+    'drill.restart': 'もう一度練習する',
+    'drill.stop': '練習をやめる',
+    'drill.settings': '練習の設定',
+    'drill.sessionLength': '1回の練習量',
+    'drill.attempts': '{count} 回',
+    'drill.timeLimit': '制限時間',
+    'drill.noLimit': 'なし',
+    'drill.minutes': '{count} 分',
+    'drill.autoAdvance': '結果のあと次へ進む',
+    'drill.autoAdvanceOff': '「next」と言ったときだけ',
+    'drill.seconds': '{count} 秒後',
+    'drill.voiceCommands': '音声コマンド（"again"、"next"、"play"）',
+    'drill.voiceCommandsUnsupported': 'このブラウザでは音声コマンドを使えません',
+    'drill.audioCues': '正解・不正解を効果音で知らせる',
+    'drill.progress': '{total} 回中 {attempt} 回目',
+    'drill.timeLeft': '残り {time}',
+    'drill.space': 'スペース',
+    'drill.pushToTalk': 'を押している間に話し、終わったら離してください。',
+    'drill.commands': '発音の合間に "again" で録音、"next" で次へ、"play" でお手本を再生します。',
+    'drill.ended': '練習が終わりました。',
+    'drill.endedTime': '時間切れです！',
+    'drill.score': '{attempts} 回中 {correct} 回正解。',
+    'announce.drillReady': '次は {word}。スペースキーを押しながら話してください。',
+    'announce.recording': '{word} を録音中です。どうぞ話してください。',
+    'announce.analyzing': '発音を確認しています…',
+    'classroom.title': 'クラスモード',
+    'classroom.intro': '今のレッスンから課題を作り、リンクかファイルで共有します。生徒から届いた結果ファイルを読み込んで集計できます。データはどこにもアップロードされません。',
+    'classroom.create': '新しい課題',
+    'classroom.assignmentTitle': 'タイトル',
+    'classroom.pickItems': '項目（{count}／最大 {max}）',
+    'classroom.createButton': '課題を作る →',
+    'classroom.link': '課題のリンク',
+    'classroom.copyLink': 'リンクをコピー',
+    'classroom.copied': 'コピーしました',
+    'classroom.downloadAssignment': 'ファイルを保存',
+    'classroom.yourAssignments': '作成した課題',
+    'classroom.assignmentInfo': '{count} 項目・{date}',
+    'classroom.delete': '削除',
+    'classroom.confirmDelete': '「{title}」を削除しますか？この課題の結果は、ここでは検証できなくなります。',
+    'classroom.results': '生徒の結果',
+    'classroom.importResults': '結果ファイルを読み込む…',
+    'classroom.exportCsv': 'CSVで書き出し',
+    'classroom.print': '印刷',
+    'classroom.clear': 'クリア',
+    'classroom.importFailed': '読み込めなかったファイルがあります：',
+    'classroom.noResults': 'まだ結果がありません。生徒から届いたファイルを読み込んでください。',
+    'classroom.assignment': '課題',
+    'classroom.student': '生徒',
+    'classroom.total': '合計',
+    'classroom.submitted': '提出日時',
+    'classroom.signature': '署名',
+    'classroom.signature.valid': '有効',
+    'classroom.signature.invalid': '一致しません',
+    'classroom.signature.unknown': '不明な課題',
+    'classroom.itemsDone': '（{total} 項目中 {done}）',
+    'classroom.legend': '各セルは「正解数／試行回数」です。署名は、このブラウザで作成した課題についてのみ検証できます。',
+    'assignment.label': '課題',
+    'assignment.title': '課題：{title}',
+    'assignment.progress': '{total} 項目中 {done} 項目に挑戦・{attempts} 回',
+    'assignment.name': 'あなたの名前',
+    'assignment.download': '署名付きの結果を保存',
+    'assignment.practice': '練習する',
+    'assignment.leave': 'やめる',
+    'assignment.confirmLeave': 'この課題をやめますか？保存していない結果は失われます。',
+    'assignment.signFailed': '結果に署名できませんでした。https でアプリを開いて、もう一度お試しください。',
+    'replay.label': 'リプレイスクリプト（QA・デモ用）',
+    'replay.active': 'スクリプトを再生中（残り {count} 回）',
+    'replay.load': '読み込む…',
+    'replay.stop': 'マイクに戻す',
+    'replay.loadFailed': 'このリプレイスクリプトは読み込めませんでした：',
+
+    'twister.instructions': '{runs} 回、だんだん速く言ってみましょう。',
+    'twister.stop': '{run} 回目を終了',
+    'twister.start': '{run} 回目を開始（全 {runs} 回）',
+    'twister.again': 'もう一度チャレンジ',
+    'twister.run': '回',
+    'twister.time': '時間',
+    'twister.wpm': '語/分',
+    'twister.accuracy': '正確さ',
+    'twister.score': 'スコア',
+    'twister.seconds': '{seconds} 秒',
+    'twister.error': 'リアルタイム認識が予期せず停止しました。もう一度お試しください。',
+
+    'dashboard.loadError': '練習履歴を読み込めませんでした。',
+    'dashboard.loading': '履歴を読み込み中',
+    'dashboard.label': '学習の記録',
+    'dashboard.title': 'あなたの発音の間違い',
+    'dashboard.back': '← 練習に戻る',
+    'dashboard.contrast': '対比',
+    'dashboard.contrastOption': '{a} と {b}',
+    'dashboard.empty': 'この対比の分析済みの記録はまだありません。いくつか練習してから戻ってきてください。',
+    'dashboard.saidAs': '実際の発音…',
+    'dashboard.target': '目標の音',
+    'dashboard.unclear': '不明瞭',
+    'dashboard.byContext': '環境別の正答率',
+    'dashboard.context': '環境',
+    'dashboard.lastDays': '過去 {days} 日間',
+    'dashboard.trendLabel': '日ごとの正答率',
+    'dashboard.trendDay': '{date}：{total} 回中 {percent}',
+    'dashboard.export': '{count} 件の記録を書き出す',
+    'context.beforeIy': '/iː/ の前',
+    'context.beforeVowel': 'その他の母音の前',
+    'context.beforeConsonant': '子音の前',
+    'context.initial': '語頭',
+    'context.medial': '語中',
+    'context.final': '語末',
+
+    'rules.tip.s': '/s/ は、舌先を上の歯のすぐ裏に置き、舌の中央に細い溝を作って、唇を横に引きます。高く細い「スー」という音になります。',
+    'rules.tip.sh': '/ʃ/ は、舌を少し後ろに引いて舌の前の部分を上あごに近づけ、唇を前に突き出して丸めます。/s/ より低く、こもった音になります。',
+    'rules.tip.r': '/r/ は、舌先を上あごに触れないように後ろへ反らせ、唇を少し丸めます。日本語の「ら」のように舌で弾かないようにしましょう。',
+    'rules.tip.l': '/l/ は、舌先を上の歯の裏の歯ぐきにしっかり付け、舌の両側から息を流します。',
+    'rules.tip.b': '/b/ は、両唇をしっかり閉じ、声を出しながら唇を開きます。',
+    'rules.tip.v': '/v/ は、上の歯を下唇に軽く当て、そのすき間から声を伴った息を出します。/b/ のように両唇を閉じないようにしましょう。',
+    'rules.tip.th': '/θ/ は、舌先を上下の歯の間に軽く挟み、その上に息を吹きます。/s/ に戻らないように注意しましょう。',
+    'rules.tip.generic': 'ポイントの音を大げさに、ゆっくり言ってから、自然な速さに近づけていきましょう。',
+    'rules.sentence.correct': 'すべての単語がはっきり聞き取れました。',
+    'rules.sentence.correctTip': '一つひとつの音をはっきり保ったまま、少し速く言ってみましょう。',
+    'rules.sentence.problems': '惜しい！{problems}。',
+    'rules.sentence.separator': '、',
+    'rules.sentence.missing': '「{word}」が聞き取れませんでした',
+    'rules.sentence.extra': '余分な「{word}」が聞こえました',
+    'rules.sentence.substituted': '「{target}」が「{heard}」に聞こえました',
+    'rules.sentence.tip': 'ゆっくり話して、単語ごとに始まりと終わりをはっきりさせましょう。',
+    'rules.pair.nothingHeard': '単語がはっきり聞き取れませんでした。もう少し大きな声で「{word}」と言ってみましょう。',
+    'rules.pair.acousticMismatch': '音声認識は「{heard}」と聞き取りましたが、摩擦音そのものは {sound} に近く聞こえました。',
+    'rules.pair.closeSecond': 'いいですね、「{word}」と聞こえました。ただ「{other}」とも聞こえかけたので、違いをもう少しはっきりさせましょう。',
+    'rules.pair.clear': 'すばらしい！「{word}」とはっきり聞こえました。',
+    'rules.pair.clearTip': '同じ口の形のまま、3回続けて言ってみましょう。',
+    'rules.pair.soundedLikeOther': '「{word}」ではなく「{other}」（/{symbol}/）に聞こえました。',
+    'rules.pair.runnerUp': '判断が難しい発音でした。主に「{heard}」と聞こえ、「{word}」は次点の候補でした。',
+    'rules.pair.heardInstead': '「{word}」ではなく「{heard}」と聞こえました。',
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { en } from './messages/en';
+import { ja } from './messages/ja';
+import { CATALOGS, checkCatalog, createTranslator, detectLocale, formatMessage, isLocale } from './translate';
+
+describe('the message catalogs', () => {
+    it.each(Object.entries(CATALOGS))('%s is complete, with the same placeholders as English', (_locale, catalog) => {
+        expect(checkCatalog(en, catalog)).toEqual([]);
+    });
+
+    it('reports missing, empty, unknown and mismatched messages', () => {
+        const { 'compare.play': _missing, ...rest } = ja;
+        const broken = { ...rest, 'compare.stop': ' ', 'twister.start': '開始', 'compare.extra': 'x' };
+        expect(checkCatalog(en, broken)).toEqual([
+            { key: 'compare.play', problem: 'missing' },
+            { key: 'compare.stop', problem: 'empty' },
+            { key: 'twister.start', problem: 'placeholders' },
+            { key: 'compare.extra', problem: 'unknown' },
+        ]);
+    });
+});
+
+describe('translation', () => {
+    it('fills placeholders and leaves unknown ones visible', () => {
+        expect(formatMessage('{done} of {total}', { done: 2 })).toBe('2 of {total}');
+    });
+
+    it('translates with the chosen catalog', () => {
+        expect(createTranslator('ja')('compare.play')).toBe(ja['compare.play']);
+        expect(createTranslator('en')('compare.play')).toBe('Play');
+    });
+
+    it('picks the first supported browser language', () => {
+        expect(detectLocale(['fr-FR', 'ja-JP', 'en-US'])).toBe('ja');
+        expect(detectLocale(['fr-FR'])).toBe('en');
+    });
+
+    it('only accepts locales that have a catalog', () => {
+        expect(isLocale('ja')).toBe(true);
+        expect(isLocale('constructor')).toBe(false);
+        expect(isLocale(1)).toBe(false);
+    });
+});
@@ -0,0 +1,70 @@
+import { en } from './messages/en';
+import { ja } from './messages/ja';
+import type { Locale, MessageKey, MessageParams, Messages, Translate } from './types';
+
+export const CATALOGS: Record<Locale, Messages> = { en, ja };
+
+// Each language is listed under its own name so it can be found from either UI.
+export const LOCALES: { id: Locale; label: string }[] = [
+    { id: 'en', label: 'English' },
+    { id: 'ja', label: '日本語' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATALOGS, value);
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Unknown {placeholders} are left in place so a missing parameter shows up
+// on screen instead of silently vanishing.
+export const formatMessage = (template: string, params: MessageParams = {}) =>
+    template.replace(PLACEHOLDER, (match, name: string) => (name in params ? String(params[name]) : match));
+
+export const createTranslator = (locale: Locale): Translate => {
+    const catalog = CATALOGS[locale];
+    return (key, params) => formatMessage(catalog[key] ?? en[key] ?? key, params);
+};
+
+// The first of the browser's preferred languages that has a catalog.
+export const detectLocale = (languages: readonly string[]): Locale => {
+    for (const language of languages) {
+        const base = language.toLowerCase().split('-')[0];
+        if (isLocale(base)) {
+            return base;
+        }
+    }
+    return DEFAULT_LOCALE;
+};
+
+export type CatalogProblem = {
+    key: string;
+    problem: 'missing' | 'unknown' | 'empty' | 'placeholders';
+};
+
+const placeholdersOf = (template: string) =>
+    [...template.matchAll(PLACEHOLDER)].map(match => match[1]).sort().join();
+
+// The runtime half of the missing-key check: the type system catches keys,
+// this also catches empty strings and {placeholders} that differ from the
+// reference, e.g. after the English text gained a parameter.
+export const checkCatalog = (reference: Messages, catalog: Record<string, unknown>): CatalogProblem[] => {
+    const problems: CatalogProblem[] = [];
+    for (const key of Object.keys(reference) as MessageKey[]) {
+        const value = catalog[key];
+        if (typeof value !== 'string') {
+            problems.push({ key, problem: 'missing' });
+        } else if (value.trim() === '') {
+            problems.push({ key, problem: 'empty' });
+        } else if (placeholdersOf(value) !== placeholdersOf(reference[key])) {
+            problems.push({ key, problem: 'placeholders' });
+        }
+    }
+    for (const key of Object.keys(catalog)) {
+        if (!(key in reference)) {
+            problems.push({ key, problem: 'unknown' });
+        }
+    }
+    return problems;
+};
@@ -0,0 +1,12 @@
+import type { en } from './messages/en';
+
+export type Locale = 'en' | 'ja';
+
+export type MessageKey = keyof typeof en;
+
+// Typing a catalog as Messages makes tsc reject missing and unknown keys.
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
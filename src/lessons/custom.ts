@@ -0,0 +1,82 @@
+import { formatIpa, transcribeText, type TranscribedWord } from '../pronunciation';
+import type { Contrast, LessonPack, SentenceItem } from './types';
+
+// "Practice my own text": one entry per line, optionally followed by a
+// translation after " = " or a tab, as pasted from a vocabulary list.
+
+export const CUSTOM_PACK_ID = 'custom';
+
+export const MAX_CUSTOM_ENTRIES = 50;
+const MAX_ENTRY_LENGTH = 200;
+
+export type CustomEntry = {
+    text: string;
+    translation: string;
+    words: TranscribedWord[];
+};
+
+// Structured so the form can word each problem in the learner's language.
+// Line numbers are 1-based.
+export type CustomEntryError =
+    | { type: 'tooMany'; max: number }
+    | { type: 'tooLong'; line: number; max: number }
+    | { type: 'noWords'; line: number };
+
+export const parseCustomEntries = (input: string): { entries: CustomEntry[]; errors: CustomEntryError[] } => {
+    const errors: CustomEntryError[] = [];
+    const lines = input.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+    if (lines.length > MAX_CUSTOM_ENTRIES) {
+        errors.push({ type: 'tooMany', max: MAX_CUSTOM_ENTRIES });
+    }
+    const entries = lines.slice(0, MAX_CUSTOM_ENTRIES).flatMap((line, index) => {
+        const [text, ...translation] = line.split(/\s+=\s+|\t/);
+        if (text.length > MAX_ENTRY_LENGTH) {
+            errors.push({ type: 'tooLong', line: index + 1, max: MAX_ENTRY_LENGTH });
+            return [];
+        }
+        const words = transcribeText(text);
+        if (words.length === 0) {
+            errors.push({ type: 'noWords', line: index + 1 });
+            return [];
+        }
+        return [{ text: text.trim(), translation: translation.join(' ').trim(), words }];
+    });
+    return { entries, errors };
+};
+
+const toSentenceItem = (entry: CustomEntry, id: string, tag: string, translation: string): SentenceItem => ({
+    type: 'sentence',
+    id,
+    tags: [tag],
+    translation,
+    text: entry.text,
+    ipa: formatIpa(entry.words),
+    ipaVariants: { 'en-GB': formatIpa(entry.words, 'en-GB') },
+});
+
+// Custom entries become sentence items, so single words and whole sentences
+// go through the same word-by-word scoring. The labels come in already
+// translated.
+export const buildCustomPack = (
+    entries: CustomEntry[],
+    contrast: Contrast,
+    labels: { title: string; defaultTranslation: string },
+): LessonPack => ({
+    schemaVersion: 1,
+    id: CUSTOM_PACK_ID,
+    title: labels.title,
+    contrast,
+    items: entries.map((entry, index) =>
+        toSentenceItem(entry, `custom-${index + 1}`, 'custom', entry.translation || labels.defaultTranslation)),
+});
+
+// One item added to the running session, such as a word the coach suggested.
+// The id is derived from the text, so adding the same word twice is detectable.
+export const buildSessionItem = (text: string, tag: string, translation: string): SentenceItem | null => {
+    const words = transcribeText(text);
+    if (words.length === 0) {
+        return null;
+    }
+    const slug = text.toLowerCase().replace(/[^a-z']+/g, '-').replace(/^-|-$/g, '');
+    return toSentenceItem({ text: text.trim(), translation, words }, `${tag}-${slug}`, tag, translation);
+};
@@ -0,0 +1,269 @@
+import { requestPracticeSet } from '../api/practiceSet';
+import { dictionaryWords, formatIpa, transcribeText, transcribeWord, type TranscribedWord } from '../pronunciation';
+import { isObject } from '../utils/isObject';
+import type { Contrast, LessonPack, PairItem, PracticeItem, SentenceItem } from './types';
+
+// "Generate more": practice items written by the model, kept only when the
+// bundled dictionary confirms they really drill the contrast. Accepted items
+// use the lesson pack item shape and collect in one persisted pack.
+
+export const GENERATED_PACK_ID = 'generated';
+// Oldest items drop out beyond this.
+export const MAX_GENERATED_ITEMS = 100;
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+export const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Where the contrasting sound sits in the word; 'cluster' is next to another
+// consonant, as in "street" or "class".
+export type WordPosition = 'initial' | 'medial' | 'final' | 'cluster';
+export const WORD_POSITIONS: WordPosition[] = ['initial', 'medial', 'final', 'cluster'];
+
+export type GenerationOptions = {
+    contrast: Contrast;
+    difficulty: Difficulty;
+    position: WordPosition;
+    // Items already available, so repeats are dropped.
+    existing: PracticeItem[];
+};
+
+// Raw model output, checked here before anything trusts it.
+export type GeneratedSet = {
+    pairs: unknown[];
+    sentences: unknown[];
+};
+
+export type GenerationRejection =
+    | { type: 'malformed' }
+    | { type: 'unknownWord'; word: string }
+    | { type: 'notMinimalPair' }
+    | { type: 'missingSound'; symbol: string }
+    | { type: 'wrongPosition'; position: WordPosition }
+    | { type: 'tooLong' }
+    | { type: 'duplicate' };
+
+export type RejectedGeneration = {
+    // The offending entry, as JSON.
+    input: string;
+    reason: GenerationRejection;
+};
+
+export type GenerationCheck = {
+    items: PracticeItem[];
+    rejected: RejectedGeneration[];
+};
+
+const WORD_PATTERN = /^[a-z][a-z'-]*$/i;
+const MAX_SENTENCE_LENGTH = 200;
+const MAX_SENTENCE_WORDS = 16;
+const VOWEL = /[aeiouæɑɒəɛɜɪɔʊʌ]/;
+
+const stripStress = (ipa: string) => ipa.replace(/[ˈˌ]/g, '');
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const isConsonantAt = (ipa: string, index: number) =>
+    index >= 0 && index < ipa.length && ipa[index] !== 'ː' && !VOWEL.test(ipa[index]);
+
+// Where the symbol at `index` of a stress-free transcription sits.
+export const positionsAt = (ipa: string, index: number): WordPosition[] => [
+    index === 0 ? 'initial' : index === ipa.length - 1 ? 'final' : 'medial',
+    ...(isConsonantAt(ipa, index - 1) || isConsonantAt(ipa, index + 1) ? ['cluster' as const] : []),
+];
+
+// Indexes of `symbol` as a sound of its own: the ʃ of /tʃ/ doesn't count.
+const indexesOf = (ipa: string, symbol: string) =>
+    [...ipa].flatMap((char, i) => (char === symbol && !(symbol === 'ʃ' && ipa[i - 1] === 't') ? [i] : []));
+
+const hasSoundAt = (word: TranscribedWord, symbol: string, position: WordPosition) => {
+    const ipa = stripStress(word.ipa);
+    return indexesOf(ipa, symbol).some(index => positionsAt(ipa, index).includes(position));
+};
+
+// Dictionary words that contain either side of the contrast; sent to the
+// model so its suggestions can be verified.
+export const contrastVocabulary = (contrast: Contrast) =>
+    dictionaryWords().filter((word) => {
+        const ipa = stripStress(transcribeWord(word).ipa);
+        return indexesOf(ipa, contrast.a.symbol).length > 0 || indexesOf(ipa, contrast.b.symbol).length > 0;
+    });
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+type Checked<T> = { item: T } | { reason: GenerationRejection };
+
+const checkPair = (raw: unknown, { contrast, difficulty, position }: GenerationOptions): Checked<PairItem> => {
+    if (!isObject(raw) || !isText(raw.a) || !isText(raw.b) || !isText(raw.translation)
+        || !WORD_PATTERN.test(raw.a.trim()) || !WORD_PATTERN.test(raw.b.trim())) {
+        return { reason: { type: 'malformed' } };
+    }
+    const words = [transcribeWord(raw.a.trim().toLowerCase()), transcribeWord(raw.b.trim().toLowerCase())];
+    const unknown = words.find(word => word.source !== 'dictionary');
+    if (unknown) {
+        return { reason: { type: 'unknownWord', word: unknown.text } };
+    }
+    // A minimal pair: the same sounds except a's contrast.a where b has contrast.b.
+    const [a, b] = words.map(word => stripStress(word.ipa));
+    const differences = [...a].flatMap((char, i) => (char !== b[i] ? [i] : []));
+    const index = differences[0];
+    if (a.length !== b.length || differences.length !== 1
+        || !indexesOf(a, contrast.a.symbol).includes(index) || !indexesOf(b, contrast.b.symbol).includes(index)) {
+        return { reason: { type: 'notMinimalPair' } };
+    }
+    if (!positionsAt(a, index).includes(position)) {
+        return { reason: { type: 'wrongPosition', position } };
+    }
+    const [wordA, wordB] = words;
+    return {
+        item: {
+            type: 'pair',
+            id: `gen-${slug(wordA.text)}-${slug(wordB.text)}`,
+            tags: ['generated', difficulty, position],
+            translation: raw.translation.trim(),
+            a: { word: wordA.text, ipa: formatIpa([wordA]), ipaVariants: { 'en-GB': formatIpa([wordA], 'en-GB') } },
+            b: { word: wordB.text, ipa: formatIpa([wordB]), ipaVariants: { 'en-GB': formatIpa([wordB], 'en-GB') } },
+        },
+    };
+};
+
+// Sentences may contain words the dictionary lacks (their IPA is guessed, as
+// for custom text), but both sounds must come from dictionary words.
+const checkSentence = (raw: unknown, { contrast, difficulty, position }: GenerationOptions): Checked<SentenceItem> => {
+    if (!isObject(raw) || !isText(raw.text) || !isText(raw.translation)) {
+        return { reason: { type: 'malformed' } };
+    }
+    const text = raw.text.trim();
+    const words = transcribeText(text);
+    if (text.length > MAX_SENTENCE_LENGTH || words.length > MAX_SENTENCE_WORDS) {
+        return { reason: { type: 'tooLong' } };
+    }
+    const known = words.filter(word => word.source === 'dictionary');
+    for (const symbol of [contrast.a.symbol, contrast.b.symbol]) {
+        if (!known.some(word => indexesOf(stripStress(word.ipa), symbol).length > 0)) {
+            return { reason: { type: 'missingSound', symbol } };
+        }
+    }
+    if (!known.some(word => hasSoundAt(word, contrast.a.symbol, position) || hasSoundAt(word, contrast.b.symbol, position))) {
+        return { reason: { type: 'wrongPosition', position } };
+    }
+    return {
+        item: {
+            type: 'sentence',
+            id: `gen-${slug(words.slice(0, 6).map(word => word.text).join(' '))}`,
+            tags: ['generated', difficulty, position],
+            translation: raw.translation.trim(),
+            text,
+            ipa: formatIpa(words),
+            ipaVariants: { 'en-GB': formatIpa(words, 'en-GB') },
+        },
+    };
+};
+
+const itemKey = (item: PracticeItem) =>
+    (item.type === 'pair' ? `${item.a.word}|${item.b.word}` : item.text).toLowerCase().replace(/[^a-z|]+/g, ' ').trim();
+
+export const checkGeneratedSet = (set: GeneratedSet, options: GenerationOptions): GenerationCheck => {
+    const seen = new Set(options.existing.flatMap(item => [item.id, itemKey(item)]));
+    const items: PracticeItem[] = [];
+    const rejected: RejectedGeneration[] = [];
+    const checked = [
+        ...set.pairs.map(raw => ({ raw, result: checkPair(raw, options) })),
+        ...set.sentences.map(raw => ({ raw, result: checkSentence(raw, options) })),
+    ];
+    for (const { raw, result } of checked) {
+        if ('item' in result && (seen.has(result.item.id) || seen.has(itemKey(result.item)))) {
+            rejected.push({ input: JSON.stringify(raw), reason: { type: 'duplicate' } });
+        } else if ('item' in result) {
+            seen.add(result.item.id);
+            seen.add(itemKey(result.item));
+            items.push(result.item);
+        } else {
+            rejected.push({ input: JSON.stringify(raw) ?? String(raw), reason: result.reason });
+        }
+    }
+    return { items, rejected };
+};
+
+// For the console; the UI only shows counts.
+export const describeRejection = (reason: GenerationRejection) => {
+    switch (reason.type) {
+        case 'malformed':
+            return 'not in the expected shape';
+        case 'unknownWord':
+            return `"${reason.word}" is not in the pronunciation dictionary`;
+        case 'notMinimalPair':
+            return 'the words are not a minimal pair for the contrast';
+        case 'missingSound':
+            return `no dictionary word with /${reason.symbol}/`;
+        case 'wrongPosition':
+            return `the contrast is not in ${reason.position} position`;
+        case 'tooLong':
+            return `longer than ${MAX_SENTENCE_WORDS} words or ${MAX_SENTENCE_LENGTH} characters`;
+        case 'duplicate':
+            return 'already in the lessons';
+    }
+};
+
+// How many of each to ask for at a time.
+const PAIRS_PER_REQUEST = 6;
+const SENTENCES_PER_REQUEST = 3;
+
+const parseGeneratedSet = (value: unknown): GeneratedSet | null =>
+    isObject(value) && Array.isArray(value.pairs) && Array.isArray(value.sentences)
+        ? { pairs: value.pairs, sentences: value.sentences }
+        : null;
+
+export class GenerationUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GenerationUnavailableError';
+    }
+}
+
+export type GeneratePracticeOptions = GenerationOptions & {
+    signal?: AbortSignal;
+    request?: typeof requestPracticeSet;
+};
+
+// Asks the model for a fresh set and keeps what the dictionary confirms.
+// Rejections are logged with their reason; the caller gets them too.
+export const generatePracticeItems = async (
+    { signal, request = requestPracticeSet, ...options }: GeneratePracticeOptions,
+): Promise<GenerationCheck> => {
+    const { contrast } = options;
+    const response = await request({
+        contrast: { a: contrast.a.label, b: contrast.b.label },
+        difficulty: options.difficulty,
+        position: options.position,
+        pairCount: PAIRS_PER_REQUEST,
+        sentenceCount: SENTENCES_PER_REQUEST,
+        vocabulary: contrastVocabulary(contrast),
+        exclude: [...new Set(options.existing.flatMap(item => (item.type === 'pair' ? [item.a.word, item.b.word] : [])))]
+            .filter(word => WORD_PATTERN.test(word))
+            .map(word => word.toLowerCase())
+            .slice(0, 200),
+    }, { signal });
+    const set = parseGeneratedSet(response);
+    if (!set) {
+        throw new GenerationUnavailableError('The practice set response was malformed.');
+    }
+    const check = checkGeneratedSet(set, options);
+    for (const { input, reason } of check.rejected) {
+        console.warn(`Skipped generated item ${input}: ${describeRejection(reason)}.`);
+    }
+    return check;
+};
+
+// Adds accepted items to the generated pack, newest last.
+export const addToGeneratedPack = (
+    pack: LessonPack | null,
+    items: PracticeItem[],
+    contrast: Contrast,
+    title: string,
+): LessonPack => ({
+    schemaVersion: 1,
+    id: GENERATED_PACK_ID,
+    title,
+    contrast,
+    items: [...(pack?.items ?? []), ...items].slice(-MAX_GENERATED_ITEMS),
+});
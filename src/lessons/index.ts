@@ -0,0 +1,52 @@
+import type { Sibilant } from '../audio/fricative';
+import type { Accent } from '../pronunciation';
+import bVPack from './packs/b-v.json';
+import rLPack from './packs/r-l.json';
+import sShPack from './packs/s-sh.json';
+import thSPack from './packs/th-s.json';
+import type { Contrast, ContrastSide, IpaVariants, LessonPack } from './types';
+import { assertLessonPack } from './validate';
+
+export type { Contrast, ContrastSide, IpaVariants, LessonPack, PairItem, PairWord, PracticeItem, SentenceItem } from './types';
+export { buildCustomPack, buildSessionItem, CUSTOM_PACK_ID, MAX_CUSTOM_ENTRIES, parseCustomEntries, type CustomEntry, type CustomEntryError } from './custom';
+export {
+    addToGeneratedPack,
+    checkGeneratedSet,
+    contrastVocabulary,
+    describeRejection,
+    DIFFICULTIES,
+    generatePracticeItems,
+    GENERATED_PACK_ID,
+    GenerationUnavailableError,
+    WORD_POSITIONS,
+    type Difficulty,
+    type GeneratedSet,
+    type GenerationCheck,
+    type WordPosition,
+} from './generated';
+export { LessonPackError, parseLessonPack, validateLessonPack } from './validate';
+
+const loadBundledPack = (value: unknown): LessonPack => {
+    assertLessonPack(value);
+    return value;
+};
+
+export const BUNDLED_PACKS: LessonPack[] = [sShPack, rLPack, bVPack, thSPack].map(loadBundledPack);
+
+export const DEFAULT_PACK_ID = 's-sh';
+
+// The transcription for the learner's target accent, falling back to the
+// item's default.
+export const ipaFor = (entry: { ipa: string; ipaVariants?: IpaVariants }, accent: Accent) =>
+    entry.ipaVariants?.[accent] ?? entry.ipa;
+
+// The acoustic classifier only knows /s/ and /ʃ/; other contrasts get null.
+export const sibilantFor = (contrast: Contrast, side: ContrastSide): Sibilant | null => {
+    const symbol = contrast[side].symbol;
+    const other = contrast[side === 'a' ? 'b' : 'a'].symbol;
+    const isSShContrast = [symbol, other].sort().join() === ['s', 'ʃ'].sort().join();
+    if (!isSShContrast) {
+        return null;
+    }
+    return symbol === 's' ? 's' : 'sh';
+};
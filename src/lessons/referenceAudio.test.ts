@@ -0,0 +1,38 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { analyzeFricative } from '../audio/fricative';
+import { decodeWav } from '../audio/pcm';
+import { BUNDLED_PACKS, sibilantFor } from '.';
+
+// The shipped reference recordings, as the compare panel would load them.
+const loadReference = (url: string) => {
+    const bytes = readFileSync(new URL(`../../public${url}`, import.meta.url));
+    return decodeWav(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+describe('the s/sh reference recordings', () => {
+    const pack = BUNDLED_PACKS.find(candidate => candidate.id === 's-sh')!;
+
+    it('cover every item', () => {
+        for (const item of pack.items) {
+            const urls = item.type === 'pair' ? [item.a.audio, item.b.audio] : [item.audio];
+            expect(urls.every(url => url !== undefined && loadReference(url).samples.length > 0)).toBe(true);
+        }
+    });
+
+    it('carry the sibilant each word is meant to have', () => {
+        for (const item of pack.items) {
+            if (item.type !== 'pair') {
+                continue;
+            }
+            for (const side of ['a', 'b'] as const) {
+                // The check measures the longest fricative, which in "self" is the /f/.
+                if (/[fvθð]/.test(item[side].ipa)) {
+                    continue;
+                }
+                const analysis = analyzeFricative(loadReference(item[side].audio!));
+                expect([item[side].word, analysis?.verdict]).toEqual([item[side].word, sibilantFor(pack.contrast, side)]);
+            }
+        }
+    });
+});
@@ -0,0 +1,62 @@
+// Lesson pack format (schemaVersion 1). A pack drills one phoneme contrast,
+// e.g. /s/ vs /ʃ/; each pair item has one word for each side of it.
+
+import type { Accent } from '../pronunciation';
+
+export type Phoneme = {
+    // Bare IPA symbol, e.g. "ʃ".
+    symbol: string;
+    // How the UI writes it, e.g. "/ʃ/".
+    label: string;
+};
+
+export type Contrast = {
+    a: Phoneme;
+    b: Phoneme;
+};
+
+export type ContrastSide = 'a' | 'b';
+
+// Transcriptions for specific target accents. `ipa` is used for any accent
+// that has no entry here.
+export type IpaVariants = Partial<Record<Accent, string>>;
+
+export type PairWord = {
+    word: string;
+    ipa: string;
+    ipaVariants?: IpaVariants;
+    // Optional recorded reference (URL); speechSynthesis is used otherwise.
+    audio?: string;
+};
+
+export type PairItem = {
+    type: 'pair';
+    id: string;
+    tags: string[];
+    translation: string;
+    // `a` carries contrast.a, `b` carries contrast.b.
+    a: PairWord;
+    b: PairWord;
+};
+
+export type SentenceItem = {
+    type: 'sentence';
+    id: string;
+    tags: string[];
+    translation: string;
+    text: string;
+    ipa: string;
+    ipaVariants?: IpaVariants;
+    audio?: string;
+};
+
+export type PracticeItem = PairItem | SentenceItem;
+
+export type LessonPack = {
+    schemaVersion: 1;
+    id: string;
+    title: string;
+    description?: string;
+    contrast: Contrast;
+    items: PracticeItem[];
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import sShPack from './packs/s-sh.json';
+import { LessonPackError, parseLessonPack, validateLessonPack } from './validate';
+
+const validPack = () => ({
+    schemaVersion: 1,
+    id: 'my-pack',
+    title: 'My pack',
+    contrast: { a: { symbol: 's', label: '/s/' }, b: { symbol: 'ʃ', label: '/ʃ/' } },
+    items: [
+        { type: 'pair', id: 'sea-she', tags: [], translation: '海 / 彼女', a: { word: 'sea', ipa: '/siː/' }, b: { word: 'she', ipa: '/ʃiː/' } },
+        { type: 'sentence', id: 'shells', tags: ['sentence'], translation: '…', text: 'She sells seashells.', ipa: '/ʃiː selz/' },
+    ],
+});
+
+describe('validateLessonPack', () => {
+    it('accepts a well-formed pack and the bundled ones', () => {
+        expect(validateLessonPack(validPack())).toEqual([]);
+        expect(validateLessonPack(sShPack)).toEqual([]);
+    });
+
+    it('rejects anything but an object', () => {
+        expect(validateLessonPack([])).toEqual(['pack: must be a JSON object']);
+        expect(validateLessonPack(null)).toEqual(['pack: must be a JSON object']);
+    });
+
+    it('reports every problem with its path', () => {
+        const pack = validPack() as Record<string, any>;
+        pack.schemaVersion = 2;
+        pack.id = 'My Pack';
+        pack.contrast.b = { symbol: 'ʃ' };
+        pack.items[0].b.ipa = ' ';
+        pack.items[0].a.ipaVariants = { 'en-AU': '/siː/' };
+        pack.items[1].id = 'sea-she';
+        pack.items.push({ type: 'word', id: 'x', tags: 'x', translation: '' });
+
+        expect(validateLessonPack(pack)).toEqual([
+            'schemaVersion: must be 1',
+            'id: must be lowercase letters, digits and dashes',
+            'contrast.b.label: must be a non-empty string',
+            'items[0].a.ipaVariants.en-AU: unknown accent, expected one of en-US, en-GB',
+            'items[0].b.ipa: must be a non-empty string',
+            'items[1].id: "sea-she" is used by more than one item',
+            'items[2].translation: must be a non-empty string',
+            'items[2].tags: must be an array of strings',
+            'items[2].type: must be "pair" or "sentence"',
+        ]);
+    });
+
+    it('needs at least one item', () => {
+        expect(validateLessonPack({ ...validPack(), items: [] })).toEqual(['items: must be a non-empty array']);
+    });
+});
+
+describe('parseLessonPack', () => {
+    it('returns a valid pack', () => {
+        expect(parseLessonPack(JSON.stringify(validPack())).id).toBe('my-pack');
+    });
+
+    it('throws a LessonPackError for bad JSON and for invalid packs', () => {
+        expect(() => parseLessonPack('{ not json')).toThrow(LessonPackError);
+        try {
+            parseLessonPack(JSON.stringify({ ...validPack(), title: '' }));
+            expect.unreachable();
+        } catch (e) {
+            expect(e).toBeInstanceOf(LessonPackError);
+            expect((e as LessonPackError).errors).toEqual(['title: must be a non-empty string']);
+        }
+    });
+});
@@ -0,0 +1,143 @@
+import { ACCENTS, isAccent } from '../pronunciation';
+import { isObject } from '../utils/isObject';
+import type { LessonPack } from './types';
+
+// Hand-written schema check for lesson packs. Every problem is reported with
+// the path to the offending field, e.g. "items[2].b.ipa: must be a non-empty string".
+
+export class LessonPackError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid lesson pack:\n${errors.join('\n')}`);
+        this.name = 'LessonPackError';
+    }
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export const validateLessonPack = (value: unknown): string[] => {
+    const errors: string[] = [];
+    const requireString = (object: Record<string, unknown>, key: string, path: string) => {
+        if (typeof object[key] !== 'string' || (object[key] as string).trim() === '') {
+            errors.push(`${path}${key}: must be a non-empty string`);
+        }
+    };
+    const optionalString = (object: Record<string, unknown>, key: string, path: string) => {
+        if (object[key] !== undefined && (typeof object[key] !== 'string' || (object[key] as string).trim() === '')) {
+            errors.push(`${path}${key}: must be a non-empty string when present`);
+        }
+    };
+    const optionalIpaVariants = (object: Record<string, unknown>, path: string) => {
+        const variants = object.ipaVariants;
+        if (variants === undefined) {
+            return;
+        }
+        if (!isObject(variants)) {
+            errors.push(`${path}ipaVariants: must be an object keyed by accent (${ACCENTS.join(', ')})`);
+            return;
+        }
+        for (const [accent, ipa] of Object.entries(variants)) {
+            if (!isAccent(accent)) {
+                errors.push(`${path}ipaVariants.${accent}: unknown accent, expected one of ${ACCENTS.join(', ')}`);
+            } else if (typeof ipa !== 'string' || ipa.trim() === '') {
+                errors.push(`${path}ipaVariants.${accent}: must be a non-empty string`);
+            }
+        }
+    };
+    const requireId = (object: Record<string, unknown>, path: string) => {
+        if (typeof object.id !== 'string' || !ID_PATTERN.test(object.id)) {
+            errors.push(`${path}id: must be lowercase letters, digits and dashes`);
+        }
+    };
+
+    if (!isObject(value)) {
+        return ['pack: must be a JSON object'];
+    }
+    if (value.schemaVersion !== 1) {
+        errors.push('schemaVersion: must be 1');
+    }
+    requireId(value, '');
+    requireString(value, 'title', '');
+    if (value.description !== undefined && typeof value.description !== 'string') {
+        errors.push('description: must be a string');
+    }
+
+    if (!isObject(value.contrast)) {
+        errors.push('contrast: must be an object with "a" and "b" phonemes');
+    } else {
+        for (const side of ['a', 'b'] as const) {
+            const phoneme = value.contrast[side];
+            if (!isObject(phoneme)) {
+                errors.push(`contrast.${side}: must be an object with "symbol" and "label"`);
+                continue;
+            }
+            requireString(phoneme, 'symbol', `contrast.${side}.`);
+            requireString(phoneme, 'label', `contrast.${side}.`);
+        }
+    }
+
+    if (!Array.isArray(value.items) || value.items.length === 0) {
+        errors.push('items: must be a non-empty array');
+        return errors;
+    }
+
+    const seenIds = new Set<string>();
+    value.items.forEach((item: unknown, index) => {
+        const path = `items[${index}].`;
+        if (!isObject(item)) {
+            errors.push(`items[${index}]: must be an object`);
+            return;
+        }
+        requireId(item, path);
+        if (typeof item.id === 'string') {
+            if (seenIds.has(item.id)) {
+                errors.push(`${path}id: "${item.id}" is used by more than one item`);
+            }
+            seenIds.add(item.id);
+        }
+        requireString(item, 'translation', path);
+        if (!Array.isArray(item.tags) || !item.tags.every(tag => typeof tag === 'string')) {
+            errors.push(`${path}tags: must be an array of strings`);
+        }
+
+        if (item.type === 'pair') {
+            for (const side of ['a', 'b'] as const) {
+                const word = item[side];
+                if (!isObject(word)) {
+                    errors.push(`${path}${side}: must be an object with "word" and "ipa"`);
+                    continue;
+                }
+                requireString(word, 'word', `${path}${side}.`);
+                requireString(word, 'ipa', `${path}${side}.`);
+                optionalIpaVariants(word, `${path}${side}.`);
+                optionalString(word, 'audio', `${path}${side}.`);
+            }
+        } else if (item.type === 'sentence') {
+            requireString(item, 'text', path);
+            requireString(item, 'ipa', path);
+            optionalIpaVariants(item, path);
+            optionalString(item, 'audio', path);
+        } else {
+            errors.push(`${path}type: must be "pair" or "sentence"`);
+        }
+    });
+    return errors;
+};
+
+export function assertLessonPack(value: unknown): asserts value is LessonPack {
+    const errors = validateLessonPack(value);
+    if (errors.length > 0) {
+        throw new LessonPackError(errors);
+    }
+}
+
+// Parses and validates user-supplied JSON (e.g. an imported file).
+export const parseLessonPack = (json: string): LessonPack => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch (e) {
+        throw new LessonPackError([`The file is not valid JSON (${e instanceof Error ? e.message : String(e)}).`]);
+    }
+    assertLessonPack(value);
+    return value;
+};
@@ -0,0 +1,93 @@
+import type { Attempt, Card, PerceptionScore } from './types';
+
+// Attempt history and scheduling state, kept in IndexedDB so it survives
+// reloads. Each helper opens its own short transaction.
+
+const DB_NAME = 'ssh-coach-progress';
+const DB_VERSION = 2;
+const ATTEMPTS = 'attempts';
+const CARDS = 'cards';
+const PERCEPTION = 'perception';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const attempts = db.createObjectStore(ATTEMPTS, { keyPath: 'id', autoIncrement: true });
+                    attempts.createIndex('timestamp', 'timestamp');
+                    db.createObjectStore(CARDS, { keyPath: 'key' });
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(PERCEPTION, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry if opening failed (e.g. blocked by another tab).
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+export const saveAttempt = async (attempt: Attempt, card: Card) => {
+    const db = await openDb();
+    const transaction = db.transaction([ATTEMPTS, CARDS], 'readwrite');
+    transaction.objectStore(ATTEMPTS).add(attempt);
+    transaction.objectStore(CARDS).put(card);
+    await transactionDone(transaction);
+};
+
+export const loadCards = async (): Promise<Card[]> => {
+    const db = await openDb();
+    return promisify(db.transaction(CARDS).objectStore(CARDS).getAll());
+};
+
+export const loadAttempts = async (since = 0): Promise<Attempt[]> => {
+    const db = await openDb();
+    const index = db.transaction(ATTEMPTS).objectStore(ATTEMPTS).index('timestamp');
+    return promisify(index.getAll(IDBKeyRange.lowerBound(since)));
+};
+
+export const savePerceptionScore = async (score: PerceptionScore) => {
+    const db = await openDb();
+    const transaction = db.transaction(PERCEPTION, 'readwrite');
+    transaction.objectStore(PERCEPTION).put(score);
+    await transactionDone(transaction);
+};
+
+export const loadPerceptionScores = async (): Promise<PerceptionScore[]> => {
+    const db = await openDb();
+    return promisify(db.transaction(PERCEPTION).objectStore(PERCEPTION).getAll());
+};
+
+export const clearProgress = async () => {
+    const db = await openDb();
+    const transaction = db.transaction([ATTEMPTS, CARDS, PERCEPTION], 'readwrite');
+    transaction.objectStore(ATTEMPTS).clear();
+    transaction.objectStore(CARDS).clear();
+    transaction.objectStore(PERCEPTION).clear();
+    await transactionDone(transaction);
+};
@@ -0,0 +1,53 @@
+import type { PracticeItem } from '../lessons';
+import { cardKey } from './scheduler';
+import type { PerceptionScore } from './types';
+
+// Listening-mode bookkeeping: per-pair accuracy and which pair to play next.
+// Pure functions, like the scheduler; useProgress persists the results.
+
+export const perceptionKey = (packId: string, itemId: string) => cardKey(packId, itemId, 'listening');
+
+export const recordPerception = (
+    previous: PerceptionScore | undefined,
+    identity: Pick<PerceptionScore, 'packId' | 'itemId'>,
+    isCorrect: boolean,
+    now: number,
+): PerceptionScore => ({
+    key: perceptionKey(identity.packId, identity.itemId),
+    ...identity,
+    correct: (previous?.correct ?? 0) + (isCorrect ? 1 : 0),
+    total: (previous?.total ?? 0) + 1,
+    lastAnsweredAt: now,
+});
+
+export const perceptionAccuracy = (score: PerceptionScore | undefined) =>
+    score && score.total > 0 ? score.correct / score.total : null;
+
+// Weighted random pick over pair items: unheard and often-confused pairs come
+// up more. The current item is skipped when there is another choice.
+// Returns -1 when the pack has no pairs to listen to.
+export const pickListeningItem = (
+    packId: string,
+    items: PracticeItem[],
+    scores: ReadonlyMap<string, PerceptionScore>,
+    currentIndex: number,
+    random: () => number = Math.random,
+): number => {
+    const pairs = items.flatMap((item, index) => (item.type === 'pair' ? [index] : []));
+    const candidates = pairs.length > 1 ? pairs.filter(index => index !== currentIndex) : pairs;
+    if (candidates.length === 0) {
+        return -1;
+    }
+    const weights = candidates.map(index => {
+        const accuracy = perceptionAccuracy(scores.get(perceptionKey(packId, items[index].id)));
+        return 1 + 3 * (1 - (accuracy ?? 0));
+    });
+    let remaining = random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < candidates.length; i++) {
+        remaining -= weights[i];
+        if (remaining < 0) {
+            return candidates[i];
+        }
+    }
+    return candidates[candidates.length - 1];
+};
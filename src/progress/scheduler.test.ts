@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { PracticeItem } from '../lessons';
+import { cardKey, countDueToday, pickNextItem, reviewCard } from './scheduler';
+import type { Card } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 3, 1, 12).getTime();
+const identity = { packId: 's-sh', itemId: 'sea-she', targetWord: 'sea' };
+
+const pair = (id: string, a: string, b: string): PracticeItem => ({
+    type: 'pair',
+    id,
+    tags: [],
+    translation: '',
+    a: { word: a, ipa: '' },
+    b: { word: b, ipa: '' },
+});
+
+describe('reviewCard', () => {
+    it('starts a new card and schedules it a day out after a pass', () => {
+        const card = reviewCard(undefined, identity, true, NOW);
+        expect(card).toEqual({
+            key: 's-sh/sea-she/sea',
+            ...identity,
+            repetitions: 1,
+            intervalDays: 1,
+            easeFactor: 2.5,
+            dueAt: NOW + DAY_MS,
+            lastReviewedAt: NOW,
+            lapses: 0,
+        });
+    });
+
+    it('grows the interval 1, 6, then by the ease factor', () => {
+        let card = reviewCard(undefined, identity, true, NOW);
+        card = reviewCard(card, identity, true, NOW + DAY_MS);
+        expect(card.intervalDays).toBe(6);
+        card = reviewCard(card, identity, true, NOW + 7 * DAY_MS);
+        expect(card.intervalDays).toBe(15);
+        expect(card.dueAt).toBe(NOW + 22 * DAY_MS);
+    });
+
+    it('relearns a missed word within a minute and lowers its ease', () => {
+        const learned = reviewCard(reviewCard(undefined, identity, true, NOW), identity, true, NOW);
+        const missed = reviewCard(learned, identity, false, NOW);
+        expect(missed).toMatchObject({ repetitions: 0, intervalDays: 0, lapses: 1, dueAt: NOW + 60 * 1000 });
+        expect(missed.easeFactor).toBeCloseTo(1.96);
+        // A pass after a lapse starts the intervals over, at the lower ease.
+        expect(reviewCard(missed, identity, true, NOW)).toMatchObject({ intervalDays: 1, easeFactor: missed.easeFactor });
+    });
+
+    it('never lets the ease drop below 1.3', () => {
+        let card = reviewCard(undefined, identity, false, NOW);
+        for (let i = 0; i < 5; i++) {
+            card = reviewCard(card, identity, false, NOW);
+        }
+        expect(card.easeFactor).toBe(1.3);
+        expect(card.lapses).toBe(6);
+    });
+});
+
+describe('pickNextItem', () => {
+    const items = [pair('sea-she', 'sea', 'she'), pair('seat-sheet', 'seat', 'sheet'), pair('sip-ship', 'sip', 'ship')];
+    const cardsDue = (dueAt: Record<string, number>) => new Map<string, Card>(
+        Object.entries(dueAt).map(([word, due]) => {
+            const item = items.find(candidate => candidate.type === 'pair' && (candidate.a.word === word || candidate.b.word === word))!;
+            const card = { ...reviewCard(undefined, { packId: 's-sh', itemId: item.id, targetWord: word }, true, NOW), dueAt: due };
+            return [cardKey('s-sh', item.id, word), card];
+        }),
+    );
+
+    it('picks the most overdue item first', () => {
+        const cards = cardsDue({ sea: NOW - 1000, she: NOW + DAY_MS, seat: NOW - 5000, sheet: NOW + DAY_MS, sip: NOW, ship: NOW });
+        expect(pickNextItem('s-sh', items, cards, 0, NOW)).toBe(1);
+    });
+
+    it('skips the current item even when it is the most overdue', () => {
+        const cards = cardsDue({ sea: NOW - 9000, she: NOW, seat: NOW - 1000, sheet: NOW, sip: NOW + DAY_MS, ship: NOW + DAY_MS });
+        expect(pickNextItem('s-sh', items, cards, 0, NOW)).toBe(1);
+    });
+
+    it('moves on to unseen words after the current item when nothing is due', () => {
+        expect(pickNextItem('s-sh', items, new Map(), 1, NOW)).toBe(2);
+        expect(pickNextItem('s-sh', items, new Map(), 2, NOW)).toBe(0);
+    });
+
+    it('falls back to the item due soonest', () => {
+        const cards = cardsDue({ sea: NOW + 3 * DAY_MS, she: NOW + 3 * DAY_MS, seat: NOW + 2 * DAY_MS, sheet: NOW + DAY_MS, sip: NOW + 2 * DAY_MS, ship: NOW + 2 * DAY_MS });
+        expect(pickNextItem('s-sh', items, cards, 2, NOW)).toBe(1);
+    });
+
+    it('stays on a lone item', () => {
+        expect(pickNextItem('s-sh', items.slice(0, 1), new Map(), 0, NOW)).toBe(0);
+    });
+});
+
+describe('countDueToday', () => {
+    it('counts cards due before midnight', () => {
+        const card = reviewCard(undefined, identity, true, NOW);
+        const midnight = new Date(2026, 3, 2).getTime();
+        expect(countDueToday([{ ...card, dueAt: NOW - DAY_MS }, { ...card, dueAt: midnight - 1 }, { ...card, dueAt: midnight }], NOW)).toBe(2);
+    });
+});
@@ -0,0 +1,117 @@
+import type { PracticeItem } from '../lessons';
+import type { Card } from './types';
+
+// SM-2 spaced repetition (the SuperMemo 2 algorithm) over target words.
+// Pure functions: callers pass `now` and persist the returned cards.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A missed word is due again almost immediately, so it comes back within the session.
+const RELEARN_DELAY_MS = 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const cardKey = (packId: string, itemId: string, targetWord: string) => `${packId}/${itemId}/${targetWord}`;
+
+export const targetWords = (item: PracticeItem) => (item.type === 'pair' ? [item.a.word, item.b.word] : [item.text]);
+
+// SM-2 grades answers 0–5; we only know right or wrong, so map those to
+// "correct with some hesitation" and "wrong but recognized".
+const gradeFor = (isCorrect: boolean) => (isCorrect ? 4 : 1);
+
+export const reviewCard = (
+    previous: Card | undefined,
+    identity: Pick<Card, 'packId' | 'itemId' | 'targetWord'>,
+    isCorrect: boolean,
+    now: number,
+): Card => {
+    const card: Card = previous ?? {
+        key: cardKey(identity.packId, identity.itemId, identity.targetWord),
+        ...identity,
+        repetitions: 0,
+        intervalDays: 0,
+        easeFactor: INITIAL_EASE,
+        dueAt: now,
+        lastReviewedAt: now,
+        lapses: 0,
+    };
+    const grade = gradeFor(isCorrect);
+    const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+    if (!isCorrect) {
+        return {
+            ...card,
+            repetitions: 0,
+            intervalDays: 0,
+            easeFactor,
+            dueAt: now + RELEARN_DELAY_MS,
+            lastReviewedAt: now,
+            lapses: card.lapses + 1,
+        };
+    }
+
+    const intervalDays = card.repetitions === 0 ? 1 : card.repetitions === 1 ? 6 : Math.round(card.intervalDays * card.easeFactor);
+    return {
+        ...card,
+        repetitions: card.repetitions + 1,
+        intervalDays,
+        easeFactor,
+        dueAt: now + intervalDays * DAY_MS,
+        lastReviewedAt: now,
+    };
+};
+
+export const startOfDay = (now: number) => {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+};
+
+export const endOfDay = (now: number) => startOfDay(now) + DAY_MS;
+
+// Cards already seen that are due before midnight.
+export const countDueToday = (cards: Iterable<Card>, now: number) => {
+    const cutoff = endOfDay(now);
+    let count = 0;
+    for (const card of cards) {
+        if (card.dueAt < cutoff) {
+            count++;
+        }
+    }
+    return count;
+};
+
+// Picks the index of the next item to practice:
+//   1. the item whose earliest card is most overdue,
+//   2. otherwise an item with a word never practiced, in pack order after the current one,
+//   3. otherwise the item due soonest.
+// The current item is skipped whenever anything else qualifies.
+export const pickNextItem = (
+    packId: string,
+    items: PracticeItem[],
+    cards: ReadonlyMap<string, Card>,
+    currentIndex: number,
+    now: number,
+): number => {
+    const candidates = items.map((item, index) => {
+        const itemCards = targetWords(item).map(word => cards.get(cardKey(packId, item.id, word)));
+        const hasNewWord = itemCards.some(card => card === undefined);
+        const dueAt = Math.min(...itemCards.map(card => card?.dueAt ?? Infinity));
+        return { index, hasNewWord, dueAt };
+    });
+    const others = candidates.length > 1 ? candidates.filter(candidate => candidate.index !== currentIndex) : candidates;
+
+    const overdue = others.filter(candidate => candidate.dueAt <= now).sort((x, y) => x.dueAt - y.dueAt);
+    if (overdue.length > 0) {
+        return overdue[0].index;
+    }
+
+    // Rotate so "after the current item" wraps around the end of the pack.
+    const rotated = [...others].sort((x, y) =>
+        ((x.index - currentIndex + items.length) % items.length) - ((y.index - currentIndex + items.length) % items.length));
+    const fresh = rotated.find(candidate => candidate.hasNewWord);
+    if (fresh) {
+        return fresh.index;
+    }
+
+    return [...others].sort((x, y) => x.dueAt - y.dueAt)[0].index;
+};
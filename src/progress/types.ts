@@ -0,0 +1,47 @@
+// What happened to one contrast sound in an attempt, e.g. the /s/ of "sea"
+// produced as /ʃ/.
+export type SoundEvent = {
+    // IPA symbols from the pack's contrast; produced is null when the
+    // transcript shows neither sound (another word, or nothing usable).
+    intended: string;
+    produced: string | null;
+    // What follows the sound: /iː/ (or /i/), another vowel, a consonant, or nothing.
+    following: 'iː' | 'vowel' | 'consonant' | 'none';
+    position: 'initial' | 'medial' | 'final';
+};
+
+export type Attempt = {
+    id?: number;
+    packId: string;
+    itemId: string;
+    targetWord: string;
+    transcript: string;
+    isCorrect: boolean;
+    timestamp: number; // ms since epoch
+    // Missing on attempts recorded before sound classification existed.
+    sounds?: SoundEvent[];
+};
+
+// Spaced-repetition state for one target word (a pair item has two cards).
+export type Card = {
+    key: string;
+    packId: string;
+    itemId: string;
+    targetWord: string;
+    repetitions: number;
+    intervalDays: number;
+    easeFactor: number;
+    dueAt: number;
+    lastReviewedAt: number;
+    lapses: number;
+};
+
+// Listening-mode accuracy for one pair item, kept apart from the speaking cards.
+export type PerceptionScore = {
+    key: string;
+    packId: string;
+    itemId: string;
+    correct: number;
+    total: number;
+    lastAnsweredAt: number;
+};
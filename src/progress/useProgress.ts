@@ -0,0 +1,110 @@
+import React from 'react';
+import { downloadFile, todayStamp } from '../utils/download';
+import { clearProgress, loadAttempts, loadCards, loadPerceptionScores, saveAttempt, savePerceptionScore } from './db';
+import { perceptionKey, recordPerception as scorePerception } from './perception';
+import { cardKey, countDueToday, reviewCard, startOfDay } from './scheduler';
+import type { Attempt, Card, PerceptionScore } from './types';
+
+// Keeps the scheduler's cards, listening scores and today's attempt count in
+// React state and mirrors every change to IndexedDB. If IndexedDB is unavailable the app still
+// schedules, but only for the current visit.
+export const useProgress = () => {
+    const [cards, setCards] = React.useState<Map<string, Card>>(new Map());
+    // Mirrors `cards` so recordAttempt can read the latest card synchronously.
+    const cardsRef = React.useRef(cards);
+    // This visit's attempts, for exporting when IndexedDB is unavailable.
+    const sessionAttempts = React.useRef<Omit<Attempt, 'id'>[]>([]);
+    const [perception, setPerception] = React.useState<Map<string, PerceptionScore>>(new Map());
+    const perceptionRef = React.useRef(perception);
+    const [todayCount, setTodayCount] = React.useState(0);
+    const [isPersistent, setIsPersistent] = React.useState(true);
+
+    const updateCards = (next: Map<string, Card>) => {
+        cardsRef.current = next;
+        setCards(next);
+    };
+
+    const updatePerception = (next: Map<string, PerceptionScore>) => {
+        perceptionRef.current = next;
+        setPerception(next);
+    };
+
+    React.useEffect(() => {
+        let cancelled = false;
+        Promise.all([loadCards(), loadAttempts(startOfDay(Date.now())), loadPerceptionScores()])
+            .then(([storedCards, todaysAttempts, storedScores]) => {
+                if (cancelled) {
+                    return;
+                }
+                updateCards(new Map(storedCards.map(card => [card.key, card])));
+                updatePerception(new Map(storedScores.map(score => [score.key, score])));
+                setTodayCount(todaysAttempts.length);
+            })
+            .catch((e) => {
+                console.warn("Progress history is unavailable:", e);
+                if (!cancelled) {
+                    setIsPersistent(false);
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const recordAttempt = React.useCallback((attempt: Omit<Attempt, 'id'>) => {
+        const { packId, itemId, targetWord } = attempt;
+        const key = cardKey(packId, itemId, targetWord);
+        const card = reviewCard(cardsRef.current.get(key), { packId, itemId, targetWord }, attempt.isCorrect, attempt.timestamp);
+        updateCards(new Map(cardsRef.current).set(key, card));
+        setTodayCount(count => count + 1);
+        sessionAttempts.current.push(attempt);
+        saveAttempt(attempt, card).catch((e) => console.warn("Couldn't save the attempt:", e));
+    }, []);
+
+    // Listening answers only feed the per-pair accuracy, not the daily goal or the scheduler.
+    const recordPerception = React.useCallback((packId: string, itemId: string, isCorrect: boolean) => {
+        const key = perceptionKey(packId, itemId);
+        const score = scorePerception(perceptionRef.current.get(key), { packId, itemId }, isCorrect, Date.now());
+        updatePerception(new Map(perceptionRef.current).set(key, score));
+        savePerceptionScore(score).catch((e) => console.warn("Couldn't save the listening score:", e));
+    }, []);
+
+    const resetProgress = React.useCallback(async () => {
+        await clearProgress().catch((e) => console.warn("Couldn't clear the history:", e));
+        updateCards(new Map());
+        updatePerception(new Map());
+        setTodayCount(0);
+        sessionAttempts.current = [];
+    }, []);
+
+    // Every recorded attempt, for analytics; only this visit's without IndexedDB.
+    const loadHistory = React.useCallback(
+        async (): Promise<Attempt[]> => (isPersistent ? loadAttempts() : [...sessionAttempts.current]),
+        [isPersistent],
+    );
+
+    // Full history as a JSON file download.
+    const exportProgress = React.useCallback(async () => {
+        const [attempts, storedCards, perceptionScores] = isPersistent
+            ? await Promise.all([loadAttempts(), loadCards(), loadPerceptionScores()])
+            : [sessionAttempts.current, [...cards.values()], [...perception.values()]];
+        downloadFile(
+            `pronunciation-history-${todayStamp()}.json`,
+            JSON.stringify({ exportedAt: new Date().toISOString(), attempts, cards: storedCards, perception: perceptionScores }, null, 2),
+            'application/json',
+        );
+    }, [cards, perception, isPersistent]);
+
+    return {
+        cards,
+        todayCount,
+        dueToday: countDueToday(cards.values(), Date.now()),
+        perception,
+        isPersistent,
+        recordAttempt,
+        recordPerception,
+        loadHistory,
+        resetProgress,
+        exportProgress,
+    };
+};
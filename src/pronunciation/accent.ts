@@ -0,0 +1,32 @@
+// Target varieties of English. The id doubles as the BCP 47 tag handed to
+// recognizers and speechSynthesis.
+
+export type Accent = 'en-US' | 'en-GB';
+
+export const ACCENTS: Accent[] = ['en-US', 'en-GB'];
+
+export const DEFAULT_ACCENT: Accent = 'en-US';
+
+export const isAccent = (value: unknown): value is Accent => ACCENTS.includes(value as Accent);
+
+// A vowel next, possibly across a stress mark ("very", "forever").
+const BEFORE_VOWEL = '[ˈˌ]?[aeiouæɑɒəɛɜɪɔʊʌ]';
+// British English only pronounces /r/ before a vowel; elsewhere it colours
+// the vowel in front of it instead.
+const NON_PREVOCALIC_R = new RegExp(`(ɑː|ɔː|ɜː|iː|uː|aɪ|aʊ|ɪ|e|ʊ|ə)r(?!${BEFORE_VOWEL})`, 'g');
+const R_COLOURED: Record<string, string> = {
+    'ɑː': 'ɑː', 'ɔː': 'ɔː', 'ɜː': 'ɜː', 'iː': 'ɪə', 'uː': 'ʊə', 'aɪ': 'aɪə', 'aʊ': 'aʊə', 'ɪ': 'ɪə', 'e': 'eə', 'ʊ': 'ʊə', 'ə': 'ə',
+};
+// The /ɑː/ of "car" stays; the one of "hot" or "sorry" becomes /ɒ/.
+const UNROUNDED_O = new RegExp(`ɑː?(?!ː)(?!r(?!${BEFORE_VOWEL}))`, 'g');
+
+// Rewrites a General American transcription (as the dictionary gives it)
+// into Standard Southern British. The spelling resolves the one split IPA
+// can't: American /ɑː/ is the British /ɒ/ when written with an o.
+// Unpredictable cases, such as the /ɑː/ of "bath", are left American.
+export const toBritishIpa = (ipa: string, spelling = '') => {
+    const isOSpelling = /o/i.test(spelling) && !/a/i.test(spelling);
+    const diphthongs = ipa.replace(/oʊ/g, 'əʊ');
+    const rounded = isOSpelling ? diphthongs.replace(UNROUNDED_O, 'ɒ') : diphthongs;
+    return rounded.replace(NON_PREVOCALIC_R, (_, vowel: string) => R_COLOURED[vowel]);
+};
@@ -0,0 +1,53 @@
+// ARPAbet (as used by CMUdict) to the IPA style of the bundled lesson packs:
+// long vowels marked with ː, /r/ rather than /ɹ/, and only primary stress.
+
+const CONSONANTS: Record<string, string> = {
+    B: 'b', CH: 'tʃ', D: 'd', DH: 'ð', F: 'f', G: 'ɡ', HH: 'h', JH: 'dʒ', K: 'k', L: 'l', M: 'm',
+    N: 'n', NG: 'ŋ', P: 'p', R: 'r', S: 's', SH: 'ʃ', T: 't', TH: 'θ', V: 'v', W: 'w', Y: 'j', Z: 'z', ZH: 'ʒ',
+};
+
+// [stressed, unstressed] forms.
+const VOWELS: Record<string, [string, string]> = {
+    AA: ['ɑː', 'ɑ'], AE: ['æ', 'æ'], AH: ['ʌ', 'ə'], AO: ['ɔː', 'ɔ'], AW: ['aʊ', 'aʊ'], AY: ['aɪ', 'aɪ'],
+    EH: ['e', 'e'], ER: ['ɜːr', 'ər'], EY: ['eɪ', 'eɪ'], IH: ['ɪ', 'ɪ'], IY: ['iː', 'i'], OW: ['oʊ', 'oʊ'],
+    OY: ['ɔɪ', 'ɔɪ'], UH: ['ʊ', 'ʊ'], UW: ['uː', 'u'],
+};
+
+// Consonant clusters English allows at the start of a syllable; the stress
+// mark goes before the longest one of these in front of the stressed vowel.
+const ONSETS = new Set([
+    'sp', 'st', 'sk', 'sm', 'sn', 'sl', 'sw', 'spr', 'str', 'skr', 'spl', 'skw', 'spj', 'stj', 'skj',
+    'pr', 'br', 'tr', 'dr', 'kr', 'ɡr', 'fr', 'θr', 'ʃr', 'pl', 'bl', 'kl', 'ɡl', 'fl',
+    'tw', 'dw', 'kw', 'ɡw', 'θw', 'pj', 'bj', 'kj', 'ɡj', 'fj', 'vj', 'mj', 'hj',
+]);
+
+type Segment = { ipa: string; isVowel: boolean; isPrimary: boolean };
+
+export const arpabetToIpa = (pronunciation: string): string => {
+    const segments: Segment[] = pronunciation.trim().split(/\s+/).map(symbol => {
+        const match = /^([A-Z]+)([012])?$/.exec(symbol);
+        const base = match?.[1] ?? symbol;
+        const vowel = VOWELS[base];
+        if (vowel) {
+            const stress = match?.[2] ?? '0';
+            return { ipa: stress === '0' ? vowel[1] : vowel[0], isVowel: true, isPrimary: stress === '1' };
+        }
+        return { ipa: CONSONANTS[base] ?? base.toLowerCase(), isVowel: false, isPrimary: false };
+    });
+
+    // One-syllable words carry no stress mark, matching the lesson packs.
+    const primary = segments.findIndex(segment => segment.isPrimary);
+    if (primary >= 0 && segments.filter(segment => segment.isVowel).length > 1) {
+        let onsetStart = primary;
+        while (onsetStart > 0 && !segments[onsetStart - 1].isVowel) {
+            onsetStart--;
+        }
+        // Shrink the consonant run until it is a legal onset (or a single consonant).
+        while (primary - onsetStart > 1
+            && !ONSETS.has(segments.slice(onsetStart, primary).map(segment => segment.ipa).join(''))) {
+            onsetStart++;
+        }
+        segments.splice(onsetStart, 0, { ipa: 'ˈ', isVowel: false, isPrimary: false });
+    }
+    return segments.map(segment => segment.ipa).join('');
+};
@@ -0,0 +1,120 @@
+// Letter-to-sound rules for words missing from the dictionary. English
+// spelling is too irregular for this to be right every time, so the UI marks
+// these transcriptions as guesses; the rules favour getting the sibilants
+// (s, sh, z, zh) right over the vowels.
+
+type Rule = {
+    pattern: RegExp;
+    ipa: string;
+    // Tested against the letter before the match ('' at the start of the word).
+    after?: RegExp;
+};
+
+const VOWEL_LETTERS = /[aeiouy]/;
+const VOICED_END = /[bdglmnrvwaeiouy]/;
+
+// Tried in order at each position; the first match wins. All patterns are sticky.
+const RULES: Rule[] = [
+    { pattern: /tch/y, ipa: 'tʃ' },
+    { pattern: /tion/y, ipa: 'ʃən' },
+    { pattern: /sion/y, ipa: 'ʒən', after: VOWEL_LETTERS },
+    { pattern: /s?sion/y, ipa: 'ʃən' },
+    { pattern: /sure/y, ipa: 'ʒər', after: VOWEL_LETTERS },
+    { pattern: /ssure/y, ipa: 'ʃər' },
+    { pattern: /sure/y, ipa: 'ʃʊr' },
+    { pattern: /sual/y, ipa: 'ʒuəl' },
+    { pattern: /[ct]ious/y, ipa: 'ʃəs' },
+    { pattern: /[ct]ial/y, ipa: 'ʃəl' },
+    { pattern: /cean/y, ipa: 'ʃən' },
+    { pattern: /sh/y, ipa: 'ʃ' },
+    { pattern: /ch/y, ipa: 'tʃ' },
+    { pattern: /th/y, ipa: 'θ' },
+    { pattern: /ph/y, ipa: 'f' },
+    { pattern: /ng(?![aeiouy])/y, ipa: 'ŋ' },
+    { pattern: /n(?=k)/y, ipa: 'ŋ' },
+    { pattern: /ck/y, ipa: 'k' },
+    { pattern: /qu/y, ipa: 'kw' },
+    { pattern: /wh/y, ipa: 'w' },
+    { pattern: /wr/y, ipa: 'r', after: /^$/ },
+    { pattern: /kn/y, ipa: 'n', after: /^$/ },
+    { pattern: /igh/y, ipa: 'aɪ' },
+    { pattern: /ee|ea/y, ipa: 'iː' },
+    { pattern: /oo/y, ipa: 'uː' },
+    { pattern: /ou/y, ipa: 'aʊ' },
+    { pattern: /ow(?![aeiouy])/y, ipa: 'oʊ' },
+    { pattern: /ai|ay|ei|ey/y, ipa: 'eɪ' },
+    { pattern: /oi|oy/y, ipa: 'ɔɪ' },
+    { pattern: /oa/y, ipa: 'oʊ' },
+    { pattern: /au|aw/y, ipa: 'ɔː' },
+    { pattern: /ie$/y, ipa: 'aɪ' },
+    { pattern: /ie/y, ipa: 'iː' },
+    { pattern: /ue|ew/y, ipa: 'uː' },
+    { pattern: /ar/y, ipa: 'ɑːr' },
+    { pattern: /or/y, ipa: 'ɔːr' },
+    { pattern: /er$/y, ipa: 'ər' },
+    { pattern: /er|ir|ur/y, ipa: 'ɜːr' },
+    { pattern: /c(?=[eiy])/y, ipa: 's' },
+    { pattern: /g(?=[eiy])/y, ipa: 'dʒ' },
+    { pattern: /ss/y, ipa: 's' },
+    // A single s between vowels is usually voiced: "rose", "busy", "music".
+    { pattern: /s(?=[aeiouy])/y, ipa: 'z', after: VOWEL_LETTERS },
+    { pattern: /s$/y, ipa: 'z', after: VOICED_END },
+    { pattern: /zz?/y, ipa: 'z' },
+    { pattern: /x/y, ipa: 'ks' },
+    { pattern: /y(?=[aeiou])/y, ipa: 'j' },
+];
+
+// A vowel letter followed by one consonant and a final silent e is long: "shave", "shine".
+const LONG_VOWELS: Record<string, string> = { a: 'eɪ', e: 'iː', i: 'aɪ', o: 'oʊ', u: 'uː' };
+const SHORT_VOWELS: Record<string, string> = { a: 'æ', e: 'e', i: 'ɪ', o: 'ɑː', u: 'ʌ', y: 'ɪ' };
+const LETTERS: Record<string, string> = {
+    b: 'b', c: 'k', d: 'd', f: 'f', g: 'ɡ', h: 'h', j: 'dʒ', k: 'k', l: 'l', m: 'm', n: 'n',
+    p: 'p', q: 'k', r: 'r', s: 's', t: 't', v: 'v', w: 'w',
+};
+
+const matchRule = (word: string, index: number) => {
+    const previous = word[index - 1] ?? '';
+    for (const rule of RULES) {
+        rule.pattern.lastIndex = index;
+        const match = rule.pattern.exec(word);
+        if (match && (!rule.after || rule.after.test(previous))) {
+            return { ipa: rule.ipa, length: match[0].length };
+        }
+    }
+    return null;
+};
+
+export const guessIpa = (word: string): string => {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+    const vowelCount = (letters.match(/[aeiouy]+/g) ?? []).length;
+    let ipa = '';
+    let index = 0;
+    while (index < letters.length) {
+        const letter = letters[index];
+        const rest = letters.slice(index);
+        const rule = matchRule(letters, index);
+        if (rule) {
+            ipa += rule.ipa;
+            index += rule.length;
+        } else if (letter === 'e' && vowelCount > 1 && (index === letters.length - 1
+            || (/^e[sd]$/.test(rest) && /[aeiou][^aeiouwxy]$/.test(letters.slice(0, index))))) {
+            // Silent final e, also before a plural or past ending: "shave", "shaves".
+            index++;
+        } else if (letter === 'y') {
+            // Word-final y is /aɪ/ in one-syllable words ("shy") and /i/ otherwise ("busy").
+            ipa += index === letters.length - 1 ? (vowelCount === 1 ? 'aɪ' : 'i') : 'ɪ';
+            index++;
+        } else if (LONG_VOWELS[letter] && /^[aeiou][^aeiouwxy]e(s|d)?$/.test(rest)) {
+            ipa += LONG_VOWELS[letter];
+            index++;
+        } else if (SHORT_VOWELS[letter]) {
+            ipa += SHORT_VOWELS[letter];
+            index++;
+        } else {
+            // Doubled consonants are pronounced once.
+            ipa += letter === letters[index - 1] ? '' : (LETTERS[letter] ?? '');
+            index++;
+        }
+    }
+    return ipa;
+};
@@ -0,0 +1,83 @@
+import { toBritishIpa, type Accent } from './accent';
+import { arpabetToIpa } from './arpabet';
+import cmudict from './cmudict.json';
+import { guessIpa } from './g2p';
+
+// Offline IPA for arbitrary practice text. Words come from a bundled subset
+// of the CMU Pronouncing Dictionary (BSD licensed), then from the dictionary
+// plus a regular ending ("seashells" → "seashell" + s), then from
+// letter-to-sound rules. Both sources are American; British IPA is derived
+// from them.
+
+export { ACCENTS, DEFAULT_ACCENT, isAccent, toBritishIpa, type Accent } from './accent';
+
+export type PronunciationSource = 'dictionary' | 'rules';
+
+export type TranscribedWord = {
+    // The word as written, punctuation included.
+    text: string;
+    ipa: string;
+    source: PronunciationSource;
+};
+
+const DICTIONARY: Record<string, string> = cmudict;
+
+// Sounds highlighted in practice text. The affricates /tʃ/ and /dʒ/ are not
+// counted even though they contain /ʃ/ and /ʒ/.
+export const SIBILANT_SYMBOLS = ['s', 'ʃ', 'z', 'ʒ'];
+
+const VOICELESS_ENDS = ['p', 't', 'k', 'f', 'θ'];
+const SIBILANT_ENDS = ['s', 'z', 'ʃ', 'ʒ', 'tʃ', 'dʒ'];
+
+const endsWithAny = (ipa: string, sounds: string[]) => sounds.some(sound => ipa.endsWith(sound));
+
+// -s and 's: /ɪz/ after sibilants, /s/ after voiceless sounds, /z/ otherwise.
+const addPluralEnding = (ipa: string) =>
+    ipa + (endsWithAny(ipa, SIBILANT_ENDS) ? 'ɪz' : endsWithAny(ipa, VOICELESS_ENDS) ? 's' : 'z');
+
+// -ed: /ɪd/ after t and d, /t/ after voiceless sounds, /d/ otherwise.
+const addPastEnding = (ipa: string) =>
+    ipa + (endsWithAny(ipa, ['t', 'd']) ? 'ɪd' : endsWithAny(ipa, [...VOICELESS_ENDS, 's', 'ʃ', 'tʃ']) ? 't' : 'd');
+
+const lookup = (word: string) => (DICTIONARY[word] ? arpabetToIpa(DICTIONARY[word]) : null);
+
+// Every headword of the bundled dictionary, lower case.
+export const dictionaryWords = () => Object.keys(DICTIONARY);
+
+const lookupWithEnding = (word: string): string | null => {
+    const candidates: [string, (ipa: string) => string][] = [
+        [word.replace(/'s$/, ''), addPluralEnding],
+        [word.replace(/es$/, ''), addPluralEnding],
+        [word.replace(/s$/, ''), addPluralEnding],
+        [word.replace(/ed$/, ''), addPastEnding],
+        [word.replace(/d$/, ''), addPastEnding],
+        [word.replace(/ing$/, ''), ipa => `${ipa}ɪŋ`],
+        [word.replace(/ing$/, 'e'), ipa => `${ipa}ɪŋ`],
+        [word.replace(/ly$/, ''), ipa => `${ipa}li`],
+    ];
+    for (const [stem, addEnding] of candidates) {
+        const ipa = stem !== word ? lookup(stem) : null;
+        if (ipa) {
+            return addEnding(ipa);
+        }
+    }
+    return null;
+};
+
+export const transcribeWord = (text: string): TranscribedWord => {
+    const word = text.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z']/g, '');
+    const ipa = lookup(word) ?? lookupWithEnding(word);
+    return ipa
+        ? { text, ipa, source: 'dictionary' }
+        : { text, ipa: guessIpa(word), source: 'rules' };
+};
+
+export const transcribeText = (text: string): TranscribedWord[] =>
+    text.split(/\s+/).filter(part => /[a-z]/i.test(part)).map(transcribeWord);
+
+export const ipaForAccent = (word: TranscribedWord, accent: Accent) =>
+    (accent === 'en-GB' ? toBritishIpa(word.ipa, word.text) : word.ipa);
+
+// The whole text in slashes, as the lesson packs write it: "/ʃiː selz/".
+export const formatIpa = (words: TranscribedWord[], accent: Accent = 'en-US') =>
+    `/${words.map(word => ipaForAccent(word, accent)).join(' ')}/`;
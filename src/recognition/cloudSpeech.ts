@@ -0,0 +1,89 @@
+import { ApiError, postJson } from '../api/http';
+import { detectSpeech } from '../audio/inputMonitor';
+import { encodeWav, resample } from '../audio/pcm';
+import { blobToBase64, decodeRecording, isRecordingSupported, startRecording, type AudioRecording } from '../audio/recorder';
+import { DEFAULT_VAD_OPTIONS } from '../audio/vad';
+import type { RecognitionAlternative, Recognizer } from './types';
+
+type SpeechToTextResponse = {
+    transcription: string;
+    alternatives: RecognitionAlternative[];
+};
+
+// Formats api/speech-to-text.js accepts as-is; everything else is sent as WAV.
+const NATIVE_MIME_TYPES = /^audio\/(webm|ogg);\s*codecs="?opus"?$/i;
+const WAV_SAMPLE_RATE = 16000;
+
+const waitForAbort = (signal: AbortSignal) => new Promise<void>((resolve) => {
+    if (signal.aborted) {
+        resolve();
+        return;
+    }
+    signal.addEventListener('abort', () => resolve(), { once: true });
+});
+
+// The attempt was abandoned, so the recording is not worth uploading.
+const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new DOMException('The recognition was cancelled.', 'AbortError');
+    }
+};
+
+type UploadPayload = {
+    audio: string;
+    mimeType: string;
+    sampleRateHertz?: number;
+    durationMs: number;
+    languageCode: string;
+};
+
+// Opus uploads as recorded (always encoded at 48 kHz). Other containers, such
+// as Safari's mp4/AAC, are decoded here and re-encoded as 16 kHz WAV.
+const toUploadPayload = async (recording: AudioRecording, languageCode: string): Promise<UploadPayload> => {
+    if (NATIVE_MIME_TYPES.test(recording.mimeType)) {
+        return {
+            audio: await blobToBase64(recording.blob),
+            mimeType: recording.mimeType,
+            sampleRateHertz: 48000,
+            durationMs: recording.durationMs,
+            languageCode,
+        };
+    }
+    const pcm = resample(await decodeRecording(recording), WAV_SAMPLE_RATE);
+    return {
+        audio: await blobToBase64(new Blob([encodeWav(pcm)], { type: 'audio/wav' })),
+        mimeType: 'audio/wav',
+        durationMs: (pcm.samples.length / pcm.sampleRate) * 1000,
+        languageCode,
+    };
+};
+
+// Records the attempt with MediaRecorder and sends it to Google Cloud
+// Speech-to-Text through api/speech-to-text.js. Works wherever MediaRecorder
+// does, including Firefox, which has no Web Speech recognizer.
+export const cloudSpeechRecognizer: Recognizer = {
+    id: 'cloud',
+    label: 'Cloud (Google Speech-to-Text)',
+    isSupported: isRecordingSupported,
+    recognize: async ({ stream, lang, stopSignal, cancelSignal }) => {
+        const recording = startRecording(stream);
+        if (!recording) {
+            throw "Audio recording is not supported in this browser.";
+        }
+        await (stopSignal ? waitForAbort(stopSignal) : detectSpeech(stream, DEFAULT_VAD_OPTIONS).done);
+        const audio = await recording.stop();
+
+        try {
+            throwIfCancelled(cancelSignal);
+            const payload = await toUploadPayload(audio, lang);
+            throwIfCancelled(cancelSignal);
+            const response = await postJson<SpeechToTextResponse>('/api/speech-to-text', payload, { signal: cancelSignal });
+            return { alternatives: response.alternatives.filter(alternative => alternative.transcript.trim() !== '') };
+        } catch (e) {
+            if (e instanceof ApiError) {
+                throw `Cloud speech recognition failed: ${e.message}`;
+            }
+            throw e;
+        }
+    },
+};
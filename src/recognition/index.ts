@@ -0,0 +1,30 @@
+import { cloudSpeechRecognizer } from './cloudSpeech';
+import type { Recognizer, RecognizerId } from './types';
+import { webSpeechRecognizer } from './webSpeech';
+
+export type {
+    RecognitionAlternative,
+    RecognitionResult,
+    RecognizedWord,
+    Recognizer,
+    RecognizerId,
+    StreamingRecognizer,
+    StreamingSession,
+    StreamUpdate,
+} from './types';
+export { createScriptedRecognizer, type ScriptStep } from './scripted';
+export { webSpeechStreamingRecognizer } from './webSpeech';
+
+export type RecognizerPreference = 'auto' | RecognizerId;
+
+export const RECOGNIZERS: Recognizer[] = [webSpeechRecognizer, cloudSpeechRecognizer];
+
+// Honors the user's choice when that backend works here; otherwise prefers
+// Web Speech (no upload, no server cost) and falls back to the cloud route.
+export const pickRecognizer = (preference: RecognizerPreference): Recognizer | null => {
+    const preferred = RECOGNIZERS.find(recognizer => recognizer.id === preference);
+    if (preferred?.isSupported()) {
+        return preferred;
+    }
+    return RECOGNIZERS.find(recognizer => recognizer.isSupported()) ?? null;
+};
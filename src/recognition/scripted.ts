@@ -0,0 +1,41 @@
+import type { StreamingRecognizer, StreamUpdate } from './types';
+
+// A fake streaming recognizer that replays a fixed script, for exercising
+// live modes without a microphone. Timers are injectable so a fake clock
+// can drive it step by step.
+
+export type ScriptStep = StreamUpdate & {
+    // Delay from the start of the session.
+    atMs: number;
+};
+
+type Timers = {
+    setTimeout: (callback: () => void, ms: number) => unknown;
+    clearTimeout: (handle: unknown) => void;
+};
+
+const realTimers: Timers = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export const createScriptedRecognizer = (steps: ScriptStep[], timers: Timers = realTimers): StreamingRecognizer => ({
+    isSupported: () => true,
+    start: ({ onUpdate }) => {
+        const handles: unknown[] = [];
+        let finish = () => {};
+        const done = new Promise<void>((resolve) => {
+            finish = () => {
+                handles.forEach(handle => timers.clearTimeout(handle));
+                resolve();
+            };
+        });
+        const lastAt = Math.max(0, ...steps.map(step => step.atMs));
+        for (const { atMs, transcript, isFinal } of steps) {
+            handles.push(timers.setTimeout(() => onUpdate({ transcript, isFinal }), atMs));
+        }
+        // Like a real engine, end on its own after the last words.
+        handles.push(timers.setTimeout(finish, lastAt));
+        return { stop: () => finish(), done };
+    },
+});
@@ -0,0 +1,65 @@
+export type RecognizedWord = {
+    word: string;
+    startMs: number | null;
+    endMs: number | null;
+    confidence: number | null;
+};
+
+export type RecognitionAlternative = {
+    transcript: string;
+    // 0–1, or null when the backend does not report one.
+    confidence: number | null;
+    // Word timings, when the backend provides them (Cloud Speech only).
+    words?: RecognizedWord[];
+};
+
+// N-best list, best candidate first. Empty when no speech was heard.
+export type RecognitionResult = {
+    alternatives: RecognitionAlternative[];
+};
+
+export type RecognizeOptions = {
+    // An already-open microphone stream; recognizers never stop its tracks.
+    stream: MediaStream;
+    lang: string;
+    // Aborted once the learner has finished speaking. Without one, each
+    // recognizer decides for itself when speech has ended.
+    stopSignal?: AbortSignal;
+    // Aborted when the attempt is abandoned. Recognizers that upload the
+    // recording skip or abort the upload and reject with an AbortError.
+    cancelSignal?: AbortSignal;
+};
+
+export type RecognizerId = 'web-speech' | 'cloud';
+
+export type Recognizer = {
+    id: RecognizerId;
+    label: string;
+    isSupported: () => boolean;
+    recognize: (options: RecognizeOptions) => Promise<RecognitionResult>;
+};
+
+// Continuous recognition with interim results, for live modes.
+export type StreamUpdate = {
+    // Everything heard since the session started, interim words included.
+    transcript: string;
+    // True once the engine has committed to all of `transcript`.
+    isFinal: boolean;
+};
+
+export type StreamOptions = {
+    lang: string;
+    onUpdate: (update: StreamUpdate) => void;
+};
+
+export type StreamingSession = {
+    // Asks the engine to finish; `done` settles once it has.
+    stop: () => void;
+    // Resolves when the session ends (stopped or silence), rejects on errors.
+    done: Promise<void>;
+};
+
+export type StreamingRecognizer = {
+    isSupported: () => boolean;
+    start: (options: StreamOptions) => StreamingSession;
+};
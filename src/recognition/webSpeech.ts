@@ -0,0 +1,142 @@
+import type { RecognitionAlternative, Recognizer, StreamingRecognizer } from './types';
+
+declare global {
+    interface Window {
+        SpeechRecognition: any;
+        webkitSpeechRecognition: any;
+    }
+}
+
+const MAX_ALTERNATIVES = 5;
+
+const getSpeechRecognition = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+
+type SpeechAlternativeList = ArrayLike<{ transcript: string; confidence: number }>;
+
+const toAlternatives = (alternatives: SpeechAlternativeList): RecognitionAlternative[] =>
+    Array.from(alternatives)
+        .filter(alternative => alternative.transcript.trim() !== '')
+        .map(alternative => ({
+            transcript: alternative.transcript.trim(),
+            // Some engines report 0 for every alternative after the first.
+            confidence: alternative.confidence > 0 ? alternative.confidence : null,
+        }));
+
+// Continuous mode may split one attempt over several results. The best
+// candidates are joined in order; the rest of the n-best list is only kept
+// when the whole attempt arrived as a single result.
+const mergeResults = (results: SpeechAlternativeList[]): RecognitionAlternative[] => {
+    if (results.length <= 1) {
+        return results.length === 1 ? toAlternatives(results[0]) : [];
+    }
+    const best = results.map(result => toAlternatives(result)[0]).filter(Boolean);
+    if (best.length === 0) {
+        return [];
+    }
+    const confidences = best.map(alternative => alternative.confidence);
+    return [{
+        transcript: best.map(alternative => alternative.transcript).join(' '),
+        confidence: confidences.every(confidence => confidence !== null)
+            ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+            : null,
+    }];
+};
+
+// The browser's built-in recognizer. It listens to the default microphone on
+// its own, so the stream passed in only serves to hold the permission.
+// Given a stop signal it keeps listening through pauses until the signal
+// fires; otherwise the engine's own silence timeout ends the attempt.
+export const webSpeechRecognizer: Recognizer = {
+    id: 'web-speech',
+    label: 'Browser (Web Speech)',
+    isSupported: () => Boolean(getSpeechRecognition()),
+    recognize: ({ lang, stopSignal }) => new Promise((resolve, reject) => {
+        const SpeechRecognition = getSpeechRecognition();
+        if (!SpeechRecognition) {
+            reject("Speech recognition not supported in this browser.");
+            return;
+        }
+
+        const recognition = new SpeechRecognition();
+        recognition.lang = lang;
+        recognition.continuous = Boolean(stopSignal);
+        recognition.interimResults = false;
+        recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+        let settled = false;
+        let finalResults: SpeechAlternativeList[] = [];
+        recognition.onresult = (event: { results: ArrayLike<SpeechAlternativeList & { isFinal: boolean }> }) => {
+            finalResults = Array.from(event.results).filter(result => result.isFinal);
+            if (!stopSignal) {
+                settled = true;
+                resolve({ alternatives: toAlternatives(event.results[0]) });
+            }
+        };
+
+        recognition.onerror = (event: { error: string }) => {
+            // Silence and our own stop() are normal endings; onend reports them.
+            if (event.error === 'no-speech' || event.error === 'aborted') {
+                return;
+            }
+            settled = true;
+            reject(`Speech recognition error: ${event.error}`);
+        };
+
+        recognition.onend = () => {
+            stopSignal?.removeEventListener('abort', stop);
+            if (!settled) {
+                settled = true;
+                resolve({ alternatives: mergeResults(finalResults) });
+            }
+        };
+
+        const stop = () => recognition.stop();
+        if (stopSignal?.aborted) {
+            resolve({ alternatives: [] });
+            return;
+        }
+        stopSignal?.addEventListener('abort', stop, { once: true });
+        recognition.start();
+    }),
+};
+
+type SpeechResultList = ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+
+// Web Speech in continuous mode. Each update carries the whole transcript so
+// far, so consumers never have to stitch result indexes together.
+export const webSpeechStreamingRecognizer: StreamingRecognizer = {
+    isSupported: () => Boolean(getSpeechRecognition()),
+    start: ({ lang, onUpdate }) => {
+        const SpeechRecognition = getSpeechRecognition();
+        if (!SpeechRecognition) {
+            return { stop: () => {}, done: Promise.reject("Speech recognition not supported in this browser.") };
+        }
+
+        const recognition = new SpeechRecognition();
+        recognition.lang = lang;
+        recognition.continuous = true;
+        recognition.interimResults = true;
+        recognition.maxAlternatives = 1;
+
+        const done = new Promise<void>((resolve, reject) => {
+            recognition.onresult = (event: { results: SpeechResultList }) => {
+                const results = Array.from(event.results);
+                onUpdate({
+                    transcript: results.map(result => result[0].transcript.trim()).filter(Boolean).join(' '),
+                    isFinal: results.every(result => result.isFinal),
+                });
+            };
+            recognition.onerror = (event: { error: string }) => {
+                // Silence and our own stop() are normal endings.
+                if (event.error === 'no-speech' || event.error === 'aborted') {
+                    return;
+                }
+                reject(`Speech recognition error: ${event.error}`);
+            };
+            recognition.onend = () => resolve();
+        });
+
+        recognition.start();
+        return { stop: () => recognition.stop(), done };
+    },
+};
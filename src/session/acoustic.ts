@@ -0,0 +1,11 @@
+import { analyzeFricative, type FricativeAnalysis, type Sibilant } from '../audio/fricative';
+import type { PcmAudio } from '../audio/pcm';
+
+export type AcousticResult = FricativeAnalysis & {
+    expected: Sibilant;
+};
+
+export const measureFricative = (pcm: PcmAudio, expected: Sibilant): AcousticResult | null => {
+    const analysis = analyzeFricative(pcm);
+    return analysis && { ...analysis, expected };
+};
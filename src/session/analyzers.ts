@@ -0,0 +1,64 @@
+import { analyzeAttempt, type AnalyzeOptions } from '../analysis/analyzer';
+import { evaluateWithRules, type RuleContext } from '../analysis/ruleEngine';
+import type { AnalyzeRequest } from '../api/analyze';
+import type { Locale } from '../i18n/types';
+import type { Accent } from '../pronunciation';
+import type { AnalyzeAttemptRequest, AttemptAnalyzer, AttemptTarget } from './types';
+
+export type AnalyzerConfig = {
+    feedbackLanguage: Locale;
+    accent: Accent;
+};
+
+// What the offline rule engine needs to know about the word being attempted.
+export const ruleContextFor = ({ contrast, item, word }: AttemptTarget): RuleContext => {
+    if (item.type === 'sentence') {
+        return { targetSymbol: null, pair: null };
+    }
+    const side = item.a.word === word ? 'a' : 'b';
+    const other = side === 'a' ? 'b' : 'a';
+    return {
+        targetSymbol: contrast[side].symbol,
+        pair: { word: item[other].word, symbol: contrast[other].symbol },
+    };
+};
+
+export const analysisRequestFor = (
+    { target, attempt, alignment }: Omit<AnalyzeAttemptRequest, 'signal'>,
+    { feedbackLanguage, accent }: AnalyzerConfig,
+): AnalyzeRequest => ({
+    targetWord: target.word,
+    targetIpa: target.ipa,
+    contrast: { a: target.contrast.a.label, b: target.contrast.b.label },
+    transcript: attempt.alternatives[0].transcript,
+    alternatives: attempt.alternatives,
+    acoustic: attempt.acoustic && {
+        expected: attempt.acoustic.expected,
+        verdict: attempt.acoustic.verdict,
+        sScore: attempt.acoustic.sScore,
+        spectralCentroid: attempt.acoustic.features.spectralCentroid,
+        spectralPeak: attempt.acoustic.features.spectralPeak,
+    },
+    wordAlignment: alignment,
+    feedbackLanguage,
+    accent,
+});
+
+// The AI coach, falling back to the rules. The config is read per attempt.
+export const createCoachAnalyzer = (
+    getConfig: () => AnalyzerConfig,
+    options: Omit<AnalyzeOptions, 'signal'> = {},
+): AttemptAnalyzer => ({
+    analyze: ({ signal, ...request }) =>
+        analyzeAttempt(analysisRequestFor(request, getConfig()), ruleContextFor(request.target), { ...options, signal }),
+});
+
+// The rule engine alone: offline and deterministic, so replays give the same
+// verdicts on every run.
+export const createRulesAnalyzer = (getConfig: () => AnalyzerConfig): AttemptAnalyzer => ({
+    analyze: async (request) => ({
+        feedback: evaluateWithRules(analysisRequestFor(request, getConfig()), ruleContextFor(request.target)),
+        source: 'rules',
+        model: null,
+    }),
+});
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AnalysisOutcome } from '../analysis/analyzer';
+import { BUNDLED_PACKS } from '../lessons';
+import { createRulesAnalyzer } from './analyzers';
+import { createPracticeSession, describeSessionError, IDLE_STATE, PracticeSessionError } from './engine';
+import { createReplayRecognizer, type ReplayFixture } from './replay';
+import { packTargets } from './targets';
+import type { AttemptAnalyzer, AttemptRecognizer, SessionEvent } from './types';
+
+const targets = packTargets(BUNDLED_PACKS[0], 'en-US');
+const sea = targets.find(target => target.word === 'sea')!;
+const sentence = targets.find(target => target.item.type === 'sentence')!;
+
+const fixture = (transcript: string, durationMs = 0): ReplayFixture => ({
+    word: null,
+    alternatives: transcript === '' ? [] : [{ transcript, confidence: 0.9 }],
+    audio: null,
+    durationMs,
+});
+
+const rules = createRulesAnalyzer(() => ({ feedbackLanguage: 'en', accent: 'en-US' }));
+
+// An analyzer that answers only when told to, and rejects when aborted.
+const createPendingAnalyzer = () => {
+    let answer = (_outcome: AnalysisOutcome) => {};
+    const aborted = vi.fn();
+    const analyzer: AttemptAnalyzer = {
+        analyze: ({ signal }) => new Promise((resolve, reject) => {
+            answer = resolve;
+            signal.addEventListener('abort', () => {
+                aborted();
+                reject(new DOMException('The analysis was cancelled.', 'AbortError'));
+            });
+        }),
+    };
+    return { analyzer, aborted, answer: (outcome: AnalysisOutcome) => answer(outcome) };
+};
+
+// Records until stopped, then uploads for transcription the way the Cloud
+// backend does, unless the attempt was cancelled.
+const createUploadingRecognizer = () => {
+    const transcribe = vi.fn(async () => [{ transcript: 'sea', confidence: 0.9 }]);
+    const recognizer: AttemptRecognizer = {
+        recognize: async ({ stopSignal, cancelSignal }) => {
+            await new Promise(resolve => stopSignal.addEventListener('abort', resolve, { once: true }));
+            if (cancelSignal.aborted) {
+                throw new DOMException('The recognition was cancelled.', 'AbortError');
+            }
+            return { alternatives: await transcribe(), audio: null, acoustic: null };
+        },
+    };
+    return { recognizer, transcribe };
+};
+
+const outcome: AnalysisOutcome = { feedback: { isCorrect: true, feedback: 'Nice.', tip: 'Keep it up.' }, source: 'ai', model: 'mock' };
+
+// Starts a session and keeps every event it emits.
+const startSession = (recognizer: AttemptRecognizer, analyzer: AttemptAnalyzer = rules) => {
+    const session = createPracticeSession({ recognizer, analyzer, now: () => 1234 });
+    const events: SessionEvent[] = [];
+    session.subscribe(event => events.push(event));
+    // Each status once per stretch; voice changes re-emit 'recording'.
+    const statuses = () => events
+        .flatMap(event => (event.type === 'state' ? [event.state.status] : []))
+        .filter((status, i, all) => status !== all[i - 1]);
+    const errors = () => events.flatMap(event => (event.type === 'error' ? [event.error.code] : []));
+    const results = () => events.flatMap(event => (event.type === 'result' ? [event.result] : []));
+    return { session, events, statuses, errors, results };
+};
+
+describe('the practice session', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('records, analyzes and reports a result', async () => {
+        const { session, statuses, results } = startSession(createReplayRecognizer([fixture('she')]));
+        await session.record(sea);
+
+        expect(statuses()).toEqual(['recording', 'analyzing', 'result']);
+        expect(results()).toHaveLength(1);
+        expect(results()[0]).toMatchObject({ at: 1234, target: sea, alignment: null, outcome: { source: 'rules' } });
+        expect(results()[0].outcome.feedback.isCorrect).toBe(false);
+        const state = session.getState();
+        expect(state.status === 'result' && state.attempt.alternatives[0].transcript).toBe('she');
+    });
+
+    it('aligns sentences word by word before analyzing them', async () => {
+        const { session, results } = startSession(createReplayRecognizer([fixture('she shells seashells by the seashore')]));
+        await session.record(sentence);
+
+        const [result] = results();
+        expect(result.alignment?.map(word => word.status)).toEqual(['correct', 'substituted', 'correct', 'correct', 'correct', 'correct']);
+        expect(result.outcome.feedback.isCorrect).toBe(false);
+    });
+
+    it('shows when a voice is heard, and ends a push-to-talk attempt on endSpeech', async () => {
+        vi.useFakeTimers();
+        const { session, statuses } = startSession(createReplayRecognizer([fixture('sea', 5000)]));
+        const done = session.record(sea, { pushToTalk: true });
+        await vi.advanceTimersByTimeAsync(100);
+        expect(session.getState()).toMatchObject({ status: 'recording', voiceDetected: true });
+
+        session.endSpeech();
+        await done;
+        expect(statuses()).toEqual(['recording', 'analyzing', 'result']);
+        expect(session.getState().status).toBe('result');
+    });
+
+    it('reports no speech, and keeps the attempt for playback', async () => {
+        const { session, statuses, errors, results } = startSession(createReplayRecognizer([fixture('')]));
+        await session.record(sea);
+
+        expect(statuses()).toEqual(['recording', 'idle']);
+        expect(errors()).toEqual(['noSpeech']);
+        expect(results()).toEqual([]);
+        expect(session.getState()).toMatchObject({ status: 'idle', target: sea, attempt: { alternatives: [] } });
+    });
+
+    it('replays silence once the script runs out', async () => {
+        const { session, errors } = startSession(createReplayRecognizer([fixture('sea')]));
+        await session.record(sea);
+        await session.record(sea);
+        expect(errors()).toEqual(['noSpeech']);
+    });
+
+    it('ignores a second attempt while one is under way', async () => {
+        vi.useFakeTimers();
+        const recognizer = createReplayRecognizer([fixture('sea', 1000), fixture('she')]);
+        const { session, results } = startSession(recognizer);
+        const first = session.record(sea);
+        await session.record(sea);
+        expect(recognizer.remaining()).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await first;
+        expect(results()).toHaveLength(1);
+    });
+
+    it('drops an attempt reset while recording', async () => {
+        vi.useFakeTimers();
+        const { session, events } = startSession(createReplayRecognizer([fixture('sea', 1000)]));
+        const done = session.record(sea);
+        await vi.advanceTimersByTimeAsync(100);
+        session.reset();
+        expect(session.getState()).toBe(IDLE_STATE);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await done;
+        expect(session.getState()).toBe(IDLE_STATE);
+        expect(events.filter(event => event.type !== 'state')).toEqual([]);
+    });
+
+    it('sends nothing for transcription when reset while recording', async () => {
+        const uploading = createUploadingRecognizer();
+        const { session, events } = startSession(uploading.recognizer);
+        const done = session.record(sea, { pushToTalk: true });
+        session.reset();
+        await done;
+        expect(uploading.transcribe).not.toHaveBeenCalled();
+        expect(events.filter(event => event.type !== 'state')).toEqual([]);
+
+        // Ending the speech is not a cancellation: that attempt is transcribed.
+        const next = session.record(sea, { pushToTalk: true });
+        session.endSpeech();
+        await next;
+        expect(uploading.transcribe).toHaveBeenCalledOnce();
+        expect(session.getState().status).toBe('result');
+    });
+
+    it('cancels the analysis when reset while analyzing', async () => {
+        const pending = createPendingAnalyzer();
+        const { session, events } = startSession(createReplayRecognizer([fixture('sea'), fixture('she')]), pending.analyzer);
+        const done = session.record(sea);
+        await vi.waitFor(() => expect(session.getState().status).toBe('analyzing'));
+
+        session.reset();
+        await done;
+        expect(pending.aborted).toHaveBeenCalledOnce();
+        expect(session.getState()).toBe(IDLE_STATE);
+        expect(events.filter(event => event.type !== 'state')).toEqual([]);
+
+        // The next attempt starts cleanly.
+        const next = session.record(sea);
+        await vi.waitFor(() => expect(session.getState().status).toBe('analyzing'));
+        pending.answer(outcome);
+        await next;
+        expect(session.getState()).toMatchObject({ status: 'result', outcome });
+    });
+
+    it('reports a recognizer failure as a session error', async () => {
+        const denied: AttemptRecognizer = {
+            recognize: async () => {
+                throw Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+            },
+        };
+        const { session, statuses, errors } = startSession(denied);
+        await session.record(sea);
+
+        expect(statuses()).toEqual(['recording', 'idle']);
+        expect(errors()).toEqual(['permissionDenied']);
+        expect(session.getState()).toMatchObject({ status: 'idle', attempt: null, error: { code: 'permissionDenied' } });
+    });
+
+    it('reports a failed analysis', async () => {
+        const broken: AttemptAnalyzer = { analyze: async () => Promise.reject(new Error('boom')) };
+        const { session, errors } = startSession(createReplayRecognizer([fixture('sea')]), broken);
+        await session.record(sea);
+
+        expect(errors()).toEqual(['analysisFailed']);
+        expect(session.getState()).toMatchObject({ status: 'idle', attempt: { alternatives: [{ transcript: 'sea' }] } });
+    });
+});
+
+describe('describeSessionError', () => {
+    const named = (name: string, message = name) => Object.assign(new Error(message), { name });
+
+    it('keeps the code of errors the recognizers name themselves', () => {
+        expect(describeSessionError(new PracticeSessionError('noRecognizer'))).toEqual({ code: 'noRecognizer', message: 'noRecognizer' });
+    });
+
+    it('maps microphone errors from the browser', () => {
+        expect(describeSessionError(named('NotAllowedError')).code).toBe('permissionDenied');
+        expect(describeSessionError(named('PermissionDeniedError')).code).toBe('permissionDenied');
+        expect(describeSessionError(named('NotFoundError')).code).toBe('noMicrophone');
+        expect(describeSessionError(named('NotReadableError')).code).toBe('microphoneBusy');
+    });
+
+    it('recognizes API key problems and passes other messages through', () => {
+        expect(describeSessionError(new Error('API key not valid.'))).toEqual({ code: 'apiKey', message: 'API key not valid.' });
+        expect(describeSessionError(new Error('Network down'))).toEqual({ code: 'generic', message: 'Network down' });
+        expect(describeSessionError('Speech recognition error: network')).toEqual({ code: 'generic', message: 'Speech recognition error: network' });
+        expect(describeSessionError(42)).toEqual({ code: 'unknown', message: '42' });
+    });
+});
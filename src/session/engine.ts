@@ -0,0 +1,193 @@
+import { alignWords, type AlignedWord } from '../analysis/alignment';
+import { isAbortError } from '../analysis/analyzer';
+import type {
+    AttemptAnalyzer,
+    AttemptRecognizer,
+    AttemptTarget,
+    RecognizedAttempt,
+    SessionError,
+    SessionErrorCode,
+    SessionEvent,
+    SessionState,
+} from './types';
+
+// One practice attempt at a time: record, recognize, analyze, show the
+// result. Framework-free, so the React UI and the headless harness drive the
+// same state machine; the microphone and the coach are injected, which is
+// what lets a replay stand in for either.
+
+// Thrown by recognizers for problems they can name, e.g. no microphone API.
+export class PracticeSessionError extends Error {
+    constructor(public readonly code: SessionErrorCode, message: string = code) {
+        super(message);
+        this.name = 'PracticeSessionError';
+    }
+}
+
+// Maps what a recognizer threw to something the learner can act on.
+export const describeSessionError = (error: unknown): SessionError => {
+    if (error instanceof PracticeSessionError) {
+        return { code: error.code, message: error.message };
+    }
+    if (error instanceof Error) {
+        switch (error.name) {
+            case 'NotAllowedError':
+            case 'PermissionDeniedError':
+                return { code: 'permissionDenied', message: error.message };
+            case 'NotFoundError':
+                return { code: 'noMicrophone', message: error.message };
+            case 'NotReadableError':
+                return { code: 'microphoneBusy', message: error.message };
+        }
+        // API-related errors don't have a specific name.
+        return { code: error.message.toLowerCase().includes('api key') ? 'apiKey' : 'generic', message: error.message };
+    }
+    if (typeof error === 'string') {
+        // Recognizers reject with the engine's own (English) diagnostic.
+        return { code: 'generic', message: error };
+    }
+    return { code: 'unknown', message: String(error) };
+};
+
+export const IDLE_STATE: SessionState = { status: 'idle', target: null, attempt: null, alignment: null, error: null };
+
+export type PracticeSessionOptions = {
+    recognizer: AttemptRecognizer;
+    analyzer: AttemptAnalyzer;
+    // Timestamps results; injectable so replays are reproducible.
+    now?: () => number;
+};
+
+export type RecordOptions = {
+    // The attempt lasts until endSpeech() instead of ending on silence.
+    pushToTalk?: boolean;
+};
+
+export type PracticeSession = {
+    getState: () => SessionState;
+    // Returns the unsubscribe function.
+    subscribe: (listener: (event: SessionEvent) => void) => () => void;
+    // Settles once the attempt has a result, has failed or was cancelled;
+    // never rejects. Ignored while another attempt is under way.
+    record: (target: AttemptTarget, options?: RecordOptions) => Promise<void>;
+    // Ends the attempt being recorded, e.g. when Space is released.
+    endSpeech: () => void;
+    // Cancels the attempt in progress, if any, and goes back to idle.
+    reset: () => void;
+};
+
+export const isBusy = (state: SessionState) => state.status === 'recording' || state.status === 'analyzing';
+
+export const createPracticeSession = ({ recognizer, analyzer, now = Date.now }: PracticeSessionOptions): PracticeSession => {
+    let state: SessionState = IDLE_STATE;
+    const listeners = new Set<(event: SessionEvent) => void>();
+    // Bumped by every new attempt and reset, so a stale attempt can't touch the state.
+    let generation = 0;
+    let endOfSpeech: AbortController | null = null;
+    // Aborted by reset(): recognizers skip their upload, analyzers their request.
+    let cancel: AbortController | null = null;
+
+    const emit = (event: SessionEvent) => listeners.forEach(listener => listener(event));
+
+    const setState = (next: SessionState) => {
+        state = next;
+        emit({ type: 'state', state });
+    };
+
+    const fail = (target: AttemptTarget, attempt: RecognizedAttempt | null, alignment: AlignedWord[] | null, error: SessionError) => {
+        setState({ status: 'idle', target, attempt, alignment, error });
+        emit({ type: 'error', target, error });
+    };
+
+    const record = async (target: AttemptTarget, { pushToTalk = false }: RecordOptions = {}) => {
+        if (isBusy(state)) {
+            return;
+        }
+        const run = ++generation;
+        const isCurrent = () => run === generation;
+        const stop = new AbortController();
+        const controller = new AbortController();
+        endOfSpeech = stop;
+        cancel = controller;
+        setState({ status: 'recording', target, voiceDetected: false });
+
+        let attempt: RecognizedAttempt;
+        try {
+            attempt = await recognizer.recognize({
+                target,
+                stopSignal: stop.signal,
+                cancelSignal: controller.signal,
+                endOnSilence: !pushToTalk,
+                onVoice: (detected) => {
+                    if (isCurrent() && state.status === 'recording' && state.voiceDetected !== detected) {
+                        setState({ ...state, voiceDetected: detected });
+                    }
+                },
+            });
+        } catch (error) {
+            if (isCurrent()) {
+                console.error('Error during recording:', error);
+                fail(target, null, null, describeSessionError(error));
+            }
+            return;
+        } finally {
+            if (endOfSpeech === stop) {
+                endOfSpeech = null;
+            }
+        }
+        if (!isCurrent()) {
+            return;
+        }
+        if (attempt.alternatives.length === 0) {
+            fail(target, attempt, null, { code: 'noSpeech', message: 'No speech was heard.' });
+            return;
+        }
+
+        // Sentences are scored word by word, so the tip can target the words that failed.
+        const alignment = target.item.type === 'sentence' ? alignWords(target.word, attempt.alternatives[0].transcript) : null;
+        setState({ status: 'analyzing', target, attempt, alignment });
+        try {
+            const outcome = await analyzer.analyze({ target, attempt, alignment, signal: controller.signal });
+            if (!isCurrent()) {
+                return;
+            }
+            setState({ status: 'result', target, attempt, alignment, outcome });
+            emit({ type: 'result', result: { target, attempt, alignment, outcome, at: now() } });
+        } catch (error) {
+            // Cancelled because the learner moved on; the next attempt owns the state now.
+            if (!isCurrent() || isAbortError(error)) {
+                return;
+            }
+            console.error(error);
+            fail(target, attempt, alignment, { code: 'analysisFailed', message: String(error) });
+        } finally {
+            if (cancel === controller) {
+                cancel = null;
+            }
+        }
+    };
+
+    const reset = () => {
+        generation++;
+        endOfSpeech?.abort();
+        cancel?.abort();
+        endOfSpeech = null;
+        cancel = null;
+        if (state !== IDLE_STATE) {
+            setState(IDLE_STATE);
+        }
+    };
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        record,
+        endSpeech: () => endOfSpeech?.abort(),
+        reset,
+    };
+};
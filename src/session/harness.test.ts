@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { bandNoise, withSilence } from '../audio/testSignals';
+import { BUNDLED_PACKS } from '../lessons';
+import { formatHarnessReport, runHeadlessSession } from './harness';
+import { loadReplayFixtures, parseReplayScript, ReplayScriptError } from './replay';
+import { packTargets } from './targets';
+
+const targets = packTargets(BUNDLED_PACKS[0], 'en-US');
+const byWord = (word: string) => targets.find(target => target.word === word)!;
+
+const script = JSON.stringify({
+    kind: 'replay',
+    attempts: [
+        { word: 'sea', transcript: 'sea', audio: 'fixtures/s.wav' },
+        { word: 'she', alternatives: [{ transcript: 'sea', confidence: 0.8 }, { transcript: 'she', confidence: 0.6 }] },
+        { transcript: '' },
+        { word: 'She sells seashells by the seashore.', transcript: 'she sells sea shells by the seashore' },
+    ],
+});
+
+// Synthetic /s/ in place of the WAV files a real script points at.
+const loadAudio = async () => withSilence(bandNoise(0.2, 5500, 9000));
+
+describe('the headless harness', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('runs a replay script through the engine and reports every step', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const fixtures = await loadReplayFixtures(parseReplayScript(script), loadAudio);
+        const report = await runHeadlessSession({
+            targets: [byWord('sea'), byWord('she'), byWord('seat'), byWord('She sells seashells by the seashore.')],
+            fixtures,
+        });
+
+        expect(report.steps.map(step => [step.word, step.isCorrect, step.error])).toEqual([
+            ['sea', true, null],
+            ['she', false, null],
+            ['seat', null, 'noSpeech'],
+            ['She sells seashells by the seashore.', true, null],
+        ]);
+        expect(report.steps[0].statuses).toEqual(['recording', 'analyzing', 'result']);
+        expect(report.steps[2].statuses).toEqual(['recording', 'idle']);
+        expect(report.steps.every(step => step.source === null || step.source === 'rules')).toBe(true);
+        expect(report).toMatchObject({ judged: 3, correct: 2 });
+        expect(formatHarnessReport(report).split('\n')).toEqual([
+            'sea → "sea": correct [recording > analyzing > result]',
+            'she → "sea": incorrect [recording > analyzing > result]',
+            'seat → (nothing): noSpeech [recording > idle]',
+            'She sells seashells by the seashore. → "she sells sea shells by the seashore": correct [recording > analyzing > result]',
+            '2/3 correct',
+        ]);
+    });
+
+    it('gives the same report on every run', async () => {
+        const fixtures = await loadReplayFixtures(parseReplayScript(script), loadAudio);
+        const run = async () => formatHarnessReport(await runHeadlessSession({ targets: targets.slice(0, 2), fixtures }));
+        expect(await run()).toBe(await run());
+    });
+
+    it('lists every problem with a script', async () => {
+        expect(() => parseReplayScript('{')).toThrow(ReplayScriptError);
+        const invalid = JSON.stringify({ kind: 'replay', attempts: [{ word: '' }, { transcript: 'sea', durationMs: -1 }] });
+        try {
+            parseReplayScript(invalid);
+            expect.unreachable();
+        } catch (e) {
+            expect((e as ReplayScriptError).errors).toEqual([
+                'attempts[0].word: must be a non-empty string when present',
+                'attempts[0]: needs either transcript or alternatives',
+                'attempts[1].durationMs: must be a number from 0 to 60000',
+            ]);
+        }
+        const missing = parseReplayScript(JSON.stringify({ kind: 'replay', attempts: [{ transcript: 'sea', audio: 'gone.wav' }] }));
+        await expect(loadReplayFixtures(missing, async () => Promise.reject(new Error('HTTP 404')))).rejects.toThrow(ReplayScriptError);
+    });
+});
@@ -0,0 +1,90 @@
+import type { FeedbackSource } from '../analysis/feedback';
+import { DEFAULT_ACCENT } from '../pronunciation';
+import { createRulesAnalyzer } from './analyzers';
+import { createPracticeSession } from './engine';
+import { createReplayRecognizer, type ReplayFixture } from './replay';
+import type { AttemptAnalyzer, AttemptTarget, SessionErrorCode, SessionStatus } from './types';
+
+// Drives the practice-session engine with no UI and no microphone: each
+// target is recorded once against the next replay fixture. Runs in Node as
+// well as the browser, so QA scripts can diff reports between builds.
+
+export type HarnessOptions = {
+    targets: AttemptTarget[];
+    fixtures: ReplayFixture[];
+    // The rule engine in English by default, so reports are reproducible.
+    analyzer?: AttemptAnalyzer;
+};
+
+export type HarnessStep = {
+    word: string;
+    transcript: string | null;
+    // Every status the session went through, starting with 'recording'.
+    statuses: SessionStatus[];
+    isCorrect: boolean | null;
+    feedback: string | null;
+    source: FeedbackSource | null;
+    error: SessionErrorCode | null;
+};
+
+export type HarnessReport = {
+    steps: HarnessStep[];
+    // Attempts that got a verdict, and how many of them were correct.
+    judged: number;
+    correct: number;
+};
+
+export const runHeadlessSession = async ({
+    targets,
+    fixtures,
+    analyzer = createRulesAnalyzer(() => ({ feedbackLanguage: 'en', accent: DEFAULT_ACCENT })),
+}: HarnessOptions): Promise<HarnessReport> => {
+    const session = createPracticeSession({ recognizer: createReplayRecognizer(fixtures), analyzer });
+    const steps: HarnessStep[] = [];
+    for (const target of targets) {
+        const step: HarnessStep = {
+            word: target.word,
+            transcript: null,
+            statuses: [],
+            isCorrect: null,
+            feedback: null,
+            source: null,
+            error: null,
+        };
+        const unsubscribe = session.subscribe((event) => {
+            switch (event.type) {
+                case 'state':
+                    if (step.statuses[step.statuses.length - 1] !== event.state.status) {
+                        step.statuses.push(event.state.status);
+                    }
+                    if (event.state.status !== 'recording' && event.state.attempt) {
+                        step.transcript = event.state.attempt.alternatives[0]?.transcript ?? null;
+                    }
+                    break;
+                case 'result':
+                    step.isCorrect = event.result.outcome.feedback.isCorrect;
+                    step.feedback = event.result.outcome.feedback.feedback;
+                    step.source = event.result.outcome.source;
+                    break;
+                case 'error':
+                    step.error = event.error.code;
+                    break;
+            }
+        });
+        await session.record(target);
+        unsubscribe();
+        session.reset();
+        steps.push(step);
+    }
+    const judged = steps.filter(step => step.isCorrect !== null);
+    return { steps, judged: judged.length, correct: judged.filter(step => step.isCorrect).length };
+};
+
+// One line per step, e.g. for a log or a diff between builds.
+export const formatHarnessReport = ({ steps, judged, correct }: HarnessReport) => [
+    ...steps.map(({ word, transcript, statuses, isCorrect, error }) => {
+        const verdict = error ?? (isCorrect ? 'correct' : 'incorrect');
+        return `${word} → ${transcript === null ? '(nothing)' : `"${transcript}"`}: ${verdict} [${statuses.join(' > ')}]`;
+    }),
+    `${correct}/${judged} correct`,
+].join('\n');
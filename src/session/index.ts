@@ -0,0 +1,39 @@
+export type {
+    AnalyzeAttemptRequest,
+    AttemptAnalyzer,
+    AttemptRecognizer,
+    AttemptResult,
+    AttemptTarget,
+    RecognizedAttempt,
+    RecognizeRequest,
+    SessionError,
+    SessionErrorCode,
+    SessionEvent,
+    SessionState,
+    SessionStatus,
+} from './types';
+export { measureFricative, type AcousticResult } from './acoustic';
+export { analysisRequestFor, createCoachAnalyzer, createRulesAnalyzer, ruleContextFor, type AnalyzerConfig } from './analyzers';
+export {
+    createPracticeSession,
+    describeSessionError,
+    IDLE_STATE,
+    isBusy,
+    PracticeSessionError,
+    type PracticeSession,
+    type PracticeSessionOptions,
+    type RecordOptions,
+} from './engine';
+export { formatHarnessReport, runHeadlessSession, type HarnessOptions, type HarnessReport, type HarnessStep } from './harness';
+export { createMicrophoneRecognizer, type MicrophoneConfig } from './microphone';
+export {
+    createReplayRecognizer,
+    loadReplayFixtures,
+    MAX_REPLAY_ATTEMPTS,
+    parseReplayScript,
+    ReplayScriptError,
+    type ReplayFixture,
+    type ReplayRecognizer,
+    type ReplayScriptEntry,
+} from './replay';
+export { attemptTarget, packTargets } from './targets';
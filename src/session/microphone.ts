@@ -0,0 +1,93 @@
+import { detectSpeech, microphoneConstraints } from '../audio/inputMonitor';
+import { sliceAudio, type PcmAudio } from '../audio/pcm';
+import { decodeRecording, startRecording, type AudioRecording } from '../audio/recorder';
+import { DEFAULT_VAD_OPTIONS, speechRange, type VadState } from '../audio/vad';
+import type { RecognitionAlternative, Recognizer } from '../recognition';
+import { measureFricative } from './acoustic';
+import { PracticeSessionError } from './engine';
+import type { AttemptRecognizer } from './types';
+
+export type MicrophoneConfig = {
+    // Null when no recognizer works in this browser.
+    recognizer: Recognizer | null;
+    lang: string;
+    deviceId: string | null;
+    // Voice threshold from the microphone check, if one was run.
+    threshold: number | null;
+};
+
+// The recording powers playback and acoustic analysis, both extras on top of
+// recognition, so decoding failures are only logged.
+const decodeAttempt = async (audio: AudioRecording): Promise<PcmAudio | null> => {
+    try {
+        return await decodeRecording(audio);
+    } catch (e) {
+        console.warn("Couldn't decode the recording:", e);
+        return null;
+    }
+};
+
+// Kept around the detected speech when trimming the recording.
+const SPEECH_PADDING_MS = 250;
+
+// Drops the silence before and after the learner spoke, so playback starts
+// on the word and the acoustic check isn't diluted by room noise.
+const trimToSpeech = (pcm: PcmAudio, speech: VadState) => {
+    const range = speechRange(speech, SPEECH_PADDING_MS);
+    return range ? sliceAudio(pcm, range.startMs, range.endMs) : pcm;
+};
+
+// Records the learner while the recognizer listens, so the fricative can be
+// measured acoustically afterwards. Voice activity detection decides when the
+// attempt is over unless it's push-to-talk. The config is read per attempt,
+// so settings changes apply to the next one.
+export const createMicrophoneRecognizer = (getConfig: () => MicrophoneConfig): AttemptRecognizer => ({
+    recognize: async ({ target, stopSignal, cancelSignal, endOnSilence, onVoice }) => {
+        const { recognizer, lang, deviceId, threshold } = getConfig();
+        if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+            throw new PracticeSessionError('noMicrophoneSupport');
+        }
+        if (!recognizer) {
+            throw new PracticeSessionError('noRecognizer');
+        }
+
+        // Explicitly request mic permission on user tap.
+        const stream = await navigator.mediaDevices.getUserMedia(microphoneConstraints(deviceId));
+        const endOfSpeech = new AbortController();
+        const onStop = () => endOfSpeech.abort();
+        stopSignal.addEventListener('abort', onStop, { once: true });
+        // Cancelled while the permission prompt was open.
+        if (stopSignal.aborted) {
+            onStop();
+        }
+
+        const recording = startRecording(stream);
+        const detection = detectSpeech(
+            stream,
+            { ...DEFAULT_VAD_OPTIONS, threshold: threshold ?? DEFAULT_VAD_OPTIONS.threshold },
+            (state) => onVoice(state.phase === 'speaking'),
+        );
+        if (endOnSilence) {
+            void detection.done.then(() => endOfSpeech.abort());
+        }
+        let alternatives: RecognitionAlternative[];
+        let audio: AudioRecording | null = null;
+        let speech: VadState;
+        try {
+            ({ alternatives } = await recognizer.recognize({ stream, lang, stopSignal: endOfSpeech.signal, cancelSignal }));
+        } finally {
+            detection.cancel();
+            speech = await detection.done;
+            audio = recording ? await recording.stop().catch(() => null) : null;
+            stream.getTracks().forEach(track => track.stop());
+            stopSignal.removeEventListener('abort', onStop);
+        }
+        const recorded = audio && await decodeAttempt(audio);
+        const pcm = recorded && trimToSpeech(recorded, speech);
+        return {
+            alternatives,
+            audio: pcm,
+            acoustic: pcm && target.expectedSound ? measureFricative(pcm, target.expectedSound) : null,
+        };
+    },
+});
@@ -0,0 +1,196 @@
+import { isSameWord } from '../analysis/alignment';
+import { decodeWav, type PcmAudio } from '../audio/pcm';
+import type { RecognitionAlternative } from '../recognition';
+import { isObject } from '../utils/isObject';
+import { measureFricative } from './acoustic';
+import type { AttemptRecognizer } from './types';
+
+// Replay mode: recorded attempts stand in for the microphone, one per
+// attempt in order, so QA runs and demos come out the same every time.
+//
+// A replay script is JSON:
+//   { "kind": "replay", "attempts": [
+//       { "word": "sea", "transcript": "she" },
+//       { "word": "she", "alternatives": [{ "transcript": "she", "confidence": 0.92 }], "audio": "fixtures/she.wav" },
+//       { "transcript": "" }
+//   ] }
+// An empty transcript replays silence. `audio` is a WAV file for the
+// acoustic check and playback; `word`, when given, is the target it was
+// recorded for, and a mismatch is logged.
+
+export type ReplayFixture = {
+    word: string | null;
+    // Best first; empty for silence.
+    alternatives: RecognitionAlternative[];
+    audio: PcmAudio | null;
+    // How long the attempt takes unless push-to-talk ends it sooner.
+    durationMs: number;
+};
+
+export type ReplayScriptEntry = Omit<ReplayFixture, 'audio'> & {
+    // URL or path of a WAV file.
+    audio: string | null;
+};
+
+export const MAX_REPLAY_ATTEMPTS = 1000;
+const MAX_DURATION_MS = 60000;
+
+export class ReplayScriptError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid replay script:\n${errors.join('\n')}`);
+        this.name = 'ReplayScriptError';
+    }
+}
+
+const parseAlternatives = (value: unknown, path: string, errors: string[]): RecognitionAlternative[] => {
+    if (!Array.isArray(value)) {
+        errors.push(`${path}alternatives: must be an array`);
+        return [];
+    }
+    return value.flatMap((alternative, i) => {
+        if (!isObject(alternative) || typeof alternative.transcript !== 'string') {
+            errors.push(`${path}alternatives[${i}].transcript: must be a string`);
+            return [];
+        }
+        const { confidence } = alternative;
+        if (confidence !== undefined && confidence !== null && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+            errors.push(`${path}alternatives[${i}].confidence: must be a number from 0 to 1 when present`);
+            return [];
+        }
+        return [{ transcript: alternative.transcript, confidence: typeof confidence === 'number' ? confidence : null }];
+    });
+};
+
+const parseEntry = (value: unknown, path: string, errors: string[]): ReplayScriptEntry | null => {
+    if (!isObject(value)) {
+        errors.push(`${path.slice(0, -1)}: must be an object`);
+        return null;
+    }
+    const { word, transcript, alternatives, audio, durationMs = 0 } = value;
+    if (word !== undefined && (typeof word !== 'string' || word.trim() === '')) {
+        errors.push(`${path}word: must be a non-empty string when present`);
+    }
+    if ((transcript === undefined) === (alternatives === undefined)) {
+        errors.push(`${path.slice(0, -1)}: needs either transcript or alternatives`);
+    } else if (transcript !== undefined && typeof transcript !== 'string') {
+        errors.push(`${path}transcript: must be a string`);
+    }
+    if (audio !== undefined && (typeof audio !== 'string' || audio.trim() === '')) {
+        errors.push(`${path}audio: must be a non-empty string when present`);
+    }
+    if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0 || durationMs > MAX_DURATION_MS) {
+        errors.push(`${path}durationMs: must be a number from 0 to ${MAX_DURATION_MS}`);
+    }
+    return {
+        word: typeof word === 'string' ? word : null,
+        alternatives: alternatives !== undefined
+            ? parseAlternatives(alternatives, path, errors)
+            : typeof transcript === 'string' && transcript.trim() !== '' ? [{ transcript, confidence: null }] : [],
+        audio: typeof audio === 'string' ? audio : null,
+        durationMs: typeof durationMs === 'number' ? durationMs : 0,
+    };
+};
+
+export const parseReplayScript = (text: string): ReplayScriptEntry[] => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new ReplayScriptError(['The file is not valid JSON.']);
+    }
+    if (!isObject(value) || value.kind !== 'replay') {
+        throw new ReplayScriptError(['kind: must be "replay"']);
+    }
+    if (!Array.isArray(value.attempts) || value.attempts.length === 0 || value.attempts.length > MAX_REPLAY_ATTEMPTS) {
+        throw new ReplayScriptError([`attempts: must be an array of 1 to ${MAX_REPLAY_ATTEMPTS} attempts`]);
+    }
+    const errors: string[] = [];
+    const entries = value.attempts.map((entry, i) => parseEntry(entry, `attempts[${i}].`, errors));
+    if (errors.length > 0) {
+        throw new ReplayScriptError(errors);
+    }
+    return entries as ReplayScriptEntry[];
+};
+
+const fetchWav = async (url: string): Promise<PcmAudio> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+    return decodeWav(await response.arrayBuffer());
+};
+
+// Loads each entry's audio; `loadAudio` reads files instead of fetching, e.g.
+// in the headless harness.
+export const loadReplayFixtures = async (
+    entries: ReplayScriptEntry[],
+    loadAudio: (path: string) => Promise<PcmAudio> = fetchWav,
+): Promise<ReplayFixture[]> => {
+    const cache = new Map<string, Promise<PcmAudio>>();
+    const errors: string[] = [];
+    const fixtures = await Promise.all(entries.map(async (entry, i): Promise<ReplayFixture> => {
+        if (entry.audio === null) {
+            return { ...entry, audio: null };
+        }
+        const path = entry.audio;
+        if (!cache.has(path)) {
+            cache.set(path, loadAudio(path));
+        }
+        try {
+            return { ...entry, audio: await cache.get(path)! };
+        } catch (e) {
+            errors.push(`attempts[${i}].audio: couldn't load ${path} (${e instanceof Error ? e.message : String(e)})`);
+            return { ...entry, audio: null };
+        }
+    }));
+    if (errors.length > 0) {
+        throw new ReplayScriptError(errors);
+    }
+    return fixtures;
+};
+
+export type ReplayRecognizer = AttemptRecognizer & {
+    // Attempts left before the script runs out (and replays silence).
+    remaining: () => number;
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) {
+        resolve();
+        return;
+    }
+    const finish = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', finish);
+        resolve();
+    };
+    const timer = setTimeout(finish, ms);
+    signal.addEventListener('abort', finish, { once: true });
+});
+
+// Hands out the fixtures in order, one per attempt. With `loop` the script
+// starts over at the end; otherwise every further attempt is silence.
+export const createReplayRecognizer = (fixtures: ReplayFixture[], { loop = false } = {}): ReplayRecognizer => {
+    let next = 0;
+    return {
+        remaining: () => (loop ? Infinity : Math.max(0, fixtures.length - next)),
+        recognize: async ({ target, stopSignal, onVoice }) => {
+            const fixture = next < fixtures.length ? fixtures[next] : null;
+            next = loop && fixtures.length > 0 ? (next + 1) % fixtures.length : next + 1;
+            if (!fixture) {
+                return { alternatives: [], audio: null, acoustic: null };
+            }
+            if (fixture.word !== null && !isSameWord(fixture.word, target.word)) {
+                console.warn(`Replaying an attempt at "${fixture.word}" for "${target.word}".`);
+            }
+            onVoice(fixture.alternatives.length > 0);
+            await wait(fixture.durationMs, stopSignal);
+            onVoice(false);
+            return {
+                alternatives: fixture.alternatives,
+                audio: fixture.audio,
+                acoustic: fixture.audio && target.expectedSound ? measureFricative(fixture.audio, target.expectedSound) : null,
+            };
+        },
+    };
+};
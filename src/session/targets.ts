@@ -0,0 +1,33 @@
+import { ipaFor, sibilantFor, type ContrastSide, type LessonPack, type PracticeItem } from '../lessons';
+import type { Accent } from '../pronunciation';
+import type { AttemptTarget } from './types';
+
+// What a record button asks for: one side of a pair, or the sentence.
+export const attemptTarget = (
+    pack: Pick<LessonPack, 'id' | 'contrast'>,
+    item: PracticeItem,
+    side: ContrastSide,
+    accent: Accent,
+): AttemptTarget => item.type === 'pair'
+    ? {
+        packId: pack.id,
+        contrast: pack.contrast,
+        item,
+        word: item[side].word,
+        ipa: ipaFor(item[side], accent),
+        expectedSound: sibilantFor(pack.contrast, side),
+    }
+    : {
+        packId: pack.id,
+        contrast: pack.contrast,
+        item,
+        word: item.text,
+        ipa: ipaFor(item, accent),
+        expectedSound: null,
+    };
+
+// Every target in a pack, in order: both words of each pair, and each sentence.
+export const packTargets = (pack: Pick<LessonPack, 'id' | 'contrast' | 'items'>, accent: Accent): AttemptTarget[] =>
+    pack.items.flatMap(item => (item.type === 'pair'
+        ? [attemptTarget(pack, item, 'a', accent), attemptTarget(pack, item, 'b', accent)]
+        : [attemptTarget(pack, item, 'a', accent)]));
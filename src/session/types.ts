@@ -0,0 +1,113 @@
+import type { AlignedWord } from '../analysis/alignment';
+import type { AnalysisOutcome } from '../analysis/analyzer';
+import type { Sibilant } from '../audio/fricative';
+import type { PcmAudio } from '../audio/pcm';
+import type { Contrast, PracticeItem } from '../lessons';
+import type { RecognitionAlternative } from '../recognition';
+import type { AcousticResult } from './acoustic';
+
+// One word of a pair, or a whole sentence, that the learner is asked to say.
+export type AttemptTarget = {
+    packId: string;
+    contrast: Contrast;
+    item: PracticeItem;
+    // The pair word or the sentence text.
+    word: string;
+    ipa: string;
+    // The sibilant to check acoustically; null when there is none.
+    expectedSound: Sibilant | null;
+};
+
+// What came back from the microphone (or a replay) for one attempt.
+export type RecognizedAttempt = {
+    // N-best list, best first. Empty when no speech was heard.
+    alternatives: RecognitionAlternative[];
+    // The recording trimmed to the speech, for playback and comparison.
+    audio: PcmAudio | null;
+    acoustic: AcousticResult | null;
+};
+
+export type RecognizeRequest = {
+    target: AttemptTarget;
+    // Aborted when the learner has finished (push-to-talk) or the attempt is cancelled.
+    stopSignal: AbortSignal;
+    // Aborted only when the attempt is cancelled: nothing should be sent for
+    // recognition any more, and the result is ignored.
+    cancelSignal: AbortSignal;
+    // Whether silence ends the attempt; false for push-to-talk.
+    endOnSilence: boolean;
+    // Hears whether the learner is currently speaking.
+    onVoice: (detected: boolean) => void;
+};
+
+export type AttemptRecognizer = {
+    // Rejections are reported as session errors; see describeSessionError.
+    recognize: (request: RecognizeRequest) => Promise<RecognizedAttempt>;
+};
+
+export type AnalyzeAttemptRequest = {
+    target: AttemptTarget;
+    attempt: RecognizedAttempt;
+    // Per-word result for sentence items.
+    alignment: AlignedWord[] | null;
+    signal: AbortSignal;
+};
+
+export type AttemptAnalyzer = {
+    analyze: (request: AnalyzeAttemptRequest) => Promise<AnalysisOutcome>;
+};
+
+export type SessionErrorCode =
+    | 'noMicrophoneSupport'
+    | 'noRecognizer'
+    | 'noSpeech'
+    | 'permissionDenied'
+    | 'noMicrophone'
+    | 'microphoneBusy'
+    | 'apiKey'
+    | 'analysisFailed'
+    | 'generic'
+    | 'unknown';
+
+export type SessionError = {
+    code: SessionErrorCode;
+    // The underlying diagnostic, shown for 'generic' errors.
+    message: string;
+};
+
+// The attempt lifecycle. An idle session keeps whatever the last attempt got
+// as far as, so a failed attempt can still be played back.
+export type SessionState =
+    | {
+        status: 'idle';
+        target: AttemptTarget | null;
+        attempt: RecognizedAttempt | null;
+        alignment: AlignedWord[] | null;
+        error: SessionError | null;
+    }
+    | { status: 'recording'; target: AttemptTarget; voiceDetected: boolean }
+    | { status: 'analyzing'; target: AttemptTarget; attempt: RecognizedAttempt; alignment: AlignedWord[] | null }
+    | {
+        status: 'result';
+        target: AttemptTarget;
+        attempt: RecognizedAttempt;
+        alignment: AlignedWord[] | null;
+        outcome: AnalysisOutcome;
+    };
+
+export type SessionStatus = SessionState['status'];
+
+export type AttemptResult = {
+    target: AttemptTarget;
+    attempt: RecognizedAttempt;
+    alignment: AlignedWord[] | null;
+    outcome: AnalysisOutcome;
+    // When the verdict arrived, in ms since the epoch.
+    at: number;
+};
+
+// `state` on every transition; `result` and `error` once per attempt.
+export type SessionEvent =
+    | { type: 'state'; state: SessionState }
+    | { type: 'result'; result: AttemptResult }
+    | { type: 'error'; target: AttemptTarget; error: SessionError };
@@ -0,0 +1,37 @@
+import React from 'react';
+import { createPracticeSession } from './engine';
+import type { AttemptAnalyzer, AttemptRecognizer, AttemptResult, SessionState } from './types';
+
+type UsePracticeSessionOptions = {
+    recognizer: AttemptRecognizer;
+    analyzer: AttemptAnalyzer;
+    // Called once per judged attempt.
+    onResult: (result: AttemptResult) => void;
+};
+
+// The engine for React: one session per component, re-rendering on every
+// state change. The options may change between renders; each attempt uses
+// the latest ones.
+export const usePracticeSession = (options: UsePracticeSessionOptions) => {
+    const latest = React.useRef(options);
+    latest.current = options;
+    const [session] = React.useState(() => createPracticeSession({
+        recognizer: { recognize: request => latest.current.recognizer.recognize(request) },
+        analyzer: { analyze: request => latest.current.analyzer.analyze(request) },
+    }));
+    const state: SessionState = React.useSyncExternalStore(session.subscribe, session.getState);
+
+    React.useEffect(() => {
+        const unsubscribe = session.subscribe((event) => {
+            if (event.type === 'result') {
+                latest.current.onResult(event.result);
+            }
+        });
+        return () => {
+            unsubscribe();
+            session.reset();
+        };
+    }, [session]);
+
+    return { session, state };
+};
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScriptedRecognizer, type ScriptStep } from '../recognition/scripted';
+import { initialTwisterState, liveWords, startTwisterRun, twisterReducer, type TwisterEvent, type TwisterState } from './session';
+
+const config = { target: 'She sells seashells', runs: 3, targetWpm: 150 };
+
+// The reducer behind a plain variable, as React's useReducer would hold it.
+const createDrill = () => {
+    const reducer = twisterReducer(config);
+    let state: TwisterState = initialTwisterState;
+    const dispatch = (event: TwisterEvent) => {
+        state = reducer(state, event);
+    };
+    return { dispatch, state: () => state };
+};
+
+// Starts a run against a scripted recognizer and lets the fake clock play it out.
+const playRun = async (drill: ReturnType<typeof createDrill>, steps: ScriptStep[], ms = 5000) => {
+    const run = startTwisterRun(createScriptedRecognizer(steps), drill.dispatch, { now: () => Date.now() });
+    await vi.advanceTimersByTimeAsync(ms);
+    return run;
+};
+
+// Three words over `spanMs`, the last one final.
+const fluentRun = (spanMs: number): ScriptStep[] => [
+    { atMs: 300, transcript: 'she', isFinal: false },
+    { atMs: 300 + spanMs / 2, transcript: 'she sells', isFinal: false },
+    { atMs: 300 + spanMs, transcript: 'she sells seashells', isFinal: true },
+];
+
+describe('tongue-twister runs', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('lights up words as they are heard', async () => {
+        const drill = createDrill();
+        startTwisterRun(createScriptedRecognizer(fluentRun(1200)), drill.dispatch, { now: () => Date.now() });
+        await vi.advanceTimersByTimeAsync(900);
+        expect(drill.state().phase).toBe('listening');
+        expect(liveWords(config.target, drill.state().transcript).map(word => word.state)).toEqual(['correct', 'correct', 'pending']);
+    });
+
+    it('scores a run as soon as the final transcript reaches the last word', async () => {
+        const drill = createDrill();
+        startTwisterRun(createScriptedRecognizer(fluentRun(1200)), drill.dispatch, { now: () => Date.now() });
+        await vi.advanceTimersByTimeAsync(1500);
+
+        const [result] = drill.state().results;
+        expect(drill.state().phase).toBe('ready');
+        expect(result.durationMs).toBe(1200);
+        expect(result.wordsPerMinute).toBe(150);
+        expect(result).toMatchObject({ accuracy: 1, fluency: 1, score: 100, fasterThanPrevious: null });
+    });
+
+    it('counts down the runs and compares each with the one before', async () => {
+        const drill = createDrill();
+        await playRun(drill, fluentRun(1200));
+        await playRun(drill, fluentRun(900));
+        expect(drill.state().phase).toBe('ready');
+        await playRun(drill, fluentRun(1500));
+
+        expect(drill.state().phase).toBe('finished');
+        expect(drill.state().results.map(result => result.fasterThanPrevious)).toEqual([null, true, false]);
+        // No fourth run until the learner starts over.
+        drill.dispatch({ type: 'start', at: Date.now() });
+        expect(drill.state().phase).toBe('finished');
+    });
+
+    it('scores what was heard when the recognizer times out mid-sentence', async () => {
+        const drill = createDrill();
+        await playRun(drill, [
+            { atMs: 400, transcript: 'she', isFinal: false },
+            { atMs: 1000, transcript: 'she shells', isFinal: false },
+        ]);
+
+        const [result] = drill.state().results;
+        expect(result.durationMs).toBe(600);
+        expect(result.accuracy).toBeCloseTo(1 / 3);
+        expect(result.alignment.map(word => word.status)).toEqual(['correct', 'substituted', 'missing']);
+        // Accuracy gates the speed bonus: 1/3 × (0.6 + 0.4 × 1).
+        expect(result.score).toBe(33);
+    });
+
+    it('measures a single update from when listening started', async () => {
+        const drill = createDrill();
+        await playRun(drill, [{ atMs: 2000, transcript: 'she sells seashells', isFinal: true }]);
+        expect(drill.state().results[0].durationMs).toBe(2000);
+    });
+
+    it('lets the learner retry a run in which nothing was heard', async () => {
+        const drill = createDrill();
+        await playRun(drill, [{ atMs: 800, transcript: '  ', isFinal: true }]);
+        expect(drill.state()).toEqual(initialTwisterState);
+    });
+
+    it('scores the run when the learner presses stop, and drops the late words', async () => {
+        const drill = createDrill();
+        const run = startTwisterRun(createScriptedRecognizer(fluentRun(1200)), drill.dispatch, { now: () => Date.now() });
+        await vi.advanceTimersByTimeAsync(1000);
+        run.stop();
+        drill.dispatch({ type: 'end', at: Date.now() });
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(drill.state().results).toHaveLength(1);
+        expect(drill.state().results[0].transcript).toBe('she sells');
+        expect(drill.state().phase).toBe('ready');
+    });
+
+    it('starts over from the first run after a reset', async () => {
+        const drill = createDrill();
+        await playRun(drill, fluentRun(1200));
+        const run = startTwisterRun(createScriptedRecognizer(fluentRun(1200)), drill.dispatch, { now: () => Date.now() });
+        await vi.advanceTimersByTimeAsync(700);
+        run.stop();
+        drill.dispatch({ type: 'reset' });
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(drill.state()).toEqual(initialTwisterState);
+
+        await playRun(drill, fluentRun(1200));
+        expect(drill.state().results).toHaveLength(1);
+        expect(drill.state().results[0].fasterThanPrevious).toBeNull();
+    });
+});
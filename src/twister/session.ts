@@ -0,0 +1,192 @@
+import { alignWords, tokenize, type AlignedWord } from '../analysis/alignment';
+import type { StreamingRecognizer, StreamingSession } from '../recognition';
+
+// Live tongue-twister runs: "say it 3 times, faster each time". A pure
+// reducer over timestamped recognizer events, so a scripted recognizer and a
+// fake clock can drive it exactly like the microphone does.
+
+export type TwisterConfig = {
+    target: string;
+    runs: number;
+    // Speed that earns full fluency marks.
+    targetWpm: number;
+};
+
+export const DEFAULT_TWISTER_RUNS = 3;
+// Careful native speakers manage tongue twisters at around 150 words a minute.
+export const DEFAULT_TARGET_WPM = 150;
+
+export type RunResult = {
+    transcript: string;
+    alignment: AlignedWord[];
+    durationMs: number;
+    wordsPerMinute: number;
+    // Share of target words said correctly, 0–1.
+    accuracy: number;
+    // Speed relative to targetWpm, capped at 1.
+    fluency: number;
+    // 0–100; accuracy gates the speed bonus so gabbling doesn't pay.
+    score: number;
+    // Null for the first run.
+    fasterThanPrevious: boolean | null;
+};
+
+export type TwisterPhase = 'ready' | 'listening' | 'finished';
+
+export type TwisterState = {
+    phase: TwisterPhase;
+    results: RunResult[];
+    // The run in progress.
+    transcript: string;
+    startedAt: number | null;
+    firstHeardAt: number | null;
+    lastHeardAt: number | null;
+};
+
+export type TwisterEvent =
+    | { type: 'start'; at: number }
+    | { type: 'update'; at: number; transcript: string; isFinal: boolean }
+    // The recognizer stopped: silence, the learner pressed stop, or an error.
+    | { type: 'end'; at: number }
+    | { type: 'reset' };
+
+export const initialTwisterState: TwisterState = {
+    phase: 'ready',
+    results: [],
+    transcript: '',
+    startedAt: null,
+    firstHeardAt: null,
+    lastHeardAt: null,
+};
+
+export type LiveWordState = 'pending' | 'correct' | 'wrong';
+
+export type LiveWord = {
+    text: string;
+    state: LiveWordState;
+};
+
+// Target words coloured by what has been heard so far. Words after the last
+// one heard are still pending rather than missing.
+export const liveWords = (target: string, transcript: string): LiveWord[] => {
+    const targetWords = alignWords(target, transcript).filter(word => word.status !== 'extra');
+    let lastHeard = -1;
+    targetWords.forEach((word, index) => {
+        if (word.heard !== null) {
+            lastHeard = index;
+        }
+    });
+    return targetWords.map((word, index) => ({
+        text: word.target ?? '',
+        state: word.status === 'correct' ? 'correct' : index > lastHeard ? 'pending' : 'wrong',
+    }));
+};
+
+const isComplete = (target: string, transcript: string) =>
+    liveWords(target, transcript).every(word => word.state !== 'pending');
+
+export const scoreRun = (
+    config: TwisterConfig,
+    transcript: string,
+    durationMs: number,
+    previous: RunResult | undefined,
+): RunResult => {
+    const alignment = alignWords(config.target, transcript);
+    const targetCount = alignment.filter(word => word.target !== null).length;
+    const correct = alignment.filter(word => word.status === 'correct').length;
+    const accuracy = targetCount > 0 ? correct / targetCount : 0;
+    const wordsPerMinute = durationMs > 0 ? tokenize(transcript).length / (durationMs / 60000) : 0;
+    const fluency = Math.min(1, wordsPerMinute / config.targetWpm);
+    return {
+        transcript,
+        alignment,
+        durationMs,
+        wordsPerMinute,
+        accuracy,
+        fluency,
+        score: Math.round(100 * accuracy * (0.6 + 0.4 * fluency)),
+        fasterThanPrevious: previous ? wordsPerMinute > previous.wordsPerMinute : null,
+    };
+};
+
+// Time from the first words to the last. With a single update there is no
+// span to measure, so the run counts from when listening started.
+const runDuration = (state: TwisterState) => {
+    const end = state.lastHeardAt ?? 0;
+    const start = state.firstHeardAt !== null && state.firstHeardAt !== end ? state.firstHeardAt : state.startedAt ?? end;
+    return Math.max(0, end - start);
+};
+
+const finishRun = (config: TwisterConfig, state: TwisterState): TwisterState => {
+    if (state.transcript.trim() === '') {
+        // Nothing heard: let the learner try this run again.
+        return { ...initialTwisterState, results: state.results };
+    }
+    const result = scoreRun(config, state.transcript, runDuration(state), state.results[state.results.length - 1]);
+    const results = [...state.results, result];
+    return {
+        ...initialTwisterState,
+        phase: results.length >= config.runs ? 'finished' : 'ready',
+        results,
+    };
+};
+
+export const twisterReducer = (config: TwisterConfig) => (state: TwisterState, event: TwisterEvent): TwisterState => {
+    switch (event.type) {
+        case 'start':
+            return state.phase === 'ready'
+                ? { ...initialTwisterState, phase: 'listening', results: state.results, startedAt: event.at }
+                : state;
+        case 'update': {
+            if (state.phase !== 'listening') {
+                return state;
+            }
+            const heardSomething = event.transcript.trim() !== '';
+            const next: TwisterState = {
+                ...state,
+                transcript: event.transcript,
+                firstHeardAt: state.firstHeardAt ?? (heardSomething ? event.at : null),
+                lastHeardAt: heardSomething ? event.at : state.lastHeardAt,
+            };
+            // A committed transcript that reaches the last word ends the run straight away.
+            return event.isFinal && isComplete(config.target, event.transcript) ? finishRun(config, next) : next;
+        }
+        case 'end':
+            return state.phase === 'listening' ? finishRun(config, state) : state;
+        case 'reset':
+            return initialTwisterState;
+    }
+};
+
+// Wires one recognizer session to the reducer. Once stopped, the session's
+// late events are dropped so they can't leak into the next run; whoever calls
+// stop() dispatches the 'end' themselves if the run should be scored. `done`
+// rejects if the recognizer fails.
+export const startTwisterRun = (
+    recognizer: StreamingRecognizer,
+    dispatch: (event: TwisterEvent) => void,
+    { lang = 'en-US', now = () => performance.now() }: { lang?: string; now?: () => number } = {},
+): StreamingSession => {
+    let isActive = true;
+    dispatch({ type: 'start', at: now() });
+    const session = recognizer.start({
+        lang,
+        onUpdate: ({ transcript, isFinal }) => {
+            if (isActive) {
+                dispatch({ type: 'update', at: now(), transcript, isFinal });
+            }
+        },
+    });
+    const done = session.done.finally(() => {
+        if (isActive) {
+            dispatch({ type: 'end', at: now() });
+        }
+    });
+    return {
+        stop: () => {
+            isActive = false;
+            session.stop();
+        },
+        done,
+    };
+};
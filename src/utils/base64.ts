@@ -0,0 +1,19 @@
+// URL-safe base64 without padding, for links and signatures.
+
+export const bytesToBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Throws on characters outside the alphabet.
+export const base64UrlToBytes = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const textToBase64Url = (text: string) => bytesToBase64Url(new TextEncoder().encode(text));
+
+export const base64UrlToText = (text: string) => new TextDecoder().decode(base64UrlToBytes(text));
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('quotes fields with commas, quotes and line breaks', () => {
+        expect(toCsv(['name', 'note'], [['Sato, Aiko', 'said "she"\nthen "sea"']]))
+            .toBe('name,note\r\n"Sato, Aiko","said ""she""\nthen ""sea"""\r\n');
+    });
+
+    it('writes null and undefined as empty fields', () => {
+        expect(toCsv(['a', 'b', 'c'], [[null, undefined, 0]])).toBe('a,b,c\r\n,,0\r\n');
+    });
+
+    it('keeps spreadsheets from running text as a formula', () => {
+        const names = ['=HYPERLINK("http://example.com","x")', '+1+1', '-2+3', '@SUM(A1)', '\tTab', 'Aiko = top'];
+        expect(toCsv(['student'], names.map(name => [name])).split('\r\n').slice(1, -1)).toEqual([
+            `"'=HYPERLINK(""http://example.com"",""x"")"`,
+            "'+1+1",
+            "'-2+3",
+            "'@SUM(A1)",
+            "'\tTab",
+            'Aiko = top',
+        ]);
+    });
+
+    it('leaves negative numbers numeric', () => {
+        expect(toCsv(['change'], [[-5], [0.5]])).toBe('change\r\n-5\r\n0.5\r\n');
+    });
+});
@@ -0,0 +1,17 @@
+// Spreadsheets run text starting with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180 CSV: fields with commas, quotes or line breaks are quoted. Text
+// that a spreadsheet would read as a formula (a student named
+// "=HYPERLINK(…)") gets a leading apostrophe; numbers are left alone, so
+// negative values stay numeric.
+const escapeField = (value: unknown) => {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: unknown[][]) =>
+    [headers, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
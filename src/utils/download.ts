@@ -0,0 +1,11 @@
+// Saves generated content (JSON, CSV, …) as a file through a temporary link.
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const todayStamp = () => new Date().toISOString().slice(0, 10);
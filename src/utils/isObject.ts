@@ -0,0 +1,3 @@
+// A plain JSON object, for checking parsed files and responses field by field.
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);